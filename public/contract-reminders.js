@@ -0,0 +1,78 @@
+// Contract and warranty expiry reminders while the app is closed. Imported
+// into the generated service worker (vite.config.ts, workbox.importScripts).
+// The app keeps the schedule in the contractReminders table of its database
+// (src/db/contracts.ts); this only shows the due ones, the same way the app
+// does (dueReminders in src/lib/contracts.ts).
+
+const REMINDER_SYNC_TAG = 'contract-reminders';
+const DB_NAME = 'MRIPhysicsDB';
+const STORE = 'contractReminders';
+
+function request(req) {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// The app's database as it is; never create or upgrade it from here
+function openDatabase() {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME);
+    req.onupgradeneeded = () => req.transaction.abort();
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => (req.error?.name === 'AbortError' ? resolve(null) : reject(req.error));
+  });
+}
+
+async function showDueReminders() {
+  const db = await openDatabase();
+  if (!db) return;
+  try {
+    if (!db.objectStoreNames.contains(STORE)) return;
+
+    const now = new Date();
+    const reminders = await request(db.transaction(STORE).objectStore(STORE).getAll());
+    const due = reminders.filter(reminder => !reminder.notifiedAt && reminder.fireAt <= now);
+    if (due.length === 0) return;
+
+    // Latest due reminder per group; earlier ones are skipped rather than shown late
+    const latest = new Map();
+    for (const reminder of due) {
+      const current = latest.get(reminder.group);
+      if (!current || reminder.fireAt > current.fireAt) latest.set(reminder.group, reminder);
+    }
+    for (const reminder of latest.values()) {
+      await self.registration.showNotification(reminder.title, {
+        body: reminder.body,
+        tag: reminder.group,
+        data: { path: 'contracts' },
+      });
+    }
+
+    const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+    await Promise.all(due.map(reminder => request(store.put({ ...reminder, notifiedAt: now }))));
+  } finally {
+    db.close();
+  }
+}
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === REMINDER_SYNC_TAG) event.waitUntil(showDueReminders());
+});
+
+// Open the contracts view, reusing an open window of the app
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.path ?? '', self.registration.scope).href;
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows[0];
+    if (client) {
+      await client.focus();
+      await client.navigate(url);
+    } else {
+      await self.clients.openWindow(url);
+    }
+  })());
+});
@@ -0,0 +1,172 @@
+// Reference sync server for the app's REST sync adapter (src/lib/syncRest.ts).
+// Keeps every record with its per-field change times in one JSON file and
+// merges pushes last-writer-wins per field, the same way devices do.
+//
+//   node server/sync-server.js [data-file]
+//
+// Environment: PORT (default 8787), SYNC_DATA (default sync-data.json),
+// SYNC_TOKEN (bearer token required from clients when set).
+
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_FILE = process.argv[2] ?? process.env.SYNC_DATA ?? 'sync-data.json';
+const TOKEN = process.env.SYNC_TOKEN ?? '';
+// Records per pull page, and bytes of JSON per page: photos travel inline as
+// base64, so a page ends early once it passes the size (always one record)
+const PAGE_SIZE = 200;
+const MAX_PAGE_SIZE = 4 * 1024 * 1024;
+// Largest accepted push (bytes); clients split pushes well below this
+const MAX_BODY = 64 * 1024 * 1024;
+
+// { seq, records: { "<table>/<id>": { table, id, data, fieldTimes, deleted?, seq } } }
+const store = existsSync(DATA_FILE)
+  ? JSON.parse(readFileSync(DATA_FILE, 'utf8'))
+  : { seq: 0, records: {} };
+
+function save() {
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(store));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+}
+
+function latestTime(record) {
+  return Math.max(0, ...Object.values(record.fieldTimes));
+}
+
+// Merge an incoming record into the stored one; ties keep the stored value.
+// Returns the merged record, or null when nothing changed.
+function merge(stored, incoming) {
+  if (!stored) return incoming;
+
+  if (incoming.deleted !== undefined && incoming.deleted > latestTime(stored)) {
+    return stored.deleted !== undefined && stored.deleted >= incoming.deleted
+      ? null
+      : { ...incoming, data: {} };
+  }
+  if (stored.deleted !== undefined) {
+    return latestTime(incoming) > stored.deleted ? incoming : null;
+  }
+  if (incoming.deleted !== undefined) return null;
+
+  const data = { ...stored.data };
+  const fieldTimes = { ...stored.fieldTimes };
+  let changed = false;
+  for (const [field, time] of Object.entries(incoming.fieldTimes)) {
+    if (time <= (fieldTimes[field] ?? 0)) continue;
+    fieldTimes[field] = time;
+    if (field in incoming.data) {
+      data[field] = incoming.data[field];
+    } else {
+      delete data[field];
+    }
+    changed = true;
+  }
+  return changed ? { ...stored, data, fieldTimes } : null;
+}
+
+// Pull page as JSON text; records are serialized once to measure the page
+function pull(since) {
+  const records = Object.values(store.records)
+    .filter(record => record.seq > since)
+    .sort((a, b) => a.seq - b.seq);
+  const page = [];
+  let size = 0;
+  let cursor = since;
+  for (const { seq, ...record } of records) {
+    const json = JSON.stringify(record);
+    if (page.length >= PAGE_SIZE || (page.length > 0 && size + json.length > MAX_PAGE_SIZE)) break;
+    page.push(json);
+    size += json.length;
+    cursor = seq;
+  }
+  const more = page.length < records.length;
+  return `{"records":[${page.join(',')}],"cursor":${JSON.stringify(String(cursor))},"more":${more}}`;
+}
+
+function push(records) {
+  let accepted = 0;
+  for (const incoming of records) {
+    if (typeof incoming?.table !== 'string' || typeof incoming?.id !== 'string'
+      || typeof incoming.fieldTimes !== 'object') {
+      throw new Error('Invalid record');
+    }
+    const key = `${incoming.table}/${incoming.id}`;
+    const merged = merge(store.records[key], {
+      table: incoming.table,
+      id: incoming.id,
+      data: incoming.data ?? {},
+      fieldTimes: incoming.fieldTimes,
+      deleted: incoming.deleted,
+    });
+    if (!merged) continue;
+    store.records[key] = { ...merged, seq: ++store.seq };
+    accepted++;
+  }
+  if (accepted > 0) save();
+  return { accepted };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY) {
+        reject(new Error('Request too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+const server = createServer(async (req, res) => {
+  // The app is served from another origin
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    send(res, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  if (url.pathname !== '/changes') {
+    send(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  try {
+    if (req.method === 'GET') {
+      send(res, 200, pull(Number(url.searchParams.get('since') ?? 0) || 0));
+    } else if (req.method === 'POST') {
+      const body = JSON.parse(await readBody(req));
+      if (!Array.isArray(body.records)) throw new Error('Expected { records: [...] }');
+      send(res, 200, push(body.records));
+    } else {
+      send(res, 405, { error: 'Method not allowed' });
+    }
+  } catch (err) {
+    send(res, 400, { error: err instanceof Error ? err.message : String(err) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Sync server listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+});
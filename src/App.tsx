@@ -1,28 +1,66 @@
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import Dashboard from './pages/Dashboard';
 import Organizations from './pages/Organizations';
 import Sites from './pages/Sites';
 import Rooms from './pages/Rooms';
 import RoomDetail from './pages/RoomDetail';
+import EquipmentDetail from './pages/EquipmentDetail';
+import EventDetail from './pages/EventDetail';
 import Events from './pages/Events';
+import Search from './pages/Search';
 import Export from './pages/Export';
+import Import from './pages/Import';
 import Camera from './pages/Camera';
+import QCEntry from './pages/QCEntry';
+import ReportTemplates from './pages/ReportTemplates';
+import Trash from './pages/Trash';
+import Backups from './pages/Backups';
+import Sync from './pages/Sync';
+import Contracts from './pages/Contracts';
+import ShortLink from './pages/ShortLink';
+import UndoSnackbar from './components/UndoSnackbar';
 
 function App() {
   return (
     <BrowserRouter basename="/mri-physics-tool">
       <div className="app">
         <Routes>
+          <Route path="/" element={<Dashboard />} />
+
           {/* Drill-down hierarchy */}
-          <Route path="/" element={<Organizations />} />
+          <Route path="/organizations" element={<Organizations />} />
           <Route path="/organizations/:orgId/sites" element={<Sites />} />
           <Route path="/organizations/:orgId/sites/:siteId/rooms" element={<Rooms />} />
           <Route path="/organizations/:orgId/sites/:siteId/rooms/:roomId" element={<RoomDetail />} />
+          <Route
+            path="/organizations/:orgId/sites/:siteId/rooms/:roomId/equipment/:equipmentId"
+            element={<EquipmentDetail />}
+          />
+          <Route
+            path="/organizations/:orgId/sites/:siteId/rooms/:roomId/equipment/:equipmentId/events/:eventId"
+            element={<EventDetail />}
+          />
 
           {/* Other pages - to be rebuilt */}
           <Route path="/events" element={<Events />} />
+          <Route path="/search" element={<Search />} />
           <Route path="/export" element={<Export />} />
+          <Route path="/import" element={<Import />} />
           <Route path="/camera" element={<Camera />} />
+          <Route path="/qc" element={<QCEntry />} />
+          <Route path="/templates" element={<ReportTemplates />} />
+          <Route path="/trash" element={<Trash />} />
+          <Route path="/backups" element={<Backups />} />
+          <Route path="/sync" element={<Sync />} />
+          <Route path="/contracts" element={<Contracts />} />
+          {/* Short shareable links, redirected to the nested routes above */}
+          <Route path="/o/:id" element={<ShortLink level="organization" />} />
+          <Route path="/s/:id" element={<ShortLink level="site" />} />
+          <Route path="/r/:id" element={<ShortLink level="room" />} />
+          <Route path="/e/:id" element={<ShortLink level="equipment" />} />
+          <Route path="/ev/:id" element={<ShortLink level="event" />} />
         </Routes>
+        <UndoSnackbar />
       </div>
     </BrowserRouter>
   );
@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { db } from '../db';
+import {
+  ACR_SERIES,
+  ACR_TESTS,
+  ACR_RESULT_LABELS,
+  DEFAULT_FIELD_STRENGTH,
+  applyCalculations,
+  evaluateACR,
+  lcdTotal,
+  type ACRCalculationResult,
+  type ACRField,
+  type ACRFieldKey,
+} from '../lib/acr';
+import type { ACRSeries, ACRSeriesMeasurements, ACRTestData, SupportEvent } from '../types';
+
+interface ACRTestFormProps {
+  event: SupportEvent;
+  /** Scanner field strength in tesla; null when not recorded */
+  fieldStrength: number | null;
+}
+
+type SeriesForm = Partial<Record<ACRFieldKey, string>>;
+type ACRForm = Record<ACRSeries, SeriesForm>;
+
+function toForm(data: ACRTestData | undefined): ACRForm {
+  const form = {} as ACRForm;
+  for (const { id } of ACR_SERIES) {
+    const values = data?.[id] ?? {};
+    form[id] = Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [key, String(value)])
+    );
+  }
+  return form;
+}
+
+function toSeriesMeasurements(form: SeriesForm): ACRSeriesMeasurements {
+  const values: ACRSeriesMeasurements = {};
+  for (const [key, value] of Object.entries(form)) {
+    const number = parseFloat(value ?? '');
+    if (Number.isFinite(number)) {
+      values[key as ACRFieldKey] = number;
+    }
+  }
+  return values;
+}
+
+// Raw ROI inputs are stored alongside the values calculated from them
+function calculateSeries(form: ACRForm): Record<ACRSeries, ACRCalculationResult> {
+  const results = {} as Record<ACRSeries, ACRCalculationResult>;
+  for (const { id } of ACR_SERIES) {
+    results[id] = applyCalculations(toSeriesMeasurements(form[id]));
+  }
+  return results;
+}
+
+function toData(results: Record<ACRSeries, ACRCalculationResult>): ACRTestData {
+  const data: ACRTestData = {};
+  for (const { id } of ACR_SERIES) {
+    data[id] = results[id].values;
+  }
+  return data;
+}
+
+/**
+ * Structured entry for the seven ACR Large Phantom tests on the ACR T1 and
+ * T2 series, evaluated live against the action limits.
+ */
+export default function ACRTestForm({ event, fieldStrength }: ACRTestFormProps) {
+  const [formData, setFormData] = useState<ACRForm>(() => toForm(event.acr));
+  const [series, setSeries] = useState<ACRSeries>('t1');
+  const [dirty, setDirty] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const tesla = fieldStrength ?? DEFAULT_FIELD_STRENGTH;
+  const calculations = calculateSeries(formData);
+  const data = toData(calculations);
+  const evaluation = evaluateACR(data, tesla);
+  const current = calculations[series];
+  // Rejected ROI inputs (either series) must be corrected before saving
+  const hasErrors = ACR_SERIES.some(s => Object.keys(calculations[s.id].errors).length > 0);
+
+  const handleChange = (key: ACRFieldKey, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [series]: { ...prev[series], [key]: value },
+    }));
+    setDirty(true);
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await db.events.update(event.id, {
+        acr: data,
+        updatedAt: new Date(),
+      });
+      setDirty(false);
+      setSaved(true);
+    } catch (err) {
+      setError(`Save failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="room-section">
+      <h2 className="room-section__title">ACR Phantom Tests</h2>
+
+      {fieldStrength === null && (
+        <p className="room-section__empty">
+          Field strength not recorded for this scanner — using limits for &lt; 3T.
+        </p>
+      )}
+
+      {/* Summary */}
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>Test</th>
+            {ACR_SERIES.map(s => <th key={s.id}>{s.label}</th>)}
+            <th>Result</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ACR_TESTS.map(test => (
+            <tr key={test.id}>
+              <td>{test.label}</td>
+              {ACR_SERIES.map(s => (
+                <td key={s.id}>
+                  <span className={`result result--${evaluation[test.id].series[s.id]}`}>
+                    {ACR_RESULT_LABELS[evaluation[test.id].series[s.id]]}
+                  </span>
+                </td>
+              ))}
+              <td>
+                <span className={`result result--${evaluation[test.id].overall}`}>
+                  {ACR_RESULT_LABELS[evaluation[test.id].overall]}
+                </span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Series selector */}
+      <div className="segmented">
+        {ACR_SERIES.map(s => (
+          <button
+            key={s.id}
+            type="button"
+            className={`segmented__item${series === s.id ? ' segmented__item--active' : ''}`}
+            onClick={() => setSeries(s.id)}
+          >
+            {s.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Measurements */}
+      {ACR_TESTS.map(test => {
+        const result = evaluation[test.id].series[series];
+        const total = test.id === 'low_contrast' ? lcdTotal(data[series] ?? {}) : null;
+        const error = test.calculator && current.errors[test.calculator.output];
+
+        const renderField = (field: ACRField) => {
+          const calculated = current.calculated.includes(field.key);
+          return (
+            <div key={field.key} className="measurement-field">
+              <label className="form-label" htmlFor={`${series}-${field.key}`}>
+                {field.label}
+              </label>
+              <input
+                id={`${series}-${field.key}`}
+                className={`form-input${calculated ? ' measurement-field__input--calculated' : ''}`}
+                type="number"
+                inputMode="decimal"
+                step={field.step ?? 'any'}
+                value={calculated
+                  ? String(current.values[field.key])
+                  : formData[series][field.key] ?? ''}
+                readOnly={calculated}
+                onChange={e => handleChange(field.key, e.target.value)}
+              />
+              {field.unit && <span className="measurement-field__unit">{field.unit}</span>}
+            </div>
+          );
+        };
+
+        return (
+          <fieldset key={test.id} className="measurement-group">
+            <legend className="measurement-group__title">
+              {test.label}
+              {' '}
+              <span className={`result result--${result}`}>{ACR_RESULT_LABELS[result]}</span>
+            </legend>
+            <p className="measurement-group__limit">Action limit: {test.limit(tesla)}</p>
+            {test.calculator?.inputs.map(renderField)}
+            {test.fields.map(renderField)}
+            {error && <p className="measurement-group__error">{error}</p>}
+            {total !== null && (
+              <p className="measurement-group__limit">Total: {total} spokes</p>
+            )}
+          </fieldset>
+        );
+      })}
+
+      <div className="form-actions">
+        {saved && <span className="form-actions__status">Saved</span>}
+        {error && <span className="measurement-group__error">{error}</span>}
+        <button
+          className="btn btn--primary"
+          onClick={handleSave}
+          disabled={saving || !dirty || hasErrors}
+        >
+          Save Measurements
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,43 @@
+import { useNavigate } from 'react-router-dom';
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+
+// Global navigation (see ROUTES.md)
+const MENU_ITEMS = [
+  { label: 'Home', path: '/' },
+  { label: 'Events', path: '/events' },
+  { label: 'Contracts', path: '/contracts' },
+  { label: 'Search', path: '/search' },
+  { label: 'Export', path: '/export' },
+  { label: 'Import', path: '/import' },
+  { label: 'Backups', path: '/backups' },
+  { label: 'Sync', path: '/sync' },
+  { label: 'Report Templates', path: '/templates' },
+  { label: 'Trash', path: '/trash' },
+];
+
+export default function AppMenu() {
+  const navigate = useNavigate();
+
+  return (
+    <DropdownMenu.Root>
+      <DropdownMenu.Trigger asChild>
+        <button className="drill-header__menu" aria-label="Menu">
+          ☰
+        </button>
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Portal>
+        <DropdownMenu.Content className="dropdown-menu-content" align="end" sideOffset={4}>
+          {MENU_ITEMS.map(item => (
+            <DropdownMenu.Item
+              key={item.path}
+              className="dropdown-menu-item"
+              onSelect={() => navigate(item.path)}
+            >
+              {item.label}
+            </DropdownMenu.Item>
+          ))}
+        </DropdownMenu.Content>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Root>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { establishBaseline } from '../db';
+import {
+  BASELINE_FIELDS,
+  BASELINE_KEYS,
+  BASELINE_SOURCE_LABELS,
+  DEFAULT_BASELINE_LIMITS,
+  DEFAULT_BASELINE_QC_COUNT,
+  limitUnit,
+  meanBaselineValues,
+} from '../lib/baselines';
+import { formatDate } from '../lib/dates';
+import type { Baseline, BaselineKey, BaselineSource, SupportEvent } from '../types';
+
+interface BaselineDialogProps {
+  equipmentId: string;
+  /** Completed QC checks since the last baseline reset, oldest first */
+  qcEvents: SupportEvent[];
+  /** Completed acceptance tests with QC measurements, newest first */
+  acceptanceTests: SupportEvent[];
+  current?: Baseline;
+  onClose: () => void;
+}
+
+type ValuesForm = Partial<Record<BaselineKey, string>>;
+
+const SOURCES: BaselineSource[] = ['acceptance_test', 'qc_mean', 'manual'];
+
+function toValuesForm(values: Baseline['values'] | undefined): ValuesForm {
+  const form: ValuesForm = {};
+  for (const key of BASELINE_KEYS) {
+    const value = values?.[key];
+    if (value !== undefined) form[key] = String(value);
+  }
+  return form;
+}
+
+function parseValues(form: ValuesForm): Baseline['values'] {
+  const values: Baseline['values'] = {};
+  for (const key of BASELINE_KEYS) {
+    const value = parseFloat(form[key] ?? '');
+    if (Number.isFinite(value)) values[key] = value;
+  }
+  return values;
+}
+
+/**
+ * Establish a new baseline version for a scanner from its acceptance test,
+ * the mean of its first QC checks, or values entered by hand. Mount only
+ * while open.
+ */
+export default function BaselineDialog({
+  equipmentId,
+  qcEvents,
+  acceptanceTests,
+  current,
+  onClose,
+}: BaselineDialogProps) {
+  const [source, setSource] = useState<BaselineSource>(
+    acceptanceTests.length > 0 ? 'acceptance_test' : 'qc_mean'
+  );
+  const [acceptanceId, setAcceptanceId] = useState(acceptanceTests[0]?.id ?? '');
+  const [qcCount, setQCCount] = useState(String(DEFAULT_BASELINE_QC_COUNT));
+  const [manualValues, setManualValues] = useState<ValuesForm>(() => toValuesForm(current?.values));
+  const [limits, setLimits] = useState<ValuesForm>(
+    () => toValuesForm(current?.limits ?? DEFAULT_BASELINE_LIMITS)
+  );
+  const [notes, setNotes] = useState('');
+
+  // Values and the events they came from for the selected source
+  const count = Math.max(1, parseInt(qcCount, 10) || DEFAULT_BASELINE_QC_COUNT);
+  const acceptanceTest = acceptanceTests.find(event => event.id === acceptanceId);
+  const sourceEvents = source === 'acceptance_test'
+    ? acceptanceTest ? [acceptanceTest] : []
+    : source === 'qc_mean' ? qcEvents.slice(0, count) : [];
+  const values = source === 'manual'
+    ? parseValues(manualValues)
+    : meanBaselineValues(sourceEvents.map(event => event.qc));
+  const hasValues = Object.keys(values).length > 0;
+
+  const handleSave = async () => {
+    await establishBaseline(equipmentId, {
+      source,
+      sourceEventIds: sourceEvents.map(event => event.id),
+      values,
+      limits: parseValues(limits),
+      notes: notes.trim() || undefined,
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog.Root open onOpenChange={open => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="dialog-overlay" />
+        <Dialog.Content className="dialog-content">
+          <Dialog.Title className="dialog-title">Set Baseline</Dialog.Title>
+
+          <div className="segmented">
+            {SOURCES.map(s => (
+              <button
+                key={s}
+                type="button"
+                className={`segmented__item${source === s ? ' segmented__item--active' : ''}`}
+                onClick={() => setSource(s)}
+              >
+                {BASELINE_SOURCE_LABELS[s]}
+              </button>
+            ))}
+          </div>
+
+          {source === 'acceptance_test' && (
+            <div className="form-group">
+              <label className="form-label" htmlFor="acceptanceTest">
+                Acceptance test
+              </label>
+              {acceptanceTests.length === 0 ? (
+                <p className="room-section__empty">
+                  No completed acceptance test with QC measurements
+                </p>
+              ) : (
+                <select
+                  id="acceptanceTest"
+                  className="form-input"
+                  value={acceptanceId}
+                  onChange={e => setAcceptanceId(e.target.value)}
+                >
+                  {acceptanceTests.map(event => (
+                    <option key={event.id} value={event.id}>
+                      {event.title}
+                      {event.completedAt && ` (${formatDate(event.completedAt)})`}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+
+          {source === 'qc_mean' && (
+            <div className="form-group">
+              <label className="form-label" htmlFor="qcCount">
+                Number of QC checks
+              </label>
+              <input
+                id="qcCount"
+                className="form-input"
+                type="number"
+                inputMode="numeric"
+                min={1}
+                value={qcCount}
+                onChange={e => setQCCount(e.target.value)}
+              />
+              <p className="measurement-group__limit">
+                Averaging the first {sourceEvents.length} of {qcEvents.length} QC checks
+                since the last reset
+              </p>
+            </div>
+          )}
+
+          <fieldset className="measurement-group">
+            <legend className="measurement-group__title">Baseline values</legend>
+            {BASELINE_FIELDS.map(field => (
+              <div key={field.key} className="measurement-field">
+                <label className="form-label" htmlFor={`baseline-${field.key}`}>
+                  {field.label}
+                </label>
+                <input
+                  id={`baseline-${field.key}`}
+                  className={`form-input${source === 'manual' ? '' : ' measurement-field__input--calculated'}`}
+                  type="number"
+                  inputMode="decimal"
+                  step={field.step}
+                  value={source === 'manual'
+                    ? manualValues[field.key] ?? ''
+                    : values[field.key]?.toFixed(field.digits) ?? ''}
+                  readOnly={source !== 'manual'}
+                  onChange={e => setManualValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+                />
+                {field.unit && <span className="measurement-field__unit">{field.unit}</span>}
+              </div>
+            ))}
+          </fieldset>
+
+          <fieldset className="measurement-group">
+            <legend className="measurement-group__title">Action limits (±)</legend>
+            {BASELINE_FIELDS.map(field => (
+              <div key={field.key} className="measurement-field">
+                <label className="form-label" htmlFor={`limit-${field.key}`}>
+                  {field.label}
+                </label>
+                <input
+                  id={`limit-${field.key}`}
+                  className="form-input"
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step={0.1}
+                  value={limits[field.key] ?? ''}
+                  onChange={e => setLimits(prev => ({ ...prev, [field.key]: e.target.value }))}
+                />
+                <span className="measurement-field__unit">{limitUnit(field)}</span>
+              </div>
+            ))}
+          </fieldset>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="baselineNotes">
+              Notes
+            </label>
+            <textarea
+              id="baselineNotes"
+              className="form-input"
+              rows={2}
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+            />
+          </div>
+
+          <div className="dialog-actions">
+            <Dialog.Close asChild>
+              <button type="button" className="btn">Cancel</button>
+            </Dialog.Close>
+            <button
+              type="button"
+              className="btn btn--primary"
+              onClick={handleSave}
+              disabled={!hasValues}
+            >
+              Save
+            </button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
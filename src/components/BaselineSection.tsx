@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { resetBaseline } from '../db';
+import BaselineDialog from './BaselineDialog';
+import {
+  BASELINE_FIELDS,
+  BASELINE_RESET_REASONS,
+  BASELINE_SOURCE_LABELS,
+  getCurrentBaseline,
+  isBaselineStale,
+  limitUnit,
+} from '../lib/baselines';
+import { isQCEmpty } from '../lib/qc';
+import { formatDate } from '../lib/dates';
+import type { Baseline, Equipment, SupportEvent } from '../types';
+
+interface BaselineSectionProps {
+  equipment: Equipment;
+  events: SupportEvent[];
+  /** All baseline versions for the scanner, newest first */
+  baselines: Baseline[];
+}
+
+function completedWithQC(events: SupportEvent[], type: SupportEvent['type']) {
+  return events.filter(event =>
+    event.type === type && event.status === 'completed' && event.completedAt && !isQCEmpty(event.qc)
+  );
+}
+
+/**
+ * Current QC baseline for a scanner with its action limits, version history,
+ * and actions to establish a new version or reset after a major repair.
+ */
+export default function BaselineSection({ equipment, events, baselines }: BaselineSectionProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [resetOpen, setResetOpen] = useState(false);
+  const [resetReason, setResetReason] = useState(BASELINE_RESET_REASONS[0]);
+  const [resetDetails, setResetDetails] = useState('');
+
+  const current = getCurrentBaseline(baselines);
+  const stale = current && isBaselineStale(current, equipment);
+
+  // QC since the last reset is what a new baseline may be averaged from
+  const lastReset = Math.max(0, ...baselines.map(b => b.supersededAt?.getTime() ?? 0));
+  const qcEvents = completedWithQC(events, 'qc_check')
+    .filter(event => event.completedAt!.getTime() > lastReset)
+    .sort((a, b) => a.completedAt!.getTime() - b.completedAt!.getTime());
+  const acceptanceTests = completedWithQC(events, 'acceptance_test')
+    .sort((a, b) => b.completedAt!.getTime() - a.completedAt!.getTime());
+
+  const openResetDialog = () => {
+    setResetReason(BASELINE_RESET_REASONS[0]);
+    setResetDetails('');
+    setResetOpen(true);
+  };
+
+  const handleReset = async () => {
+    const details = resetDetails.trim();
+    await resetBaseline(equipment.id, details ? `${resetReason}: ${details}` : resetReason);
+    setResetOpen(false);
+  };
+
+  return (
+    <section className="room-section">
+      <h2 className="room-section__title">QC Baseline</h2>
+
+      {!current && (
+        <p className="room-section__empty">
+          No baseline set — deltas are shown against the first recorded QC
+        </p>
+      )}
+
+      {stale && (
+        <p className="baseline__warning">
+          Software changed since this baseline was established
+          ({current.softwareVersion || 'none'} → {equipment.softwareVersion || 'none'}).
+          Reset and establish a new baseline.
+        </p>
+      )}
+
+      {current && (
+        <>
+          <p className="room-info__detail">
+            <strong>Version {current.version}:</strong>
+            {' '}
+            {BASELINE_SOURCE_LABELS[current.source]} • {formatDate(current.establishedAt)}
+            {current.softwareVersion && ` • Software ${current.softwareVersion}`}
+          </p>
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Item</th>
+                <th>Baseline</th>
+                <th>Action limit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {BASELINE_FIELDS.map(field => {
+                const value = current.values[field.key];
+                const limit = current.limits[field.key];
+                return (
+                  <tr key={field.key}>
+                    <td>{field.label}</td>
+                    <td>
+                      {value !== undefined
+                        ? `${value.toFixed(field.digits)}${field.unit ? ` ${field.unit}` : ''}`
+                        : '—'}
+                    </td>
+                    <td>{limit !== undefined ? `± ${limit} ${limitUnit(field)}` : '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {current.notes && (
+            <p className="room-info__detail">
+              <strong>Notes:</strong> {current.notes}
+            </p>
+          )}
+        </>
+      )}
+
+      <div className="room-info__actions">
+        <button className="btn btn--small btn--primary" onClick={() => setDialogOpen(true)}>
+          Set Baseline
+        </button>
+        {current && (
+          <button className="btn btn--small btn--danger" onClick={openResetDialog}>
+            Reset
+          </button>
+        )}
+      </div>
+
+      {/* Version history */}
+      {baselines.some(b => b.supersededAt) && (
+        <div className="drill-list baseline__history">
+          {baselines.filter(b => b.supersededAt).map(baseline => (
+            <div key={baseline.id} className="drill-item">
+              <span className="drill-item__text">
+                Version {baseline.version}
+                <span className="event-item__meta">
+                  {' '}
+                  {formatDate(baseline.establishedAt)} – {formatDate(baseline.supersededAt!)}
+                  {baseline.resetReason && ` • ${baseline.resetReason}`}
+                </span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {dialogOpen && (
+        <BaselineDialog
+          equipmentId={equipment.id}
+          qcEvents={qcEvents}
+          acceptanceTests={acceptanceTests}
+          current={current}
+          onClose={() => setDialogOpen(false)}
+        />
+      )}
+
+      {/* Reset Dialog */}
+      <Dialog.Root open={resetOpen} onOpenChange={setResetOpen}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="dialog-overlay" />
+          <Dialog.Content className="dialog-content">
+            <Dialog.Title className="dialog-title">Reset Baseline</Dialog.Title>
+            <Dialog.Description className="alert-dialog-description">
+              Version {current?.version} will no longer be used for deltas and action limits
+              until a new baseline is set.
+            </Dialog.Description>
+
+            <div className="form-group">
+              <label className="form-label" htmlFor="resetReason">
+                Reason
+              </label>
+              <select
+                id="resetReason"
+                className="form-input"
+                value={resetReason}
+                onChange={e => setResetReason(e.target.value)}
+              >
+                {BASELINE_RESET_REASONS.map(reason => (
+                  <option key={reason} value={reason}>{reason}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label" htmlFor="resetDetails">
+                Details
+              </label>
+              <input
+                id="resetDetails"
+                className="form-input"
+                value={resetDetails}
+                onChange={e => setResetDetails(e.target.value)}
+                placeholder="e.g., Gradient coil replaced"
+              />
+            </div>
+
+            <div className="dialog-actions">
+              <Dialog.Close asChild>
+                <button type="button" className="btn">Cancel</button>
+              </Dialog.Close>
+              <button type="button" className="btn btn--danger" onClick={handleReset}>
+                Reset
+              </button>
+            </div>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+    </section>
+  );
+}
@@ -0,0 +1,26 @@
+import { useEffect, useRef } from 'react';
+
+interface BlobImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  blob: Blob | undefined;
+}
+
+/**
+ * <img> backed by a Blob. The object URL is created and revoked alongside
+ * the element so large galleries don't leak memory.
+ */
+export default function BlobImage({ blob, alt = '', ...props }: BlobImageProps) {
+  const imgRef = useRef<HTMLImageElement>(null);
+
+  useEffect(() => {
+    const img = imgRef.current;
+    if (!img || !blob) return;
+    const url = URL.createObjectURL(blob);
+    img.src = url;
+    return () => {
+      img.removeAttribute('src');
+      URL.revokeObjectURL(url);
+    };
+  }, [blob]);
+
+  return <img ref={imgRef} alt={alt} {...props} />;
+}
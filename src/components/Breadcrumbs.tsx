@@ -0,0 +1,27 @@
+import { useNavigate } from 'react-router-dom';
+import { breadcrumbs } from '../lib/hierarchy';
+import type { HierarchyChain } from '../types';
+
+interface BreadcrumbsProps {
+  chain: HierarchyChain | null | undefined;
+}
+
+/** "Org › Site › Room" trail under the header; each level links to its page */
+export default function Breadcrumbs({ chain }: BreadcrumbsProps) {
+  const navigate = useNavigate();
+  const crumbs = chain ? breadcrumbs(chain) : [];
+  if (crumbs.length === 0) return null;
+
+  return (
+    <nav className="breadcrumbs" aria-label="Breadcrumb">
+      {crumbs.map((crumb, index) => (
+        <span key={crumb.level} className="breadcrumbs__item">
+          {index > 0 && <span className="breadcrumbs__separator">›</span>}
+          <button className="breadcrumbs__link" onClick={() => navigate(crumb.path)}>
+            {crumb.label}
+          </button>
+        </span>
+      ))}
+    </nav>
+  );
+}
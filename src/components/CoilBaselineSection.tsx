@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { establishBaseline } from '../db';
+import {
+  DEFAULT_COIL_SNR_LIMIT,
+  DEFAULT_COIL_UNIFORMITY_LIMIT,
+  isCoilQCEmpty,
+} from '../lib/coils';
+import { BASELINE_SOURCE_LABELS, getCurrentBaseline } from '../lib/baselines';
+import { formatDate } from '../lib/dates';
+import type { Baseline, Equipment, SupportEvent } from '../types';
+
+interface CoilBaselineSectionProps {
+  coil: Equipment;
+  events: SupportEvent[];
+  /** All baseline versions for the coil, newest first */
+  baselines: Baseline[];
+}
+
+interface CoilBaselineDialogProps {
+  coilId: string;
+  /** Completed coil QC with measurements, newest first */
+  qcEvents: SupportEvent[];
+  current?: Baseline;
+  onClose: () => void;
+}
+
+// New baseline version from one completed coil QC, with its action limits
+function CoilBaselineDialog({ coilId, qcEvents, current, onClose }: CoilBaselineDialogProps) {
+  const [eventId, setEventId] = useState(qcEvents[0]?.id ?? '');
+  const [snrLimit, setSnrLimit] = useState(String(current?.limits.snr ?? DEFAULT_COIL_SNR_LIMIT));
+  const [uniformityLimit, setUniformityLimit] = useState(
+    String(current?.uniformityLimit ?? DEFAULT_COIL_UNIFORMITY_LIMIT)
+  );
+  const [notes, setNotes] = useState('');
+
+  const source = qcEvents.find(event => event.id === eventId);
+
+  const handleSave = async () => {
+    if (!source?.coilQC) return;
+    const snrTolerance = parseFloat(snrLimit);
+    const uniformityTolerance = parseFloat(uniformityLimit);
+    await establishBaseline(coilId, {
+      source: 'coil_qc',
+      sourceEventIds: [source.id],
+      values: source.coilQC.snr !== undefined ? { snr: source.coilQC.snr } : {},
+      limits: Number.isFinite(snrTolerance) ? { snr: snrTolerance } : {},
+      elementSnr: source.coilQC.elementSnr,
+      uniformity: source.coilQC.uniformity,
+      uniformityLimit: Number.isFinite(uniformityTolerance) ? uniformityTolerance : undefined,
+      notes: notes.trim() || undefined,
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog.Root open onOpenChange={open => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="dialog-overlay" />
+        <Dialog.Content className="dialog-content">
+          <Dialog.Title className="dialog-title">Set Coil Baseline</Dialog.Title>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="coilBaselineEvent">
+              From coil QC
+            </label>
+            {qcEvents.length === 0 ? (
+              <p className="room-section__empty">No completed coil QC with measurements</p>
+            ) : (
+              <select
+                id="coilBaselineEvent"
+                className="form-input"
+                value={eventId}
+                onChange={e => setEventId(e.target.value)}
+              >
+                {qcEvents.map(event => (
+                  <option key={event.id} value={event.id}>
+                    {event.title} ({formatDate(event.completedAt)})
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <fieldset className="measurement-group">
+            <legend className="measurement-group__title">Action limits (drop below baseline)</legend>
+            <div className="measurement-field">
+              <label className="form-label" htmlFor="coilSnrLimit">
+                SNR, composite and per element
+              </label>
+              <input
+                id="coilSnrLimit"
+                className="form-input"
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step={0.1}
+                value={snrLimit}
+                onChange={e => setSnrLimit(e.target.value)}
+              />
+              <span className="measurement-field__unit">%</span>
+            </div>
+            <div className="measurement-field">
+              <label className="form-label" htmlFor="coilUniformityLimit">
+                Uniformity
+              </label>
+              <input
+                id="coilUniformityLimit"
+                className="form-input"
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step={0.1}
+                value={uniformityLimit}
+                onChange={e => setUniformityLimit(e.target.value)}
+              />
+              <span className="measurement-field__unit">points</span>
+            </div>
+          </fieldset>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="coilBaselineNotes">
+              Notes
+            </label>
+            <textarea
+              id="coilBaselineNotes"
+              className="form-input"
+              rows={2}
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+            />
+          </div>
+
+          <div className="dialog-actions">
+            <Dialog.Close asChild>
+              <button type="button" className="btn">Cancel</button>
+            </Dialog.Close>
+            <button
+              type="button"
+              className="btn btn--primary"
+              onClick={handleSave}
+              disabled={!source}
+            >
+              Save
+            </button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
+
+/**
+ * Current coil QC baseline (composite and element SNR, uniformity) with its
+ * action limits, and setting a new version from a completed coil QC.
+ */
+export default function CoilBaselineSection({ coil, events, baselines }: CoilBaselineSectionProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const current = getCurrentBaseline(baselines);
+  const qcEvents = events
+    .filter(event =>
+      event.type === 'coil_qc' && event.status === 'completed' && event.completedAt
+      && !isCoilQCEmpty(event.coilQC)
+    )
+    .sort((a, b) => b.completedAt!.getTime() - a.completedAt!.getTime());
+
+  return (
+    <section className="room-section">
+      <h2 className="room-section__title">Coil QC Baseline</h2>
+
+      {!current && (
+        <p className="room-section__empty">No baseline set — coil QC is recorded without pass/fail</p>
+      )}
+
+      {current && (
+        <>
+          <p className="room-info__detail">
+            <strong>Version {current.version}:</strong>
+            {' '}
+            {BASELINE_SOURCE_LABELS[current.source]} • {formatDate(current.establishedAt)}
+          </p>
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Item</th>
+                <th>Baseline</th>
+                <th>Action limit</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>Composite SNR</td>
+                <td>{current.values.snr?.toFixed(1) ?? '—'}</td>
+                <td>{current.limits.snr !== undefined ? `− ${current.limits.snr} %` : '—'}</td>
+              </tr>
+              <tr>
+                <td>Uniformity</td>
+                <td>{current.uniformity !== undefined ? `${current.uniformity.toFixed(1)} %` : '—'}</td>
+                <td>{current.uniformityLimit !== undefined ? `− ${current.uniformityLimit} points` : '—'}</td>
+              </tr>
+              {current.elementSnr?.map((value, index) => (
+                <tr key={index}>
+                  <td>Element {index + 1} SNR</td>
+                  <td>{value.toFixed(1)}</td>
+                  <td>{current.limits.snr !== undefined ? `− ${current.limits.snr} %` : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {current.notes && (
+            <p className="room-info__detail">
+              <strong>Notes:</strong> {current.notes}
+            </p>
+          )}
+        </>
+      )}
+
+      <div className="room-info__actions">
+        <button className="btn btn--small btn--primary" onClick={() => setDialogOpen(true)}>
+          Set Baseline
+        </button>
+      </div>
+
+      {dialogOpen && (
+        <CoilBaselineDialog
+          coilId={coil.id}
+          qcEvents={qcEvents}
+          current={current}
+          onClose={() => setDialogOpen(false)}
+        />
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { db } from '../db';
+import { coilQCResult, evaluateCoilQC, type CoilQCFinding } from '../lib/coils';
+import { QC_CHECK_LABELS } from '../lib/qc';
+import type { Baseline, CoilQCMeasurements, Equipment, SupportEvent } from '../types';
+
+interface CoilQCFormProps {
+  event: SupportEvent;
+  coil: Equipment;
+  /** Coil baseline the measurements are judged against */
+  baseline?: Baseline;
+}
+
+interface CoilQCForm {
+  elements: string[];
+  snr: string;
+  uniformity: string;
+}
+
+function toForm(qc: CoilQCMeasurements | undefined, channelCount: number): CoilQCForm {
+  const elements = Array.from(
+    { length: Math.max(channelCount, qc?.elementSnr?.length ?? 0) },
+    (_, index) => qc?.elementSnr?.[index]?.toString() ?? ''
+  );
+  return {
+    elements,
+    snr: qc?.snr?.toString() ?? '',
+    uniformity: qc?.uniformity?.toString() ?? '',
+  };
+}
+
+function parseNumber(value: string) {
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+// Element SNR is all or nothing so element numbers always line up with the baseline
+function toMeasurements(form: CoilQCForm): { qc: CoilQCMeasurements; incomplete: boolean } {
+  const elements = form.elements.map(parseNumber);
+  const filled = elements.filter((value): value is number => value !== undefined);
+  return {
+    qc: {
+      elementSnr: filled.length === elements.length && filled.length > 0 ? filled : undefined,
+      snr: parseNumber(form.snr),
+      uniformity: parseNumber(form.uniformity),
+    },
+    incomplete: filled.length > 0 && filled.length < elements.length,
+  };
+}
+
+function formatFindingDelta(finding: CoilQCFinding, unit: string) {
+  const sign = finding.delta > 0 ? '+' : finding.delta < 0 ? '−' : '±';
+  return `${sign}${Math.abs(finding.delta).toFixed(1)}${unit}`;
+}
+
+/**
+ * Coil QC entry: SNR per element and/or composite, and uniformity, with
+ * deltas and an overall pass/fail against the coil's baseline.
+ */
+export default function CoilQCForm({ event, coil, baseline }: CoilQCFormProps) {
+  const [form, setForm] = useState<CoilQCForm>(() => toForm(event.coilQC, coil.channelCount ?? 0));
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { qc, incomplete } = toMeasurements(form);
+  const findings = evaluateCoilQC({ ...qc, elementSnr: form.elements.map(parseNumber) }, baseline);
+  const result = incomplete ? undefined : coilQCResult(findings);
+  const findingFor = (label: string) => findings.find(finding => finding.label === label);
+
+  const update = (changes: Partial<CoilQCForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+    setSaved(false);
+  };
+
+  const handleElementChange = (index: number, value: string) => {
+    update({ elements: form.elements.map((element, i) => (i === index ? value : element)) });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await db.events.update(event.id, {
+        coilQC: { ...qc, result },
+        updatedAt: new Date(),
+      });
+      setSaved(true);
+    } catch (err) {
+      setError(`Save failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderField = (
+    id: string,
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    unit?: string
+  ) => {
+    const finding = findingFor(label);
+    return (
+      <div key={id} className="measurement-field">
+        <label className="form-label" htmlFor={id}>
+          {label}
+          {finding && (
+            <span className={`qc-form__delta${finding.pass ? '' : ' qc-form__delta--fail'}`}>
+              {' '}Δ {formatFindingDelta(finding, label === 'Uniformity' ? ' pts' : '%')}
+            </span>
+          )}
+        </label>
+        <input
+          id={id}
+          className="form-input"
+          type="number"
+          inputMode="decimal"
+          step={0.1}
+          value={value}
+          onChange={e => onChange(e.target.value)}
+        />
+        {unit && <span className="measurement-field__unit">{unit}</span>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="qc-form">
+      {!baseline && (
+        <p className="room-section__empty">
+          No coil baseline — set one from a completed coil QC to get pass/fail
+        </p>
+      )}
+
+      {renderField('coil-snr', 'Composite SNR', form.snr, value => update({ snr: value }))}
+      {renderField('coil-uniformity', 'Uniformity', form.uniformity, value => update({ uniformity: value }), '%')}
+
+      <fieldset className="measurement-group">
+        <legend className="measurement-group__title">Element SNR</legend>
+        {form.elements.length === 0 && (
+          <p className="room-section__empty">Set the coil's channel count to record each element</p>
+        )}
+        {form.elements.map((value, index) =>
+          renderField(`coil-element-${index}`, `Element ${index + 1} SNR`, value, v => handleElementChange(index, v))
+        )}
+        {incomplete && (
+          <p className="measurement-group__error">Enter every element's SNR, or none</p>
+        )}
+      </fieldset>
+
+      <div className="form-actions">
+        {saved && <span className="form-actions__status">Saved</span>}
+        {error && <span className="measurement-group__error">{error}</span>}
+        {result && (
+          <span className={`status-badge status-badge--${result === 'pass' ? 'completed' : 'overdue'}`}>
+            {QC_CHECK_LABELS[result]}
+          </span>
+        )}
+        <button className="btn btn--primary" onClick={handleSave} disabled={saving || incomplete}>
+          Save Measurements
+        </button>
+      </div>
+    </div>
+  );
+}
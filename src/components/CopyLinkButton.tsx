@@ -0,0 +1,33 @@
+import { useState } from 'react';
+import { shortLinkPath } from '../lib/hierarchy';
+import type { CascadeLevel } from '../types';
+
+interface CopyLinkButtonProps {
+  level: CascadeLevel;
+  id: string;
+}
+
+/** Copies the record's short link (e.g. …/e/<id>) for sharing in messages */
+export default function CopyLinkButton({ level, id }: CopyLinkButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    const url = new URL(
+      `${import.meta.env.BASE_URL}${shortLinkPath(level, id).slice(1)}`,
+      window.location.origin
+    ).href;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      // Clipboard blocked (e.g. not served over https): let the user copy it by hand
+      window.prompt('Copy this link', url);
+    }
+  };
+
+  return (
+    <button className="btn btn--small" onClick={handleCopy}>
+      {copied ? 'Link Copied' : 'Copy Link'}
+    </button>
+  );
+}
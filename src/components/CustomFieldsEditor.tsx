@@ -0,0 +1,56 @@
+interface CustomFieldsEditorProps {
+  fields: [string, string][];
+  onChange: (fields: [string, string][]) => void;
+}
+
+/**
+ * Editable key/value rows backing a `customFields` record. Rows are kept
+ * as an ordered list while editing; use `toCustomFields` from lib/customFields when saving.
+ */
+export default function CustomFieldsEditor({ fields, onChange }: CustomFieldsEditorProps) {
+  const updateRow = (index: number, key: string, value: string) => {
+    onChange(fields.map((row, i) => (i === index ? [key, value] : row)));
+  };
+
+  const removeRow = (index: number) => {
+    onChange(fields.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="custom-fields">
+      {fields.map(([key, value], index) => (
+        <div key={index} className="custom-fields__row">
+          <input
+            className="form-input"
+            placeholder="Field"
+            value={key}
+            onChange={e => updateRow(index, e.target.value, value)}
+            aria-label="Field name"
+          />
+          <input
+            className="form-input"
+            placeholder="Value"
+            value={value}
+            onChange={e => updateRow(index, key, e.target.value)}
+            aria-label="Field value"
+          />
+          <button
+            type="button"
+            className="btn btn--small"
+            onClick={() => removeRow(index)}
+            aria-label="Remove field"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        className="btn btn--small"
+        onClick={() => onChange([...fields, ['', '']])}
+      >
+        + Add Field
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import * as AlertDialog from '@radix-ui/react-alert-dialog';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { getCascadeCounts } from '../db';
+import { CASCADE_LEVEL_LABELS, CASCADE_TABLE_LABELS, dependentCounts } from '../lib/trash';
+import type { CascadeLevel } from '../types';
+
+interface DeleteConfirmDialogProps {
+  level: CascadeLevel;
+  /** Record to delete; the dialog is open while set */
+  target: { id: string; name: string } | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Delete confirmation for a hierarchy record, listing how many records of
+ * each kind the cascade will move to the Trash.
+ */
+export default function DeleteConfirmDialog({
+  level,
+  target,
+  onConfirm,
+  onCancel,
+}: DeleteConfirmDialogProps) {
+  const targetId = target?.id;
+  const counts = useLiveQuery(
+    () => (targetId ? getCascadeCounts(level, targetId) : undefined),
+    [level, targetId]
+  );
+
+  const dependents = counts ? dependentCounts(counts, level) : [];
+
+  return (
+    <AlertDialog.Root open={!!target} onOpenChange={open => !open && onCancel()}>
+      <AlertDialog.Portal>
+        <AlertDialog.Overlay className="alert-dialog-overlay" />
+        <AlertDialog.Content className="alert-dialog-content">
+          <AlertDialog.Title className="alert-dialog-title">
+            Delete {CASCADE_LEVEL_LABELS[level]}?
+          </AlertDialog.Title>
+          <AlertDialog.Description className="alert-dialog-description">
+            "{target?.name}"{dependents.length > 0 && ' and everything in it'} will be moved
+            to the Trash, where it can be restored until it is purged.
+          </AlertDialog.Description>
+          {dependents.length > 0 && (
+            <ul className="delete-preview">
+              {dependents.map(({ table, count }) => (
+                <li key={table} className="delete-preview__item">
+                  <span>{CASCADE_TABLE_LABELS[table]}</span>
+                  <span className="delete-preview__count">{count}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="alert-dialog-actions">
+            <AlertDialog.Cancel asChild>
+              <button className="btn">Cancel</button>
+            </AlertDialog.Cancel>
+            <AlertDialog.Action asChild>
+              <button className="btn btn--danger" onClick={onConfirm} disabled={!counts}>
+                Delete
+              </button>
+            </AlertDialog.Action>
+          </div>
+        </AlertDialog.Content>
+      </AlertDialog.Portal>
+    </AlertDialog.Root>
+  );
+}
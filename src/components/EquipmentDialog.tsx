@@ -0,0 +1,505 @@
+import { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { v4 as uuidv4 } from 'uuid';
+import { db, resetBaseline } from '../db';
+import CustomFieldsEditor from './CustomFieldsEditor';
+import { useHierarchy } from '../hooks/useHierarchy';
+import {
+  EQUIPMENT_TYPE_LABELS,
+  EQUIPMENT_STATUS_LABELS,
+  FIELD_STRENGTH_OPTIONS,
+} from '../lib/equipment';
+import { SERVICE_CONTRACT_TYPE_LABELS } from '../lib/contracts';
+import { COIL_ANATOMY_OPTIONS } from '../lib/coils';
+import { fromCustomFields, toCustomFields } from '../lib/customFields';
+import { toDateInputValue, fromDateInputValue } from '../lib/dates';
+import type {
+  Equipment,
+  EquipmentFormData,
+  EquipmentType,
+  ServiceContractType,
+} from '../types';
+
+interface EquipmentDialogProps {
+  roomId: string;
+  /** Existing equipment to edit; omit to add a new item */
+  equipment?: Equipment;
+  onClose: () => void;
+}
+
+// Form state mirrors EquipmentFormData with dates as <input type="date"> strings
+interface EquipmentForm {
+  type: EquipmentType;
+  name: string;
+  manufacturer: string;
+  model: string;
+  serialNumber: string;
+  fieldStrength: string;
+  installDate: string;
+  softwareVersion: string;
+  serviceContractExpiry: string;
+  serviceContractVendor: string;
+  serviceContractType: ServiceContractType | '';
+  serviceContractCoverage: string;
+  warrantyExpiry: string;
+  coilAnatomy: string;
+  channelCount: string;
+  coilConnector: string;
+  compatibleScannerId: string;
+  partNumber: string;
+  status: Equipment['status'];
+  notes: string;
+}
+
+function toForm(equipment?: Equipment): EquipmentForm {
+  return {
+    type: equipment?.type ?? 'mri_scanner',
+    name: equipment?.name ?? '',
+    manufacturer: equipment?.manufacturer ?? '',
+    model: equipment?.model ?? '',
+    serialNumber: equipment?.serialNumber ?? '',
+    fieldStrength: equipment?.fieldStrength ?? '',
+    installDate: toDateInputValue(equipment?.installDate),
+    softwareVersion: equipment?.softwareVersion ?? '',
+    serviceContractExpiry: toDateInputValue(equipment?.serviceContractExpiry),
+    serviceContractVendor: equipment?.serviceContractVendor ?? '',
+    serviceContractType: equipment?.serviceContractType ?? '',
+    serviceContractCoverage: equipment?.serviceContractCoverage ?? '',
+    warrantyExpiry: toDateInputValue(equipment?.warrantyExpiry),
+    coilAnatomy: equipment?.coilAnatomy ?? '',
+    channelCount: equipment?.channelCount?.toString() ?? '',
+    coilConnector: equipment?.coilConnector ?? '',
+    compatibleScannerId: equipment?.compatibleScannerId ?? '',
+    partNumber: equipment?.partNumber ?? '',
+    status: equipment?.status ?? 'active',
+    notes: equipment?.notes ?? '',
+  };
+}
+
+/**
+ * Add/edit dialog for equipment. Mount it only while open (with a `key`
+ * per item) so the form is initialized from the selected equipment.
+ */
+export default function EquipmentDialog({ roomId, equipment, onClose }: EquipmentDialogProps) {
+  const [formData, setFormData] = useState<EquipmentForm>(() => toForm(equipment));
+  const [customFields, setCustomFields] = useState(() => fromCustomFields(equipment?.customFields));
+
+  const isScanner = formData.type === 'mri_scanner';
+  const isCoil = formData.type === 'coil';
+
+  // Scanners a coil can be paired with, this room's first
+  const hierarchy = useHierarchy();
+  const scanners = Array.from(hierarchy?.equipment.values() ?? [])
+    .filter(item => item.type === 'mri_scanner')
+    .sort((a, b) => Number(b.roomId === roomId) - Number(a.roomId === roomId) || a.name.localeCompare(b.name));
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSave = async () => {
+    const data: EquipmentFormData = {
+      roomId,
+      type: formData.type,
+      name: formData.name.trim(),
+      manufacturer: formData.manufacturer.trim(),
+      model: formData.model.trim() || undefined,
+      serialNumber: formData.serialNumber.trim() || undefined,
+      status: formData.status,
+      customFields: toCustomFields(customFields),
+      notes: formData.notes || undefined,
+      serviceContractExpiry: fromDateInputValue(formData.serviceContractExpiry),
+      serviceContractVendor: formData.serviceContractVendor.trim() || undefined,
+      serviceContractType: formData.serviceContractType || undefined,
+      serviceContractCoverage: formData.serviceContractCoverage.trim() || undefined,
+      warrantyExpiry: fromDateInputValue(formData.warrantyExpiry),
+      // Scanner-only fields are cleared for other types
+      fieldStrength: isScanner ? formData.fieldStrength || undefined : undefined,
+      installDate: isScanner ? fromDateInputValue(formData.installDate) : undefined,
+      softwareVersion: isScanner ? formData.softwareVersion.trim() || undefined : undefined,
+      // Coil-only fields likewise
+      coilAnatomy: isCoil ? formData.coilAnatomy || undefined : undefined,
+      channelCount: isCoil ? parseInt(formData.channelCount, 10) || undefined : undefined,
+      coilConnector: isCoil ? formData.coilConnector.trim() || undefined : undefined,
+      compatibleScannerId: isCoil ? formData.compatibleScannerId || undefined : undefined,
+      partNumber: isCoil ? formData.partNumber.trim() || undefined : undefined,
+    };
+
+    const now = new Date();
+    if (equipment) {
+      // A software upgrade invalidates the scanner's QC baseline, together with the edit
+      await db.transaction('rw', db.equipment, db.baselines, async () => {
+        await db.equipment.update(equipment.id, {
+          ...data,
+          updatedAt: now,
+        });
+        if (isScanner && (equipment.softwareVersion ?? '') !== (data.softwareVersion ?? '')) {
+          await resetBaseline(
+            equipment.id,
+            `Software upgrade: ${equipment.softwareVersion || 'none'} → ${data.softwareVersion || 'none'}`
+          );
+        }
+      });
+    } else {
+      await db.equipment.add({
+        id: uuidv4(),
+        ...data,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog.Root open onOpenChange={open => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="dialog-overlay" />
+        <Dialog.Content className="dialog-content">
+          <Dialog.Title className="dialog-title">
+            {equipment ? 'Edit Equipment' : 'Add Equipment'}
+          </Dialog.Title>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="type">
+              Type *
+            </label>
+            <select
+              id="type"
+              name="type"
+              className="form-input"
+              value={formData.type}
+              onChange={handleChange}
+            >
+              {Object.entries(EQUIPMENT_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="name">
+              Name *
+            </label>
+            <input
+              id="name"
+              name="name"
+              className="form-input"
+              value={formData.name}
+              onChange={handleChange}
+              placeholder="e.g., Scanner 1, Head/Neck 20ch"
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="manufacturer">
+              Manufacturer *
+            </label>
+            <input
+              id="manufacturer"
+              name="manufacturer"
+              className="form-input"
+              value={formData.manufacturer}
+              onChange={handleChange}
+              placeholder="e.g., Siemens, GE, Philips"
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="model">
+              Model
+            </label>
+            <input
+              id="model"
+              name="model"
+              className="form-input"
+              value={formData.model}
+              onChange={handleChange}
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="serialNumber">
+              Serial Number
+            </label>
+            <input
+              id="serialNumber"
+              name="serialNumber"
+              className="form-input"
+              value={formData.serialNumber}
+              onChange={handleChange}
+            />
+          </div>
+
+          {isScanner && (
+            <>
+              <div className="form-group">
+                <label className="form-label" htmlFor="fieldStrength">
+                  Field Strength
+                </label>
+                <select
+                  id="fieldStrength"
+                  name="fieldStrength"
+                  className="form-input"
+                  value={formData.fieldStrength}
+                  onChange={handleChange}
+                >
+                  <option value="">—</option>
+                  {FIELD_STRENGTH_OPTIONS.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                  {formData.fieldStrength && !FIELD_STRENGTH_OPTIONS.includes(formData.fieldStrength) && (
+                    <option value={formData.fieldStrength}>{formData.fieldStrength}</option>
+                  )}
+                </select>
+              </div>
+
+              <div className="form-group">
+                <label className="form-label" htmlFor="softwareVersion">
+                  Software Version
+                </label>
+                <input
+                  id="softwareVersion"
+                  name="softwareVersion"
+                  className="form-input"
+                  value={formData.softwareVersion}
+                  onChange={handleChange}
+                  placeholder="e.g., XA50, MR30.1"
+                />
+              </div>
+
+              <div className="form-group">
+                <label className="form-label" htmlFor="installDate">
+                  Install Date
+                </label>
+                <input
+                  id="installDate"
+                  name="installDate"
+                  className="form-input"
+                  type="date"
+                  value={formData.installDate}
+                  onChange={handleChange}
+                />
+              </div>
+            </>
+          )}
+
+          {isCoil && (
+            <>
+              <div className="form-group">
+                <label className="form-label" htmlFor="coilAnatomy">
+                  Anatomy
+                </label>
+                <select
+                  id="coilAnatomy"
+                  name="coilAnatomy"
+                  className="form-input"
+                  value={formData.coilAnatomy}
+                  onChange={handleChange}
+                >
+                  <option value="">—</option>
+                  {COIL_ANATOMY_OPTIONS.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                  {formData.coilAnatomy && !COIL_ANATOMY_OPTIONS.includes(formData.coilAnatomy) && (
+                    <option value={formData.coilAnatomy}>{formData.coilAnatomy}</option>
+                  )}
+                </select>
+              </div>
+
+              <div className="form-group">
+                <label className="form-label" htmlFor="channelCount">
+                  Channels
+                </label>
+                <input
+                  id="channelCount"
+                  name="channelCount"
+                  className="form-input"
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  value={formData.channelCount}
+                  onChange={handleChange}
+                />
+              </div>
+
+              <div className="form-group">
+                <label className="form-label" htmlFor="coilConnector">
+                  Connector / Port
+                </label>
+                <input
+                  id="coilConnector"
+                  name="coilConnector"
+                  className="form-input"
+                  value={formData.coilConnector}
+                  onChange={handleChange}
+                  placeholder="e.g., Tim plug, table port 2"
+                />
+              </div>
+
+              <div className="form-group">
+                <label className="form-label" htmlFor="compatibleScannerId">
+                  Scanner
+                </label>
+                <select
+                  id="compatibleScannerId"
+                  name="compatibleScannerId"
+                  className="form-input"
+                  value={formData.compatibleScannerId}
+                  onChange={handleChange}
+                >
+                  <option value="">—</option>
+                  {scanners.map(scanner => (
+                    <option key={scanner.id} value={scanner.id}>
+                      {scanner.name} ({hierarchy?.roomLabel(scanner.roomId)})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="form-group">
+                <label className="form-label" htmlFor="partNumber">
+                  Part Number
+                </label>
+                <input
+                  id="partNumber"
+                  name="partNumber"
+                  className="form-input"
+                  value={formData.partNumber}
+                  onChange={handleChange}
+                />
+              </div>
+            </>
+          )}
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="serviceContractVendor">
+              Service Contract Vendor
+            </label>
+            <input
+              id="serviceContractVendor"
+              name="serviceContractVendor"
+              className="form-input"
+              value={formData.serviceContractVendor}
+              onChange={handleChange}
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="serviceContractType">
+              Service Contract Type
+            </label>
+            <select
+              id="serviceContractType"
+              name="serviceContractType"
+              className="form-input"
+              value={formData.serviceContractType}
+              onChange={handleChange}
+            >
+              <option value="">—</option>
+              {Object.entries(SERVICE_CONTRACT_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="serviceContractExpiry">
+              Service Contract Expiry
+            </label>
+            <input
+              id="serviceContractExpiry"
+              name="serviceContractExpiry"
+              className="form-input"
+              type="date"
+              value={formData.serviceContractExpiry}
+              onChange={handleChange}
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="serviceContractCoverage">
+              Coverage Notes
+            </label>
+            <textarea
+              id="serviceContractCoverage"
+              name="serviceContractCoverage"
+              className="form-input"
+              rows={2}
+              value={formData.serviceContractCoverage}
+              onChange={handleChange}
+              placeholder="e.g., 98% uptime, coils included, 4h response"
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="warrantyExpiry">
+              Warranty Expiry
+            </label>
+            <input
+              id="warrantyExpiry"
+              name="warrantyExpiry"
+              className="form-input"
+              type="date"
+              value={formData.warrantyExpiry}
+              onChange={handleChange}
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="status">
+              Status
+            </label>
+            <select
+              id="status"
+              name="status"
+              className="form-input"
+              value={formData.status}
+              onChange={handleChange}
+            >
+              {Object.entries(EQUIPMENT_STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <span className="form-label">Custom Fields</span>
+            <CustomFieldsEditor fields={customFields} onChange={setCustomFields} />
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="notes">
+              Notes
+            </label>
+            <textarea
+              id="notes"
+              name="notes"
+              className="form-input"
+              rows={3}
+              value={formData.notes}
+              onChange={handleChange}
+            />
+          </div>
+
+          <div className="dialog-actions">
+            <Dialog.Close asChild>
+              <button type="button" className="btn">Cancel</button>
+            </Dialog.Close>
+            <button
+              type="button"
+              className="btn btn--primary"
+              onClick={handleSave}
+              disabled={!formData.name.trim() || !formData.manufacturer.trim()}
+            >
+              Save
+            </button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
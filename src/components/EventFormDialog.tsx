@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db';
+import { useHierarchy } from '../hooks/useHierarchy';
+import { EVENT_TYPE_LABELS } from '../lib/events';
+import { fromDateInputValue } from '../lib/dates';
+import type { EventType } from '../types';
+
+interface EventFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Lock the event to a single equipment item */
+  equipmentId?: string;
+  onSaved?: (eventId: string) => void;
+}
+
+interface EventForm {
+  equipmentId: string;
+  type: EventType;
+  title: string;
+  scheduledDate: string;
+  description: string;
+}
+
+const emptyForm: EventForm = {
+  equipmentId: '',
+  type: 'qc_check',
+  title: '',
+  scheduledDate: '',
+  description: '',
+};
+
+export default function EventFormDialog({
+  open,
+  onOpenChange,
+  equipmentId,
+  onSaved,
+}: EventFormDialogProps) {
+  const hierarchy = useHierarchy();
+  const [formData, setFormData] = useState<EventForm>(emptyForm);
+
+  const selectedEquipmentId = equipmentId || formData.equipmentId;
+
+  const equipmentOptions = hierarchy
+    ? Array.from(hierarchy.equipment.values())
+        .map(item => ({
+          id: item.id,
+          label: `${hierarchy.roomLabel(item.roomId)} › ${item.name}`,
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label))
+    : [];
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setFormData(emptyForm);
+    onOpenChange(next);
+  };
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSave = async () => {
+    const equipment = await db.equipment.get(selectedEquipmentId);
+    if (!equipment) return;
+
+    const now = new Date();
+    const id = uuidv4();
+    await db.events.add({
+      id,
+      equipmentId: equipment.id,
+      roomId: equipment.roomId,
+      type: formData.type,
+      status: 'scheduled',
+      title: formData.title.trim(),
+      description: formData.description,
+      scheduledDate: fromDateInputValue(formData.scheduledDate),
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    handleOpenChange(false);
+    onSaved?.(id);
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={handleOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="dialog-overlay" />
+        <Dialog.Content className="dialog-content">
+          <Dialog.Title className="dialog-title">Add Event</Dialog.Title>
+
+          {!equipmentId && (
+            <div className="form-group">
+              <label className="form-label" htmlFor="equipmentId">
+                Equipment *
+              </label>
+              <select
+                id="equipmentId"
+                name="equipmentId"
+                className="form-input"
+                value={formData.equipmentId}
+                onChange={handleChange}
+              >
+                <option value="">Select equipment…</option>
+                {equipmentOptions.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="type">
+              Type *
+            </label>
+            <select
+              id="type"
+              name="type"
+              className="form-input"
+              value={formData.type}
+              onChange={handleChange}
+            >
+              {Object.entries(EVENT_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="title">
+              Title *
+            </label>
+            <input
+              id="title"
+              name="title"
+              className="form-input"
+              value={formData.title}
+              onChange={handleChange}
+              placeholder="e.g., Quarterly ACR phantom"
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="scheduledDate">
+              Scheduled Date
+            </label>
+            <input
+              id="scheduledDate"
+              name="scheduledDate"
+              className="form-input"
+              type="date"
+              value={formData.scheduledDate}
+              onChange={handleChange}
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="description">
+              Description
+            </label>
+            <textarea
+              id="description"
+              name="description"
+              className="form-input"
+              rows={3}
+              value={formData.description}
+              onChange={handleChange}
+            />
+          </div>
+
+          <div className="dialog-actions">
+            <Dialog.Close asChild>
+              <button type="button" className="btn">Cancel</button>
+            </Dialog.Close>
+            <button
+              type="button"
+              className="btn btn--primary"
+              onClick={handleSave}
+              disabled={!formData.title.trim() || !selectedEquipmentId}
+            >
+              Save
+            </button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
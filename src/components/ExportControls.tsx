@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { getExportData } from '../db';
+import { countExportImages, createExportArchive } from '../db/archive';
+import { downloadBlob, exportDateStamp, fileSlug } from '../lib/download';
+import { CSV_TABLES, exportCsv, type CsvTable } from '../lib/csv';
+import { EXPORT_TABLE_LABELS } from '../lib/importData';
+import { fromDateInputValue } from '../lib/dates';
+import type { ExportOptions, ExportScope } from '../types';
+
+interface ExportControlsProps {
+  /** Export one organization/site/room subtree instead of everything */
+  scope?: ExportScope;
+  /** Name of the scoped organization/site/room, used in filenames */
+  scopeName?: string;
+}
+
+/**
+ * Format choices and download buttons shared by the Export page and the
+ * scoped export dialog: JSON (or ZIP with photos), or CSV per entity type.
+ */
+export default function ExportControls({ scope, scopeName }: ExportControlsProps) {
+  const [options, setOptions] = useState<ExportOptions>({
+    format: 'json',
+    includeImages: false,
+    scope,
+  });
+  const [csvTable, setCsvTable] = useState<CsvTable>('events');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const imageCount = useLiveQuery(() => countExportImages(scope), [scope?.level, scope?.id]);
+
+  const prefix = scopeName ? `mri-physics-${fileSlug(scopeName)}` : 'mri-physics';
+
+  const run = async (action: () => Promise<void>) => {
+    setExporting(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage('Export completed!');
+    } catch (err) {
+      setMessage(`Export failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExportJSON = () => run(async () => {
+    const data = await getExportData(options.scope);
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `${prefix}-export-${exportDateStamp()}.json`);
+  });
+
+  // ZIP with a JSON manifest plus every photo and thumbnail
+  const handleExportZip = () => run(async () => {
+    const blob = await createExportArchive(options.scope, (done, total) => {
+      setMessage(`Packing photos ${done}/${total}…`);
+    });
+    downloadBlob(blob, `${prefix}-export-${exportDateStamp()}.zip`);
+  });
+
+  const handleExportCSV = () => run(async () => {
+    // Either end of the events date range may be left open
+    const start = fromDateInputValue(from);
+    const end = fromDateInputValue(to);
+    const dateRange = start || end
+      ? { start: start ?? new Date(1970, 0, 1), end: end ?? new Date(9999, 11, 31) }
+      : undefined;
+
+    const data = await getExportData(options.scope);
+    const content = exportCsv(csvTable, data, { ...options, dateRange });
+    const blob = new Blob([content], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, `${prefix}-${csvTable}-${exportDateStamp()}.csv`);
+  });
+
+  return (
+    <>
+      <div className="segmented">
+        {(['json', 'csv'] as const).map(format => (
+          <button
+            key={format}
+            type="button"
+            className={`segmented__item${options.format === format ? ' segmented__item--active' : ''}`}
+            onClick={() => setOptions({ ...options, format })}
+          >
+            {format.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      {options.format === 'json' && (
+        <label className="export-option">
+          <input
+            type="checkbox"
+            checked={options.includeImages}
+            onChange={e => setOptions({ ...options, includeImages: e.target.checked })}
+          />
+          Include photos ({imageCount ?? 0})
+        </label>
+      )}
+
+      {options.format === 'csv' && (
+        <>
+          <div className="form-group">
+            <label className="form-label" htmlFor="csv-table">Spreadsheet</label>
+            <select
+              id="csv-table"
+              className="form-input"
+              value={csvTable}
+              onChange={e => setCsvTable(e.target.value as CsvTable)}
+            >
+              {CSV_TABLES.map(table => (
+                <option key={table} value={table}>{EXPORT_TABLE_LABELS[table]}</option>
+              ))}
+            </select>
+          </div>
+          {csvTable === 'events' && (
+            <div className="export-range">
+              <div className="form-group">
+                <label className="form-label" htmlFor="csv-from">From</label>
+                <input
+                  id="csv-from"
+                  type="date"
+                  className="form-input"
+                  value={from}
+                  onChange={e => setFrom(e.target.value)}
+                />
+              </div>
+              <div className="form-group">
+                <label className="form-label" htmlFor="csv-to">To</label>
+                <input
+                  id="csv-to"
+                  type="date"
+                  className="form-input"
+                  value={to}
+                  onChange={e => setTo(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="form-actions">
+        {message && <span className="form-actions__status">{message}</span>}
+        {options.format === 'csv' ? (
+          <button className="btn btn--primary" onClick={handleExportCSV} disabled={exporting}>
+            Export as CSV
+          </button>
+        ) : options.includeImages ? (
+          <button className="btn btn--primary" onClick={handleExportZip} disabled={exporting}>
+            {exporting ? 'Exporting…' : 'Export as ZIP'}
+          </button>
+        ) : (
+          <button className="btn btn--primary" onClick={handleExportJSON} disabled={exporting}>
+            Export as JSON
+          </button>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,41 @@
+import * as Dialog from '@radix-ui/react-dialog';
+import ExportControls from './ExportControls';
+import type { ExportScope } from '../types';
+
+interface ExportDialogProps {
+  scope: ExportScope;
+  /** Display name of the organization, site or room */
+  name: string;
+  onClose: () => void;
+}
+
+const SCOPE_DESCRIPTIONS: Record<ExportScope['level'], string> = {
+  organization: 'Its sites, rooms, equipment, events, timelines and photos.',
+  site: 'Its rooms, equipment, events, timelines and photos, with its organization.',
+  room: 'Its equipment, events, timelines and photos, with its site and organization.',
+};
+
+/** Export one organization, site or room subtree. Mount it only while open. */
+export default function ExportDialog({ scope, name, onClose }: ExportDialogProps) {
+  return (
+    <Dialog.Root open onOpenChange={open => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="dialog-overlay" />
+        <Dialog.Content className="dialog-content">
+          <Dialog.Title className="dialog-title">Export {name}</Dialog.Title>
+          <Dialog.Description className="alert-dialog-description">
+            {SCOPE_DESCRIPTIONS[scope.level]}
+          </Dialog.Description>
+
+          <ExportControls scope={scope} scopeName={name} />
+
+          <div className="dialog-actions">
+            <Dialog.Close asChild>
+              <button type="button" className="btn">Close</button>
+            </Dialog.Close>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import * as AlertDialog from '@radix-ui/react-alert-dialog';
+import { deleteImage } from '../db';
+import type { GalleryImage } from '../types';
+import BlobImage from './BlobImage';
+
+interface ImageGalleryProps {
+  images: GalleryImage[] | undefined;
+  onAdd?: () => void;
+  emptyText?: string;
+}
+
+export default function ImageGallery({ images, onAdd, emptyText = 'No photos yet' }: ImageGalleryProps) {
+  const [selected, setSelected] = useState<GalleryImage | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    await deleteImage(selected.id);
+    setConfirmDelete(false);
+    setSelected(null);
+  };
+
+  return (
+    <>
+      {images?.length === 0 && (
+        <p className="room-section__empty">{emptyText}</p>
+      )}
+
+      <div className="gallery-grid">
+        {images?.map(image => (
+          <button
+            key={image.id}
+            type="button"
+            className="gallery-item"
+            onClick={() => setSelected(image)}
+          >
+            <BlobImage
+              blob={image.thumbnailBlob ?? image.blob}
+              alt={image.caption || image.filename}
+              className="gallery-item__image"
+            />
+            {image.caption && (
+              <span className="gallery-item__caption">{image.caption}</span>
+            )}
+          </button>
+        ))}
+        {onAdd && (
+          <button type="button" className="gallery-item gallery-item--add" onClick={onAdd}>
+            + Add Photo
+          </button>
+        )}
+      </div>
+
+      {/* Full-size viewer */}
+      <Dialog.Root open={!!selected} onOpenChange={open => !open && setSelected(null)}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="dialog-overlay" />
+          <Dialog.Content className="dialog-content dialog-content--wide">
+            <Dialog.Title className="dialog-title">
+              {selected?.caption || selected?.filename}
+            </Dialog.Title>
+            {selected && (
+              <>
+                <BlobImage blob={selected.blob} alt={selected.caption} className="gallery-viewer__image" />
+                <p className="room-info__detail">
+                  <strong>Captured:</strong> {selected.capturedAt.toLocaleString()}
+                </p>
+                {selected.tags && selected.tags.length > 0 && (
+                  <div className="tag-list">
+                    {selected.tags.map(tag => (
+                      <span key={tag} className="tag">{tag}</span>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+            <div className="dialog-actions">
+              <button type="button" className="btn btn--danger" onClick={() => setConfirmDelete(true)}>
+                Delete
+              </button>
+              <Dialog.Close asChild>
+                <button type="button" className="btn">Close</button>
+              </Dialog.Close>
+            </div>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+
+      {/* Delete Confirmation */}
+      <AlertDialog.Root open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialog.Portal>
+          <AlertDialog.Overlay className="alert-dialog-overlay" />
+          <AlertDialog.Content className="alert-dialog-content">
+            <AlertDialog.Title className="alert-dialog-title">
+              Delete Photo?
+            </AlertDialog.Title>
+            <AlertDialog.Description className="alert-dialog-description">
+              This photo will be moved to the Trash and hidden from the gallery and any
+              timelines until it is restored.
+            </AlertDialog.Description>
+            <div className="alert-dialog-actions">
+              <AlertDialog.Cancel asChild>
+                <button className="btn">Cancel</button>
+              </AlertDialog.Cancel>
+              <AlertDialog.Action asChild>
+                <button className="btn btn--danger" onClick={handleDelete}>
+                  Delete
+                </button>
+              </AlertDialog.Action>
+            </div>
+          </AlertDialog.Content>
+        </AlertDialog.Portal>
+      </AlertDialog.Root>
+    </>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import {
+  QC_FIELDS,
+  QC_CHECKS,
+  QC_CHECK_LABELS,
+  formatDelta,
+  qcDelta,
+  type QCCheckKey,
+  type QCNumericKey,
+  type QCReference,
+} from '../lib/qc';
+import type { QCCheckResult, QCMeasurements } from '../types';
+
+interface QCFormProps {
+  /** Values to start from, e.g. the scanner's last QC */
+  initial?: QCMeasurements;
+  /** Reference values that deltas are shown against */
+  reference?: QCReference;
+  /** Allowed |Δ| per item (ppm / % / unit), from the scanner's baseline */
+  tolerances?: QCReference;
+  saveLabel: string;
+  onSave: (qc: QCMeasurements) => Promise<void>;
+}
+
+type NumericForm = Partial<Record<QCNumericKey, string>>;
+type ChecksForm = Partial<Record<QCCheckKey, QCCheckResult>>;
+
+const CHECK_RESULTS: QCCheckResult[] = ['pass', 'fail'];
+
+function toNumericForm(qc: QCMeasurements | undefined): NumericForm {
+  const form: NumericForm = {};
+  for (const { key } of QC_FIELDS) {
+    const value = qc?.[key];
+    if (value !== undefined) form[key] = String(value);
+  }
+  return form;
+}
+
+function toChecksForm(qc: QCMeasurements | undefined): ChecksForm {
+  const form: ChecksForm = {};
+  for (const { key } of QC_CHECKS) {
+    form[key] = qc?.[key];
+  }
+  return form;
+}
+
+function toMeasurements(numbers: NumericForm, checks: ChecksForm): QCMeasurements {
+  const qc: QCMeasurements = {};
+  for (const { key } of QC_FIELDS) {
+    const value = parseFloat(numbers[key] ?? '');
+    if (Number.isFinite(value)) qc[key] = value;
+  }
+  for (const { key } of QC_CHECKS) {
+    if (checks[key]) qc[key] = checks[key];
+  }
+  return qc;
+}
+
+/**
+ * Scanner QC entry: numeric items with deltas against the reference values,
+ * plus pass/fail checks.
+ */
+export default function QCForm({ initial, reference, tolerances, saveLabel, onSave }: QCFormProps) {
+  const [numbers, setNumbers] = useState<NumericForm>(() => toNumericForm(initial));
+  const [checks, setChecks] = useState<ChecksForm>(() => toChecksForm(initial));
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const qc = toMeasurements(numbers, checks);
+
+  const handleNumberChange = (key: QCNumericKey, value: string) => {
+    setNumbers(prev => ({ ...prev, [key]: value }));
+    setSaved(false);
+  };
+
+  const handleCheckChange = (key: QCCheckKey, result: QCCheckResult) => {
+    setChecks(prev => ({ ...prev, [key]: result }));
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(qc);
+      setSaved(true);
+    } catch (err) {
+      setError(`Save failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="qc-form">
+      {QC_FIELDS.map(field => {
+        const value = qc[field.key];
+        const referenceValue = reference?.[field.key];
+        const delta = value !== undefined && referenceValue !== undefined
+          ? qcDelta(field, value, referenceValue)
+          : null;
+        const tolerance = tolerances?.[field.key];
+        const outOfLimits = delta !== null && tolerance !== undefined && Math.abs(delta) > tolerance;
+
+        return (
+          <div key={field.key} className="measurement-field">
+            <label className="form-label" htmlFor={`qc-${field.key}`}>
+              {field.label}
+              {delta !== null && (
+                <span className={`qc-form__delta${outOfLimits ? ' qc-form__delta--fail' : ''}`}>
+                  {' '}Δ {formatDelta(field, delta)}
+                </span>
+              )}
+            </label>
+            <input
+              id={`qc-${field.key}`}
+              className="form-input"
+              type="number"
+              inputMode="decimal"
+              step={field.step}
+              value={numbers[field.key] ?? ''}
+              onChange={e => handleNumberChange(field.key, e.target.value)}
+            />
+            {field.unit && <span className="measurement-field__unit">{field.unit}</span>}
+          </div>
+        );
+      })}
+
+      {QC_CHECKS.map(check => (
+        <div key={check.key} className="qc-form__check">
+          <span className="form-label">{check.label}</span>
+          <div className="segmented">
+            {CHECK_RESULTS.map(result => (
+              <button
+                key={result}
+                type="button"
+                className={`segmented__item${checks[check.key] === result ? ' segmented__item--active' : ''}`}
+                onClick={() => handleCheckChange(check.key, result)}
+              >
+                {QC_CHECK_LABELS[result]}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="form-actions">
+        {saved && <span className="form-actions__status">Saved</span>}
+        {error && <span className="measurement-group__error">{error}</span>}
+        <button className="btn btn--primary" onClick={handleSave} disabled={saving}>
+          {saveLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, getReportContext, isLive } from '../db';
+import BlobImage from './BlobImage';
+import {
+  BUILT_IN_TEMPLATE_ID,
+  DEFAULT_SIGNATURE_TITLE,
+  buildReportContent,
+  builtInReportTemplate,
+  renderReportPdf,
+  selectReportTemplate,
+  type ReportImage,
+} from '../lib/report';
+import { loadJpeg } from '../lib/images';
+import { downloadBlob, fileSlug } from '../lib/download';
+import { formatDate, fromDateInputValue, toDateInputValue } from '../lib/dates';
+import type { GalleryImage, SupportEvent } from '../types';
+
+interface ReportDialogProps {
+  event: SupportEvent;
+  /** Event photos that can be included, in display order */
+  images: GalleryImage[];
+  onClose: () => void;
+}
+
+// Longest side of photos and logos embedded in the PDF (px)
+const REPORT_IMAGE_SIZE = 1200;
+const LOGO_IMAGE_SIZE = 600;
+
+/**
+ * Options for the printable event report: template, photos to include and
+ * the signature block. The chosen template is remembered on the event.
+ * Mount it only while open.
+ */
+export default function ReportDialog({ event, images, onClose }: ReportDialogProps) {
+  const templates = useLiveQuery(
+    () => db.reportTemplates.where('eventType').equals(event.type).filter(isLive).sortBy('name'),
+    [event.type]
+  );
+  // null until the user picks one: the event's template or its type's default
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const chosenId = templateId
+    ?? (templates && selectReportTemplate(event, templates)?.id)
+    ?? BUILT_IN_TEMPLATE_ID;
+
+  const [selectedIds, setSelectedIds] = useState(() => new Set(images.map(image => image.id)));
+  const [name, setName] = useState('');
+  const [title, setTitle] = useState(DEFAULT_SIGNATURE_TITLE);
+  const [date, setDate] = useState(() => toDateInputValue(new Date()));
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleImage = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const context = await getReportContext(event.id);
+      if (!context) throw new Error('Event or equipment not found');
+
+      const reportImages: ReportImage[] = [];
+      for (const image of images.filter(image => selectedIds.has(image.id))) {
+        const jpeg = await loadJpeg(image.blob, REPORT_IMAGE_SIZE);
+        reportImages.push({ ...jpeg, caption: image.caption || image.filename });
+      }
+
+      const template = templates?.find(t => t.id === chosenId);
+      const logo = template?.logo && await loadJpeg(template.logo, LOGO_IMAGE_SIZE);
+
+      const signatureDate = fromDateInputValue(date) ?? new Date();
+      const signature = { name: name.trim(), title: title.trim(), date: signatureDate };
+      const content = buildReportContent(
+        context,
+        template ?? builtInReportTemplate(event.type),
+        signature
+      );
+      const pdf = renderReportPdf(content, reportImages, signature, logo);
+
+      if (templateId && templateId !== event.reportTemplateId) {
+        await db.events.update(event.id, { reportTemplateId: templateId, updatedAt: new Date() });
+      }
+      downloadBlob(
+        pdf,
+        `${fileSlug(`${context.equipment.name} ${event.title}`)}-${formatDate(signatureDate)}.pdf`
+      );
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open onOpenChange={open => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="dialog-overlay" />
+        <Dialog.Content className="dialog-content dialog-content--wide">
+          <Dialog.Title className="dialog-title">Generate Report</Dialog.Title>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="reportTemplate">
+              Template
+            </label>
+            <select
+              id="reportTemplate"
+              className="form-input"
+              value={chosenId}
+              onChange={e => setTemplateId(e.target.value)}
+            >
+              <option value={BUILT_IN_TEMPLATE_ID}>Built-in</option>
+              {templates?.map(template => (
+                <option key={template.id} value={template.id}>
+                  {template.name}{template.isDefault ? ' (default)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="reportName">
+              Physicist *
+            </label>
+            <input
+              id="reportName"
+              className="form-input"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Name, credentials"
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="reportTitle">
+              Title
+            </label>
+            <input
+              id="reportTitle"
+              className="form-input"
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="reportDate">
+              Report Date
+            </label>
+            <input
+              id="reportDate"
+              type="date"
+              className="form-input"
+              value={date}
+              onChange={e => setDate(e.target.value)}
+            />
+          </div>
+
+          <div className="form-group">
+            <span className="form-label">
+              Photos ({selectedIds.size} of {images.length})
+            </span>
+            {images.length === 0 && <p className="room-section__empty">No photos on this event</p>}
+            <div className="gallery-grid">
+              {images.map(image => (
+                <button
+                  key={image.id}
+                  type="button"
+                  className={`gallery-item${selectedIds.has(image.id) ? ' gallery-item--selected' : ''}`}
+                  onClick={() => toggleImage(image.id)}
+                  aria-pressed={selectedIds.has(image.id)}
+                >
+                  <BlobImage
+                    blob={image.thumbnailBlob ?? image.blob}
+                    alt={image.caption || image.filename}
+                    className="gallery-item__image"
+                  />
+                  {image.caption && (
+                    <span className="gallery-item__caption">{image.caption}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="measurement-group__error">{error}</p>}
+
+          <div className="dialog-actions">
+            <Dialog.Close asChild>
+              <button type="button" className="btn">Cancel</button>
+            </Dialog.Close>
+            <button
+              type="button"
+              className="btn btn--primary"
+              onClick={handleGenerate}
+              disabled={generating || !name.trim()}
+            >
+              {generating ? 'Generating…' : 'Download PDF'}
+            </button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,325 @@
+import { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { v4 as uuidv4 } from 'uuid';
+import { saveReportTemplate } from '../db';
+import BlobImage from './BlobImage';
+import { EVENT_TYPE_LABELS } from '../lib/events';
+import {
+  REPORT_PLACEHOLDERS,
+  REPORT_SECTION_LABELS,
+  builtInReportTemplate,
+} from '../lib/report';
+import type {
+  EventType,
+  ReportSectionKind,
+  ReportTemplate,
+  ReportTemplateSection,
+} from '../types';
+
+interface ReportTemplateDialogProps {
+  /** Existing template to edit; omit to add a new one */
+  template?: ReportTemplate;
+  onClose: () => void;
+  onDelete?: (template: ReportTemplate) => void;
+}
+
+interface TemplateForm {
+  name: string;
+  eventType: EventType;
+  title: string;
+  sections: ReportTemplateSection[];
+  logo?: Blob;
+  isDefault: boolean;
+}
+
+function toForm(template?: ReportTemplate): TemplateForm {
+  if (template) {
+    const { name, eventType, title, sections, logo, isDefault } = template;
+    return { name, eventType, title, sections, logo, isDefault };
+  }
+  const builtIn = builtInReportTemplate('annual_survey');
+  return {
+    name: '',
+    eventType: builtIn.eventType,
+    title: builtIn.title,
+    sections: builtIn.sections.map(section => ({ ...section, id: uuidv4() })),
+    isDefault: true,
+  };
+}
+
+const SECTION_KINDS = Object.keys(REPORT_SECTION_LABELS) as ReportSectionKind[];
+
+/**
+ * Add/edit dialog for a report template: ordered sections, boilerplate
+ * text with placeholders and a logo. Mount it only while open (with a `key`
+ * per template) so the form is initialized from the template.
+ */
+export default function ReportTemplateDialog({
+  template,
+  onClose,
+  onDelete,
+}: ReportTemplateDialogProps) {
+  const [formData, setFormData] = useState<TemplateForm>(() => toForm(template));
+  const [newKind, setNewKind] = useState<ReportSectionKind>('text');
+
+  const valid = formData.name.trim() && formData.title.trim() && formData.sections.length > 0;
+
+  const updateSection = (id: string, changes: Partial<ReportTemplateSection>) => {
+    setFormData(prev => ({
+      ...prev,
+      sections: prev.sections.map(section => section.id === id ? { ...section, ...changes } : section),
+    }));
+  };
+
+  const moveSection = (index: number, delta: -1 | 1) => {
+    const target = index + delta;
+    if (target < 0 || target >= formData.sections.length) return;
+    const sections = [...formData.sections];
+    [sections[index], sections[target]] = [sections[target], sections[index]];
+    setFormData(prev => ({ ...prev, sections }));
+  };
+
+  const removeSection = (id: string) => {
+    setFormData(prev => ({ ...prev, sections: prev.sections.filter(section => section.id !== id) }));
+  };
+
+  const addSection = () => {
+    setFormData(prev => ({
+      ...prev,
+      sections: [...prev.sections, { id: uuidv4(), kind: newKind }],
+    }));
+  };
+
+  const handleLogoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setFormData(prev => ({ ...prev, logo: file }));
+  };
+
+  const handleSave = async () => {
+    if (!valid) return;
+    await saveReportTemplate(
+      {
+        name: formData.name.trim(),
+        eventType: formData.eventType,
+        title: formData.title.trim(),
+        sections: formData.sections.map(section => ({
+          ...section,
+          title: section.title?.trim() || undefined,
+          text: section.kind === 'text' ? section.text ?? '' : undefined,
+        })),
+        logo: formData.logo,
+        isDefault: formData.isDefault,
+      },
+      template?.id
+    );
+    onClose();
+  };
+
+  return (
+    <Dialog.Root open onOpenChange={open => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="dialog-overlay" />
+        <Dialog.Content className="dialog-content dialog-content--wide">
+          <Dialog.Title className="dialog-title">
+            {template ? 'Edit Report Template' : 'Add Report Template'}
+          </Dialog.Title>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="templateName">
+              Name *
+            </label>
+            <input
+              id="templateName"
+              className="form-input"
+              value={formData.name}
+              onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g., Acme Health annual survey"
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="templateEventType">
+              Event Type
+            </label>
+            <select
+              id="templateEventType"
+              className="form-input"
+              value={formData.eventType}
+              onChange={e => setFormData(prev => ({ ...prev, eventType: e.target.value as EventType }))}
+            >
+              {Object.entries(EVENT_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="templateDefault">
+              Use For
+            </label>
+            <select
+              id="templateDefault"
+              className="form-input"
+              value={formData.isDefault ? 'default' : 'chosen'}
+              onChange={e => setFormData(prev => ({ ...prev, isDefault: e.target.value === 'default' }))}
+            >
+              <option value="default">
+                All {EVENT_TYPE_LABELS[formData.eventType]} events (default)
+              </option>
+              <option value="chosen">Events where it is chosen</option>
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="templateTitle">
+              Report Title *
+            </label>
+            <input
+              id="templateTitle"
+              className="form-input"
+              value={formData.title}
+              onChange={e => setFormData(prev => ({ ...prev, title: e.target.value }))}
+            />
+          </div>
+
+          <div className="form-group">
+            <span className="form-label">Logo</span>
+            {formData.logo && (
+              <BlobImage blob={formData.logo} alt="Logo" className="report-template__logo" />
+            )}
+            <div className="room-info__actions">
+              <label className="btn btn--small import-file-label">
+                {formData.logo ? 'Replace Logo' : 'Choose Logo'}
+                <input
+                  type="file"
+                  accept="image/*"
+                  onChange={handleLogoSelect}
+                  className="visually-hidden"
+                />
+              </label>
+              {formData.logo && (
+                <button
+                  type="button"
+                  className="btn btn--small"
+                  onClick={() => setFormData(prev => ({ ...prev, logo: undefined }))}
+                >
+                  Remove Logo
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <span className="form-label">Sections</span>
+            <ol className="report-template__sections">
+              {formData.sections.map((section, index) => (
+                <li key={section.id} className="report-template__section">
+                  <div className="timeline__step">
+                    <span className="timeline__index">{index + 1}</span>
+                    <span className="timeline__caption">{REPORT_SECTION_LABELS[section.kind]}</span>
+                    <button
+                      type="button"
+                      className="btn btn--small"
+                      onClick={() => moveSection(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      className="btn btn--small"
+                      onClick={() => moveSection(index, 1)}
+                      disabled={index === formData.sections.length - 1}
+                      aria-label="Move down"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      className="btn btn--small"
+                      onClick={() => removeSection(section.id)}
+                      aria-label="Remove section"
+                    >
+                      ×
+                    </button>
+                  </div>
+                  <input
+                    className="form-input"
+                    value={section.title ?? ''}
+                    onChange={e => updateSection(section.id, { title: e.target.value })}
+                    placeholder={section.kind === 'text' ? 'Heading (optional)' : 'Default heading'}
+                    aria-label="Section heading"
+                  />
+                  {section.kind === 'text' && (
+                    <textarea
+                      className="form-input"
+                      rows={4}
+                      value={section.text ?? ''}
+                      onChange={e => updateSection(section.id, { text: e.target.value })}
+                      placeholder="Boilerplate text, e.g. The {{equipment.name}} at {{site.name}} was evaluated on {{event.date}}."
+                      aria-label="Section text"
+                    />
+                  )}
+                </li>
+              ))}
+            </ol>
+            <div className="report-template__add">
+              <button type="button" className="btn btn--small" onClick={addSection}>
+                + Add
+              </button>
+              <select
+                className="form-input"
+                value={newKind}
+                onChange={e => setNewKind(e.target.value as ReportSectionKind)}
+                aria-label="Section to add"
+              >
+                {SECTION_KINDS.map(kind => (
+                  <option key={kind} value={kind}>{REPORT_SECTION_LABELS[kind]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <details className="report-template__placeholders">
+            <summary>Placeholders for the title and text sections</summary>
+            <table className="data-table">
+              <tbody>
+                {REPORT_PLACEHOLDERS.map(placeholder => (
+                  <tr key={placeholder.key}>
+                    <td><code>{`{{${placeholder.key}}}`}</code></td>
+                    <td>{placeholder.label}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </details>
+
+          <div className="dialog-actions">
+            {template && onDelete && (
+              <button
+                type="button"
+                className="btn btn--danger"
+                onClick={() => onDelete(template)}
+              >
+                Delete
+              </button>
+            )}
+            <Dialog.Close asChild>
+              <button type="button" className="btn">Cancel</button>
+            </Dialog.Close>
+            <button
+              type="button"
+              className="btn btn--primary"
+              onClick={handleSave}
+              disabled={!valid}
+            >
+              Save
+            </button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
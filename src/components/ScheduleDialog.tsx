@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { saveSchedule } from '../db';
+import { EVENT_TYPE_LABELS } from '../lib/events';
+import { SCHEDULE_PRESETS, SCHEDULE_UNIT_LABELS, type SchedulePreset } from '../lib/schedules';
+import { toDateInputValue, fromDateInputValue } from '../lib/dates';
+import type { EventType, Schedule, ScheduleUnit } from '../types';
+
+interface ScheduleDialogProps {
+  equipmentId: string;
+  /** Existing schedule to edit; omit to add a new one */
+  schedule?: Schedule;
+  onClose: () => void;
+  onDelete?: (schedule: Schedule) => void;
+}
+
+interface ScheduleForm {
+  eventType: EventType;
+  title: string;
+  interval: string;
+  unit: ScheduleUnit;
+  nextDueDate: string;
+  active: 'active' | 'paused';
+  notes: string;
+}
+
+function toForm(schedule?: Schedule): ScheduleForm {
+  return {
+    eventType: schedule?.eventType ?? 'annual_survey',
+    title: schedule?.title ?? '',
+    interval: String(schedule?.interval ?? 12),
+    unit: schedule?.unit ?? 'months',
+    nextDueDate: toDateInputValue(schedule?.nextDueDate ?? new Date()),
+    active: schedule?.active === false ? 'paused' : 'active',
+    notes: schedule?.notes ?? '',
+  };
+}
+
+/**
+ * Add/edit dialog for a recurring schedule. Mount it only while open (with
+ * a `key` per schedule) so the form is initialized from the schedule.
+ */
+export default function ScheduleDialog({
+  equipmentId,
+  schedule,
+  onClose,
+  onDelete,
+}: ScheduleDialogProps) {
+  const [formData, setFormData] = useState<ScheduleForm>(() => toForm(schedule));
+
+  const interval = parseInt(formData.interval, 10);
+  const nextDueDate = fromDateInputValue(formData.nextDueDate);
+  const valid = formData.title.trim() && interval > 0 && nextDueDate;
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const applyPreset = (preset: SchedulePreset) => {
+    setFormData(prev => ({
+      ...prev,
+      eventType: preset.eventType,
+      title: preset.title,
+      interval: String(preset.interval),
+      unit: preset.unit,
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!valid || !nextDueDate) return;
+    await saveSchedule(
+      {
+        equipmentId,
+        eventType: formData.eventType,
+        title: formData.title.trim(),
+        interval,
+        unit: formData.unit,
+        nextDueDate,
+        active: formData.active === 'active',
+        notes: formData.notes.trim() || undefined,
+      },
+      schedule?.id
+    );
+    onClose();
+  };
+
+  return (
+    <Dialog.Root open onOpenChange={open => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="dialog-overlay" />
+        <Dialog.Content className="dialog-content">
+          <Dialog.Title className="dialog-title">
+            {schedule ? 'Edit Schedule' : 'Add Schedule'}
+          </Dialog.Title>
+
+          {!schedule && (
+            <div className="schedule-presets">
+              {SCHEDULE_PRESETS.map(preset => (
+                <button
+                  key={preset.label}
+                  type="button"
+                  className="btn btn--small"
+                  onClick={() => applyPreset(preset)}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="eventType">
+              Event Type *
+            </label>
+            <select
+              id="eventType"
+              name="eventType"
+              className="form-input"
+              value={formData.eventType}
+              onChange={handleChange}
+            >
+              {Object.entries(EVENT_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="title">
+              Title *
+            </label>
+            <input
+              id="title"
+              name="title"
+              className="form-input"
+              value={formData.title}
+              onChange={handleChange}
+              placeholder="e.g., Annual Survey"
+            />
+          </div>
+
+          <div className="form-group">
+            <span className="form-label">Repeat Every *</span>
+            <div className="schedule-interval">
+              <input
+                id="interval"
+                name="interval"
+                className="form-input"
+                type="number"
+                inputMode="numeric"
+                min={1}
+                value={formData.interval}
+                onChange={handleChange}
+                aria-label="Interval"
+              />
+              <select
+                id="unit"
+                name="unit"
+                className="form-input"
+                value={formData.unit}
+                onChange={handleChange}
+                aria-label="Unit"
+              >
+                {Object.entries(SCHEDULE_UNIT_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="nextDueDate">
+              Next Due *
+            </label>
+            <input
+              id="nextDueDate"
+              name="nextDueDate"
+              className="form-input"
+              type="date"
+              value={formData.nextDueDate}
+              onChange={handleChange}
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="active">
+              Status
+            </label>
+            <select
+              id="active"
+              name="active"
+              className="form-input"
+              value={formData.active}
+              onChange={handleChange}
+            >
+              <option value="active">Active</option>
+              <option value="paused">Paused</option>
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="notes">
+              Notes
+            </label>
+            <textarea
+              id="notes"
+              name="notes"
+              className="form-input"
+              rows={2}
+              value={formData.notes}
+              onChange={handleChange}
+            />
+          </div>
+
+          <div className="dialog-actions">
+            {schedule && onDelete && (
+              <button
+                type="button"
+                className="btn btn--danger"
+                onClick={() => onDelete(schedule)}
+              >
+                Delete
+              </button>
+            )}
+            <Dialog.Close asChild>
+              <button type="button" className="btn">Cancel</button>
+            </Dialog.Close>
+            <button
+              type="button"
+              className="btn btn--primary"
+              onClick={handleSave}
+              disabled={!valid}
+            >
+              Save
+            </button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
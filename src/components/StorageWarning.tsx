@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Warns when the browser has not granted persistent storage, so it may evict
+ * the database (and the local backups with it) under storage pressure.
+ */
+export default function StorageWarning() {
+  // null until known, or when the browser has no Storage API
+  const [persisted, setPersisted] = useState<boolean | null>(null);
+  const [declined, setDeclined] = useState(false);
+
+  useEffect(() => {
+    navigator.storage?.persisted?.()
+      .then(setPersisted)
+      .catch(() => setPersisted(false));
+  }, []);
+
+  if (persisted !== false) return null;
+
+  const handleRequest = async () => {
+    const granted = await navigator.storage.persist();
+    setPersisted(granted);
+    setDeclined(!granted);
+  };
+
+  return (
+    <div className="storage-warning" role="alert">
+      <p>
+        Storage is not persistent: the browser may delete this app's data, including local
+        backups, when the device runs low on space.
+      </p>
+      {declined && (
+        <p>
+          The browser declined. Installing the app to the home screen usually allows it; until
+          then, download a backup regularly.
+        </p>
+      )}
+      <button className="btn btn--small" onClick={handleRequest}>
+        Keep Data Permanently
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import * as AlertDialog from '@radix-ui/react-alert-dialog';
+import { db, deleteTimeline } from '../db';
+import BlobImage from './BlobImage';
+import type { GalleryImage, Timeline } from '../types';
+
+interface TimelineEditorProps {
+  timeline: Timeline;
+  /** All images attached to the timeline's event */
+  images: GalleryImage[];
+}
+
+/**
+ * An ordered sequence of event photos (e.g. "before repair / during / after").
+ */
+export default function TimelineEditor({ timeline, images }: TimelineEditorProps) {
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const imagesById = new Map(images.map(image => [image.id, image]));
+  const steps = timeline.imageIds
+    .map(id => imagesById.get(id))
+    .filter((image): image is GalleryImage => !!image);
+  const available = images.filter(image => !timeline.imageIds.includes(image.id));
+
+  const saveImageIds = async (imageIds: string[]) => {
+    await db.timelines.update(timeline.id, { imageIds, updatedAt: new Date() });
+  };
+
+  // Swap with the neighbouring step; photos in the Trash keep their place
+  const move = (index: number, delta: -1 | 1) => {
+    const other = steps[index + delta];
+    if (!other) return;
+    const imageIds = [...timeline.imageIds];
+    const from = imageIds.indexOf(steps[index].id);
+    const to = imageIds.indexOf(other.id);
+    [imageIds[from], imageIds[to]] = [imageIds[to], imageIds[from]];
+    saveImageIds(imageIds);
+  };
+
+  const remove = (imageId: string) => {
+    saveImageIds(timeline.imageIds.filter(id => id !== imageId));
+  };
+
+  const add = (imageId: string) => {
+    saveImageIds([...timeline.imageIds, imageId]);
+    setPickerOpen(false);
+  };
+
+  const handleDelete = async () => {
+    await deleteTimeline(timeline.id);
+  };
+
+  return (
+    <div className="timeline">
+      <div className="timeline__header">
+        <div>
+          <div className="event-item__title">{timeline.name}</div>
+          {timeline.description && (
+            <div className="event-item__meta">{timeline.description}</div>
+          )}
+        </div>
+        <button className="btn btn--small btn--danger" onClick={() => setConfirmDelete(true)}>
+          Delete
+        </button>
+      </div>
+
+      <ol className="timeline__steps">
+        {steps.map((image, index) => (
+          <li key={image.id} className="timeline__step">
+            <span className="timeline__index">{index + 1}</span>
+            <BlobImage
+              blob={image.thumbnailBlob ?? image.blob}
+              alt={image.caption || image.filename}
+              className="timeline__thumb"
+            />
+            <span className="timeline__caption">{image.caption || image.filename}</span>
+            <button
+              className="btn btn--small"
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              aria-label="Move up"
+            >
+              ↑
+            </button>
+            <button
+              className="btn btn--small"
+              onClick={() => move(index, 1)}
+              disabled={index === steps.length - 1}
+              aria-label="Move down"
+            >
+              ↓
+            </button>
+            <button
+              className="btn btn--small"
+              onClick={() => remove(image.id)}
+              aria-label="Remove from timeline"
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <button
+        className="btn btn--small"
+        onClick={() => setPickerOpen(true)}
+        disabled={available.length === 0}
+      >
+        + Add Photo to Timeline
+      </button>
+
+      {/* Image picker */}
+      <Dialog.Root open={pickerOpen} onOpenChange={setPickerOpen}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="dialog-overlay" />
+          <Dialog.Content className="dialog-content">
+            <Dialog.Title className="dialog-title">Add to "{timeline.name}"</Dialog.Title>
+            <div className="gallery-grid">
+              {available.map(image => (
+                <button
+                  key={image.id}
+                  type="button"
+                  className="gallery-item"
+                  onClick={() => add(image.id)}
+                >
+                  <BlobImage
+                    blob={image.thumbnailBlob ?? image.blob}
+                    alt={image.caption || image.filename}
+                    className="gallery-item__image"
+                  />
+                  {image.caption && (
+                    <span className="gallery-item__caption">{image.caption}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+            <div className="dialog-actions">
+              <Dialog.Close asChild>
+                <button type="button" className="btn">Cancel</button>
+              </Dialog.Close>
+            </div>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+
+      {/* Delete Confirmation */}
+      <AlertDialog.Root open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialog.Portal>
+          <AlertDialog.Overlay className="alert-dialog-overlay" />
+          <AlertDialog.Content className="alert-dialog-content">
+            <AlertDialog.Title className="alert-dialog-title">
+              Delete Timeline?
+            </AlertDialog.Title>
+            <AlertDialog.Description className="alert-dialog-description">
+              The timeline "{timeline.name}" will be moved to the Trash. Its photos stay in the
+              event gallery.
+            </AlertDialog.Description>
+            <div className="alert-dialog-actions">
+              <AlertDialog.Cancel asChild>
+                <button className="btn">Cancel</button>
+              </AlertDialog.Cancel>
+              <AlertDialog.Action asChild>
+                <button className="btn btn--danger" onClick={handleDelete}>
+                  Delete
+                </button>
+              </AlertDialog.Action>
+            </div>
+          </AlertDialog.Content>
+        </AlertDialog.Portal>
+      </AlertDialog.Root>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { formatDate } from '../lib/dates';
+import type { Trend, TrendPoint } from '../lib/trends';
+
+interface TrendChartProps {
+  trend: Trend;
+  onSelectEvent?: (eventId: string) => void;
+}
+
+// Chart geometry in SVG user units; the SVG scales to the container width
+const WIDTH = 320;
+const HEIGHT = 160;
+const PADDING = { top: 10, right: 10, bottom: 20, left: 52 };
+const POINT_RADIUS = 3.5;
+
+function formatValue(value: number, digits: number) {
+  return value.toFixed(digits);
+}
+
+/**
+ * Line chart of one QC metric over time, with the action-limit band shaded
+ * and out-of-limit points flagged.
+ */
+export default function TrendChart({ trend, onSelectEvent }: TrendChartProps) {
+  const { metric, points, limits } = trend;
+  const unit = metric.unit ? ` ${metric.unit}` : '';
+
+  // Value range covers the data and any limits, padded so points clear the edges
+  const values = points.map(p => p.value);
+  if (limits?.min !== undefined) values.push(limits.min);
+  if (limits?.max !== undefined) values.push(limits.max);
+  let yMin = Math.min(...values);
+  let yMax = Math.max(...values);
+  const span = yMax - yMin || Math.abs(yMax) || 1;
+  yMin -= span * 0.1;
+  yMax += span * 0.1;
+
+  const times = points.map(p => p.date.getTime());
+  const tMin = Math.min(...times);
+  const tMax = Math.max(...times);
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (time: number) => tMax === tMin
+    ? PADDING.left + plotWidth / 2
+    : PADDING.left + ((time - tMin) / (tMax - tMin)) * plotWidth;
+  const y = (value: number) => PADDING.top + ((yMax - value) / (yMax - yMin)) * plotHeight;
+
+  // One line per series (QC, ACR T1, ACR T2)
+  const seriesNames = [...new Set(points.map(p => p.series))];
+  const bySeries = seriesNames.map(name => points.filter(p => p.series === name));
+
+  const bandTop = y(limits?.max ?? yMax);
+  const bandBottom = y(limits?.min ?? yMin);
+
+  const pointTitle = (point: TrendPoint) =>
+    `${formatDate(point.date)} · ${point.series}: ${formatValue(point.value, metric.digits)}${unit}`
+    + (point.outOfLimits ? ' (outside action limit)' : '');
+
+  return (
+    <figure className="trend-chart">
+      <figcaption className="trend-chart__title">
+        {metric.label}
+        {metric.unit && <span className="trend-chart__unit"> ({metric.unit})</span>}
+      </figcaption>
+
+      <svg
+        className="trend-chart__svg"
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        role="img"
+        aria-label={`${metric.label} trend`}
+      >
+        {/* Action-limit band */}
+        {limits && (
+          <>
+            <rect
+              className="trend-chart__band"
+              x={PADDING.left}
+              y={bandTop}
+              width={plotWidth}
+              height={Math.max(bandBottom - bandTop, 0)}
+            />
+            {limits.min !== undefined && (
+              <line
+                className="trend-chart__limit"
+                x1={PADDING.left}
+                x2={WIDTH - PADDING.right}
+                y1={y(limits.min)}
+                y2={y(limits.min)}
+              />
+            )}
+            {limits.max !== undefined && (
+              <line
+                className="trend-chart__limit"
+                x1={PADDING.left}
+                x2={WIDTH - PADDING.right}
+                y1={y(limits.max)}
+                y2={y(limits.max)}
+              />
+            )}
+          </>
+        )}
+
+        {/* Axes */}
+        <line
+          className="trend-chart__axis"
+          x1={PADDING.left}
+          x2={PADDING.left}
+          y1={PADDING.top}
+          y2={HEIGHT - PADDING.bottom}
+        />
+        <line
+          className="trend-chart__axis"
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={HEIGHT - PADDING.bottom}
+          y2={HEIGHT - PADDING.bottom}
+        />
+        <text className="trend-chart__label" x={PADDING.left - 4} y={PADDING.top + 4} textAnchor="end">
+          {formatValue(yMax, metric.digits)}
+        </text>
+        <text className="trend-chart__label" x={PADDING.left - 4} y={HEIGHT - PADDING.bottom} textAnchor="end">
+          {formatValue(yMin, metric.digits)}
+        </text>
+        <text className="trend-chart__label" x={PADDING.left} y={HEIGHT - 4} textAnchor="start">
+          {formatDate(new Date(tMin))}
+        </text>
+        {tMax !== tMin && (
+          <text className="trend-chart__label" x={WIDTH - PADDING.right} y={HEIGHT - 4} textAnchor="end">
+            {formatDate(new Date(tMax))}
+          </text>
+        )}
+
+        {/* Series */}
+        {bySeries.map((seriesPoints, index) => (
+          <g key={seriesNames[index]} className={`trend-chart__series trend-chart__series--${index}`}>
+            {seriesPoints.length > 1 && (
+              <polyline
+                className="trend-chart__line"
+                points={seriesPoints.map(p => `${x(p.date.getTime())},${y(p.value)}`).join(' ')}
+              />
+            )}
+            {seriesPoints.map(point => (
+              <circle
+                key={`${point.eventId}-${point.series}`}
+                className={`trend-chart__point${point.outOfLimits ? ' trend-chart__point--fail' : ''}`}
+                cx={x(point.date.getTime())}
+                cy={y(point.value)}
+                r={POINT_RADIUS}
+                onClick={onSelectEvent && (() => onSelectEvent(point.eventId))}
+              >
+                <title>{pointTitle(point)}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      {seriesNames.length > 1 && (
+        <div className="trend-chart__legend">
+          {seriesNames.map((name, index) => (
+            <span key={name} className={`trend-chart__key trend-chart__series--${index}`}>
+              {name}
+            </span>
+          ))}
+        </div>
+      )}
+    </figure>
+  );
+}
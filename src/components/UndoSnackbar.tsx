@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, restoreTrash } from '../db';
+
+// How long the Undo button stays up after a delete (ms)
+const UNDO_TIMEOUT = 8000;
+
+/**
+ * "Deleted … Undo" bar shown after each delete made in this session. It
+ * follows the newest Trash entry, so every page's delete gets it without
+ * wiring; undo restores the entry.
+ */
+export default function UndoSnackbar() {
+  // Entries deleted at or before this time are not offered (app start, then dismissals)
+  const [shownAfter, setShownAfter] = useState(() => Date.now());
+  const [error, setError] = useState<string | null>(null);
+
+  const latest = useLiveQuery(() => db.trash.orderBy('deletedAt').last());
+  const entry = latest && latest.deletedAt.getTime() > shownAfter ? latest : undefined;
+  const deletedAt = entry?.deletedAt.getTime();
+
+  useEffect(() => {
+    if (deletedAt === undefined) return;
+    const timer = setTimeout(() => {
+      setShownAfter(deletedAt);
+      setError(null);
+    }, UNDO_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [deletedAt]);
+
+  if (!entry) return null;
+
+  const handleUndo = async () => {
+    setError(null);
+    try {
+      await restoreTrash(entry.id);
+      setShownAfter(entry.deletedAt.getTime());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="snackbar" role="status">
+      <span className="snackbar__text">
+        {error
+          ?? (entry.level === 'all' ? 'All data moved to the Trash' : `Deleted "${entry.name}"`)}
+      </span>
+      <button className="snackbar__action" onClick={handleUndo}>
+        Undo
+      </button>
+    </div>
+  );
+}
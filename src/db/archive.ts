@@ -0,0 +1,206 @@
+import { db, getExportData, isLive } from '.';
+import { createZip, readZipDirectory, readZipEntry, type ZipEntry } from '../lib/zip';
+import {
+  parseExportFile,
+  validateArchiveImages,
+  validateSnapshotState,
+  type ImportValidation,
+} from '../lib/importData';
+import type {
+  ArchiveImage,
+  ArchiveReportTemplate,
+  ExportArchiveManifest,
+  ExportData,
+  ExportScope,
+  GalleryImage,
+  SnapshotState,
+} from '../types';
+
+// ZIP export with photos: manifest.json plus images/<id>.<ext> and
+// thumbnails/<id>.jpg, built one photo at a time from IndexedDB. Backup
+// snapshots also carry the device data (report templates with their logos
+// as templates/<id>.<ext>, settings, contract reminders).
+
+export const ARCHIVE_MANIFEST = 'manifest.json';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+};
+
+function imageExtension(mimeType: string) {
+  return IMAGE_EXTENSIONS[mimeType] ?? 'bin';
+}
+
+// Photos attached to a room, equipment or event in the exported data
+async function getExportImageIds(data: ExportData, scope?: ExportScope): Promise<string[]> {
+  if (!scope) return db.images.filter(isLive).primaryKeys();
+
+  const ids = new Set([
+    ...await db.images.where('roomId').anyOf(data.rooms.map(r => r.id)).filter(isLive).primaryKeys(),
+    ...await db.images.where('equipmentId').anyOf(data.equipment.map(e => e.id)).filter(isLive).primaryKeys(),
+    ...await db.images.where('eventId').anyOf(data.events.map(e => e.id)).filter(isLive).primaryKeys(),
+  ]);
+  return Array.from(ids);
+}
+
+/** Number of photos a ZIP export of everything, or of one subtree, contains */
+export async function countExportImages(scope?: ExportScope) {
+  if (!scope) return db.images.filter(isLive).count();
+  return (await getExportImageIds(await getExportData(scope), scope)).length;
+}
+
+/**
+ * Export everything (or one organization/site/room subtree), including photo
+ * and thumbnail blobs, as a ZIP archive. Photos are read one at a time; the
+ * manifest is written last.
+ */
+export async function createExportArchive(
+  scope?: ExportScope,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  const data = await getExportData(scope);
+  return buildArchive(data, await getExportImageIds(data, scope), onProgress);
+}
+
+/** Full ZIP export plus the device data a backup snapshot restores */
+export async function createSnapshotArchive(): Promise<Blob> {
+  const data = await getExportData();
+  const state: SnapshotState = {
+    reportTemplates: await db.reportTemplates.filter(isLive).toArray(),
+    settings: await db.settings.toArray(),
+    contractReminders: await db.contractReminders.toArray(),
+  };
+  return buildArchive(data, await getExportImageIds(data), undefined, state);
+}
+
+async function buildArchive(
+  data: ExportData,
+  imageIds: string[],
+  onProgress?: (done: number, total: number) => void,
+  state?: SnapshotState
+): Promise<Blob> {
+  const images: ArchiveImage[] = [];
+  const reportTemplates: ArchiveReportTemplate[] = [];
+
+  async function* entries(): AsyncGenerator<ZipEntry> {
+    for (const [index, id] of imageIds.entries()) {
+      const image = await db.images.get(id);
+      if (!image) continue;
+
+      const { blob, thumbnailBlob, ...metadata } = image;
+      const file = `images/${id}.${imageExtension(image.mimeType)}`;
+      const thumbnailFile = thumbnailBlob ? `thumbnails/${id}.jpg` : undefined;
+
+      yield { name: file, data: blob, modified: image.capturedAt };
+      if (thumbnailBlob && thumbnailFile) {
+        yield { name: thumbnailFile, data: thumbnailBlob, modified: image.capturedAt };
+      }
+
+      images.push({ ...metadata, file, thumbnailFile });
+      onProgress?.(index + 1, imageIds.length);
+    }
+
+    for (const { logo, ...template } of state?.reportTemplates ?? []) {
+      if (!logo) {
+        reportTemplates.push(template);
+        continue;
+      }
+      const logoFile = `templates/${template.id}.${imageExtension(logo.type)}`;
+      yield { name: logoFile, data: logo, modified: template.updatedAt };
+      reportTemplates.push({ ...template, logoFile, logoType: logo.type });
+    }
+
+    const manifest: ExportArchiveManifest = state
+      ? { ...data, images, snapshot: { ...state, reportTemplates } }
+      : { ...data, images };
+    yield {
+      name: ARCHIVE_MANIFEST,
+      data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }),
+    };
+  }
+
+  return createZip(entries());
+}
+
+export interface ArchiveImport {
+  validation: ImportValidation;
+  images: GalleryImage[];
+  /** Device data of a backup snapshot */
+  snapshot?: SnapshotState;
+}
+
+/**
+ * Read a ZIP export: validate the manifest like a JSON export and resolve
+ * each photo to a Blob backed by the archive file.
+ */
+export async function readExportArchive(file: Blob): Promise<ArchiveImport> {
+  const failed = (error: string): ArchiveImport => ({
+    validation: { data: null, errors: [error], warnings: [] },
+    images: [],
+  });
+
+  let directory;
+  try {
+    directory = await readZipDirectory(file);
+  } catch (err) {
+    return failed(err instanceof Error ? err.message : String(err));
+  }
+
+  const manifestEntry = directory.get(ARCHIVE_MANIFEST);
+  if (!manifestEntry) return failed(`Archive has no ${ARCHIVE_MANIFEST}`);
+
+  const manifestText = await (await readZipEntry(file, manifestEntry)).text();
+  const validation = parseExportFile(manifestText);
+  if (!validation.data) return { validation, images: [] };
+
+  const manifest = JSON.parse(manifestText) as { images?: unknown; snapshot?: unknown };
+  const { images: entries, errors } = validateArchiveImages(manifest.images);
+  for (const entry of entries) {
+    if (!directory.has(entry.file)) errors.push(`Archive is missing ${entry.file}`);
+  }
+  const { state, errors: stateErrors } = manifest.snapshot === undefined
+    ? { state: null, errors: [] }
+    : validateSnapshotState(manifest.snapshot);
+  errors.push(...stateErrors);
+  for (const { logoFile } of state?.reportTemplates ?? []) {
+    if (logoFile && !directory.has(logoFile)) errors.push(`Archive is missing ${logoFile}`);
+  }
+  if (errors.length > 0) {
+    return { validation: { ...validation, data: null, errors }, images: [] };
+  }
+
+  const images: GalleryImage[] = [];
+  for (const { file: path, thumbnailFile, ...metadata } of entries) {
+    const thumbnailEntry = thumbnailFile ? directory.get(thumbnailFile) : undefined;
+    images.push({
+      ...metadata,
+      blob: await readZipEntry(file, directory.get(path)!, metadata.mimeType),
+      thumbnailBlob: thumbnailEntry
+        ? await readZipEntry(file, thumbnailEntry, 'image/jpeg')
+        : undefined,
+    });
+  }
+
+  let snapshot: SnapshotState | undefined;
+  if (state) {
+    const reportTemplates = [];
+    for (const { logoFile, logoType, ...template } of state.reportTemplates) {
+      reportTemplates.push({
+        ...template,
+        logo: logoFile ? await readZipEntry(file, directory.get(logoFile)!, logoType) : undefined,
+      });
+    }
+    snapshot = { ...state, reportTemplates };
+  }
+
+  return { validation, images, snapshot };
+}
+
+/** How many archive photos are not on this device yet */
+export async function countNewImages(images: GalleryImage[]) {
+  const existing = await db.images.bulkGet(images.map(image => image.id));
+  return existing.filter(image => !image).length;
+}
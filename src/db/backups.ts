@@ -0,0 +1,117 @@
+import Dexie, { type EntityTable } from 'dexie';
+import { v4 as uuidv4 } from 'uuid';
+import { applyImport, db, getSettings, isLive } from '.';
+import { countExportImages, createSnapshotArchive, readExportArchive } from './archive';
+import { EXPORT_TABLES } from '../lib/importData';
+import type { BackupReason, BackupSnapshot, SnapshotState } from '../types';
+
+// Daily snapshots of the whole database, stored as ZIP exports in their own
+// IndexedDB database so clearing or corrupting the main one leaves them intact.
+// Besides the export they hold report templates, settings and contract reminders.
+
+const SNAPSHOT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+class BackupDB extends Dexie {
+  snapshots!: EntityTable<BackupSnapshot, 'id'>;
+
+  constructor() {
+    super('MRIPhysicsBackups');
+
+    this.version(1).stores({
+      snapshots: 'id, createdAt',
+    });
+  }
+}
+
+export const backupDb = new BackupDB();
+
+// Snapshots, newest first
+export async function getSnapshots() {
+  return backupDb.snapshots.orderBy('createdAt').reverse().toArray();
+}
+
+async function countRecords() {
+  let count = 0;
+  for (const table of EXPORT_TABLES) {
+    count += await db[table].filter(isLive).count();
+  }
+  return count;
+}
+
+/**
+ * Snapshot the database now, then drop the oldest beyond the configured
+ * count. The snapshot taken before a restore skips rotation so the one being
+ * restored is never dropped mid-restore.
+ */
+export async function createSnapshot(reason: BackupReason) {
+  const recordCount = await countRecords();
+  const imageCount = await countExportImages();
+  const archive = await createSnapshotArchive();
+
+  const id = uuidv4();
+  await backupDb.snapshots.add({
+    id,
+    reason,
+    archive,
+    recordCount,
+    imageCount,
+    createdAt: new Date(),
+  });
+
+  if (reason !== 'before_restore') {
+    const { backupSnapshotCount } = await getSettings();
+    await rotateSnapshots(Math.max(backupSnapshotCount, 1));
+  }
+  return id;
+}
+
+// Keep the newest `keep` snapshots
+export async function rotateSnapshots(keep: number) {
+  const old = await backupDb.snapshots.orderBy('createdAt').reverse().offset(keep).primaryKeys();
+  await backupDb.snapshots.bulkDelete(old);
+}
+
+// Daily snapshot on app open, unless turned off, recent or there is nothing to keep
+export async function createScheduledSnapshot() {
+  const { backupSnapshotCount } = await getSettings();
+  if (backupSnapshotCount <= 0) return;
+
+  const latest = await backupDb.snapshots.orderBy('createdAt').last();
+  if (latest && Date.now() - latest.createdAt.getTime() < SNAPSHOT_INTERVAL_MS) return;
+  if (await countRecords() === 0) return;
+
+  await createSnapshot('scheduled');
+}
+
+// Put back the device data of a snapshot, replacing what is there
+async function restoreSnapshotState({ reportTemplates, settings, contractReminders }: SnapshotState) {
+  await db.transaction('rw', [db.reportTemplates, db.settings, db.contractReminders], async () => {
+    await db.reportTemplates.clear();
+    await db.reportTemplates.bulkAdd(reportTemplates);
+    await db.settings.clear();
+    await db.settings.bulkAdd(settings);
+    await db.contractReminders.clear();
+    await db.contractReminders.bulkAdd(contractReminders);
+  });
+}
+
+/**
+ * Replace all data with a snapshot. The current data is snapshotted first so
+ * the restore can itself be undone. Snapshots taken before they carried
+ * report templates and settings leave those as they are.
+ */
+export async function restoreSnapshot(snapshotId: string) {
+  const snapshot = await backupDb.snapshots.get(snapshotId);
+  if (!snapshot) throw new Error('Snapshot not found');
+
+  const { validation, images, snapshot: state } = await readExportArchive(snapshot.archive);
+  if (!validation.data) throw new Error(validation.errors.join('; '));
+
+  if (await countRecords() > 0) await createSnapshot('before_restore');
+  await applyImport(validation.data, 'replace', false, images);
+  if (state) await restoreSnapshotState(state);
+}
+
+export async function deleteSnapshot(snapshotId: string) {
+  await backupDb.snapshots.delete(snapshotId);
+}
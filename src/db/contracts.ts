@@ -0,0 +1,116 @@
+import { liveQuery } from 'dexie';
+import { db, getSettings, isLive } from '.';
+import { dueReminders, planContractReminders } from '../lib/contracts';
+import type { Equipment } from '../types';
+
+// Contract and warranty expiry reminders. The schedule is kept in the
+// contractReminders table; due reminders are shown by the app while it is
+// open and by the service worker's periodic sync (public/contract-reminders.js)
+// while it is not.
+
+// Must match the tag handled in public/contract-reminders.js
+const REMINDER_SYNC_TAG = 'contract-reminders';
+const REMINDER_SYNC_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+// Periodic Background Sync is Chromium-only and missing from the DOM typings
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval?: number }): Promise<void>;
+}
+
+type PeriodicSyncRegistration = ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager };
+
+async function getRegistration() {
+  if (!('serviceWorker' in navigator)) return undefined;
+  return navigator.serviceWorker.getRegistration() as Promise<PeriodicSyncRegistration | undefined>;
+}
+
+/**
+ * Rewrite the reminder schedule from the equipment and the configured lead
+ * times, keeping what was already shown.
+ */
+export async function scheduleContractReminders(equipment: Equipment[], leadTimes: number[]) {
+  const planned = planContractReminders(equipment, leadTimes);
+  await db.transaction('rw', db.contractReminders, async () => {
+    const existing = new Map((await db.contractReminders.toArray()).map(reminder => [reminder.id, reminder]));
+    const plannedIds = new Set(planned.map(reminder => reminder.id));
+    await db.contractReminders.bulkDelete([...existing.keys()].filter(id => !plannedIds.has(id)));
+    await db.contractReminders.bulkPut(planned.map(reminder => ({
+      ...reminder,
+      notifiedAt: existing.get(reminder.id)?.notifiedAt,
+    })));
+  });
+}
+
+/** Show the reminders that are due, if notifications are allowed */
+export async function notifyDueReminders() {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const { show, settled } = dueReminders(await db.contractReminders.toArray());
+  if (settled.length === 0) return;
+
+  const registration = await getRegistration();
+  for (const reminder of show) {
+    const options = { body: reminder.body, tag: reminder.group, data: { path: 'contracts' } };
+    if (registration) {
+      await registration.showNotification(reminder.title, options);
+    } else {
+      new Notification(reminder.title, options);
+    }
+  }
+
+  const now = new Date();
+  await db.contractReminders.where('id').anyOf(settled).modify({ notifiedAt: now });
+}
+
+// Ask the browser to wake the service worker to check reminders; ignored where unsupported
+async function registerReminderSync() {
+  const registration = await getRegistration();
+  if (!registration?.periodicSync) return;
+  try {
+    await registration.periodicSync.register(REMINDER_SYNC_TAG, {
+      minInterval: REMINDER_SYNC_INTERVAL_MS,
+    });
+  } catch {
+    // Not permitted (e.g. the app is not installed); reminders show when it is opened
+  }
+}
+
+export function isBackgroundReminderSupported() {
+  return 'serviceWorker' in navigator && 'periodicSync' in ServiceWorkerRegistration.prototype;
+}
+
+/** Ask for notification permission, then start background reminders */
+export async function enableContractNotifications() {
+  const permission = await Notification.requestPermission();
+  if (permission === 'granted') {
+    await registerReminderSync();
+    await notifyDueReminders();
+  }
+  return permission;
+}
+
+/**
+ * Keep the reminder schedule in step with equipment and settings changes and
+ * show any that are due (call once at startup).
+ */
+export function watchContractReminders() {
+  if ('Notification' in window && Notification.permission === 'granted') {
+    registerReminderSync();
+  }
+
+  liveQuery(async () => ({
+    equipment: await db.equipment.filter(isLive).toArray(),
+    settings: await getSettings(),
+  })).subscribe({
+    next: ({ equipment, settings }) => {
+      scheduleContractReminders(equipment, settings.contractReminderDays)
+        .then(() => notifyDueReminders())
+        .catch(err => {
+          console.error('Failed to schedule contract reminders', err);
+        });
+    },
+    error: err => {
+      console.error('Failed to watch contract reminders', err);
+    },
+  });
+}
@@ -1,13 +1,55 @@
-import Dexie, { type EntityTable } from 'dexie';
+import Dexie, { type EntityTable, type Table } from 'dexie';
+import { v4 as uuidv4 } from 'uuid';
 import type {
   Organization,
   Site,
   Room,
   Equipment,
   SupportEvent,
+  EventStatus,
   GalleryImage,
+  QCMeasurements,
   Timeline,
+  Baseline,
+  Schedule,
+  ExportData,
+  ExportScope,
+  ReportTemplate,
+  CascadeLevel,
+  HierarchyChain,
+  TrashEntry,
+  TrashLevel,
+  AppSettings,
+  Setting,
+  SyncMeta,
+  SyncState,
+  SyncConflict,
+  SearchEntry,
+  ContractReminder,
 } from '../types';
+import { EVENT_STATUS_TRANSITIONS } from '../lib/events';
+import { QC_CHECK_TITLE, isQCEmpty } from '../lib/qc';
+import { COIL_QC_TITLE } from '../lib/coils';
+import { nextDueDate } from '../lib/schedules';
+import { baselineAt, getCurrentBaseline } from '../lib/baselines';
+import { DEFAULT_SETTINGS } from '../lib/settings';
+import {
+  CASCADE_LEVELS,
+  CASCADE_LEVEL_TABLES,
+  CASCADE_TABLES,
+  TRASH_LEVEL_TABLES,
+  type CascadeCounts,
+  type CascadeTable,
+} from '../lib/trash';
+import { SEARCH_TABLES, indexTerms } from '../lib/search';
+import type { ReportContext } from '../lib/report';
+import {
+  EXPORT_TABLES,
+  EXPORT_VERSION,
+  classifyRecord,
+  type ExportTable,
+  type RecordChange,
+} from '../lib/importData';
 
 class MRIPhysicsDB extends Dexie {
   organizations!: EntityTable<Organization, 'id'>;
@@ -17,6 +59,16 @@ class MRIPhysicsDB extends Dexie {
   events!: EntityTable<SupportEvent, 'id'>;
   images!: EntityTable<GalleryImage, 'id'>;
   timelines!: EntityTable<Timeline, 'id'>;
+  baselines!: EntityTable<Baseline, 'id'>;
+  schedules!: EntityTable<Schedule, 'id'>;
+  reportTemplates!: EntityTable<ReportTemplate, 'id'>;
+  trash!: EntityTable<TrashEntry, 'id'>;
+  settings!: EntityTable<Setting, 'key'>;
+  syncMeta!: Table<SyncMeta, [string, string]>;
+  syncState!: EntityTable<SyncState, 'url'>;
+  conflicts!: EntityTable<SyncConflict, 'id'>;
+  searchIndex!: Table<SearchEntry, [string, string]>;
+  contractReminders!: EntityTable<ContractReminder, 'id'>;
 
   constructor() {
     super('MRIPhysicsDB');
@@ -82,51 +134,981 @@ class MRIPhysicsDB extends Dexie {
         }
       });
     });
+
+    // Version 4: Added per-scanner QC baselines
+    this.version(4).stores({
+      baselines: 'id, equipmentId, createdAt',
+    });
+
+    // Version 5: Added recurring schedules; events link back to their schedule
+    this.version(5).stores({
+      schedules: 'id, equipmentId, nextDueDate, createdAt',
+      events: 'id, equipmentId, roomId, type, status, scheduledDate, scheduleId, createdAt',
+    });
+
+    // Version 6: Report templates per event type
+    this.version(6).stores({
+      reportTemplates: 'id, eventType, name, createdAt',
+    });
+
+    // Version 7: Trash entries for soft-deleted records; device settings
+    this.version(7).stores({
+      trash: 'id, deletedAt',
+      settings: 'key',
+    });
+
+    // Version 8: Sync change log (per-field change times), server cursors and conflicts
+    this.version(8).stores({
+      syncMeta: '[table+recordId], pending',
+      syncState: 'url',
+      conflicts: 'id, detectedAt',
+    });
+
+    // Version 9: Full-text search index, one row per record; built here for existing data
+    this.version(9).stores({
+      searchIndex: '[table+recordId], *terms',
+    }).upgrade(async tx => {
+      for (const table of SEARCH_TABLES) {
+        const records = await tx.table(table).toArray();
+        await tx.table('searchIndex').bulkPut(records
+          .filter(record => !record.deletedAt)
+          .map(record => ({ table, recordId: record.id, terms: indexTerms(table, record) })));
+      }
+    });
+
+    // Version 10: Contract and warranty expiry reminders (see db/contracts.ts)
+    this.version(10).stores({
+      contractReminders: 'id, fireAt',
+    });
+
+    // Version 11: Schedules count occurrences from an anchor date; existing ones start at their next due date
+    this.version(11).stores({}).upgrade(async tx => {
+      await tx.table('schedules').toCollection().modify(schedule => {
+        schedule.anchorDate ??= schedule.nextDueDate;
+      });
+    });
   }
 }
 
 export const db = new MRIPhysicsDB();
 
+// Soft-deleted records stay in their tables until purged; every query skips them
+export function isLive(record: { deletedAt?: Date }) {
+  return !record.deletedAt;
+}
+
+// The record unless it is missing or in the Trash
+export function live<T extends { deletedAt?: Date }>(record: T | undefined) {
+  return record && !record.deletedAt ? record : undefined;
+}
+
 // Helper functions for common operations
 export async function getRoomWithEquipment(roomId: string) {
-  const room = await db.rooms.get(roomId);
+  const room = live(await db.rooms.get(roomId));
   if (!room) return null;
-  const equipment = await db.equipment.where('roomId').equals(roomId).toArray();
+  const equipment = await db.equipment.where('roomId').equals(roomId).filter(isLive).toArray();
   return { room, equipment };
 }
 
 export async function getEquipmentWithEvents(equipmentId: string) {
-  const equipment = await db.equipment.get(equipmentId);
+  const equipment = live(await db.equipment.get(equipmentId));
   if (!equipment) return null;
-  const events = await db.events.where('equipmentId').equals(equipmentId).toArray();
+  const events = await db.events.where('equipmentId').equals(equipmentId).filter(isLive).toArray();
   return { equipment, events };
 }
 
 export async function getEventWithImages(eventId: string) {
-  const event = await db.events.get(eventId);
+  const event = live(await db.events.get(eventId));
   if (!event) return null;
-  const images = await db.images.where('eventId').equals(eventId).toArray();
-  const timelines = await db.timelines.where('eventId').equals(eventId).toArray();
+  const images = await db.images.where('eventId').equals(eventId).filter(isLive).toArray();
+  const timelines = await db.timelines.where('eventId').equals(eventId).filter(isLive).toArray();
   return { event, images, timelines };
 }
 
+// Event with its equipment, room, site, organization and QC baseline for reports
+export async function getReportContext(eventId: string): Promise<ReportContext | null> {
+  const event = live(await db.events.get(eventId));
+  const equipment = event && live(await db.equipment.get(event.equipmentId));
+  if (!event || !equipment) return null;
+
+  const room = live(await db.rooms.get(equipment.roomId));
+  const site = room && live(await db.sites.get(room.siteId));
+  const organization = site && live(await db.organizations.get(site.organizationId));
+  const baselines = await getBaselines(equipment.id);
+
+  return {
+    event,
+    equipment,
+    room,
+    site,
+    organization,
+    baseline: event.completedAt
+      ? baselineAt(baselines, event.completedAt)
+      : getCurrentBaseline(baselines),
+  };
+}
+
 export async function getImagesForTimeline(timelineId: string) {
-  const timeline = await db.timelines.get(timelineId);
+  const timeline = live(await db.timelines.get(timelineId));
   if (!timeline) return null;
-  const images = await db.images.where('id').anyOf(timeline.imageIds).toArray();
+  const images = await db.images.where('id').anyOf(timeline.imageIds).filter(isLive).toArray();
   return { timeline, images };
 }
 
 export async function getOrganizationWithSites(organizationId: string) {
-  const organization = await db.organizations.get(organizationId);
+  const organization = live(await db.organizations.get(organizationId));
   if (!organization) return null;
-  const sites = await db.sites.where('organizationId').equals(organizationId).toArray();
+  const sites = await db.sites.where('organizationId').equals(organizationId).filter(isLive).toArray();
   return { organization, sites };
 }
 
 export async function getSiteWithRooms(siteId: string) {
-  const site = await db.sites.get(siteId);
+  const site = live(await db.sites.get(siteId));
   if (!site) return null;
-  const rooms = await db.rooms.where('siteId').equals(siteId).toArray();
+  const rooms = await db.rooms.where('siteId').equals(siteId).filter(isLive).toArray();
   return { site, rooms };
 }
+
+// Level whose table holds this id (ids are unique across tables)
+async function findHierarchyLevel(id: string): Promise<CascadeLevel | undefined> {
+  for (const level of CASCADE_LEVELS) {
+    if (await cascadeTable(CASCADE_LEVEL_TABLES[level]).get(id)) return level;
+  }
+  return undefined;
+}
+
+/**
+ * A hierarchy record with its full ancestor chain, found from its id alone
+ * (the level is looked up when not given). Null when the record or any of
+ * its ancestors is missing or in the Trash.
+ */
+export async function resolveHierarchy(
+  id: string,
+  level?: CascadeLevel
+): Promise<HierarchyChain | null> {
+  level ??= await findHierarchyLevel(id);
+  if (!level) return null;
+
+  const event = level === 'event' ? live(await db.events.get(id)) : undefined;
+  const equipmentId = level === 'equipment' ? id : event?.equipmentId;
+  const equipment = equipmentId ? live(await db.equipment.get(equipmentId)) : undefined;
+  const roomId = level === 'room' ? id : equipment?.roomId;
+  const room = roomId ? live(await db.rooms.get(roomId)) : undefined;
+  const siteId = level === 'site' ? id : room?.siteId;
+  const site = siteId ? live(await db.sites.get(siteId)) : undefined;
+  const organizationId = level === 'organization' ? id : site?.organizationId;
+  const organization = organizationId ? live(await db.organizations.get(organizationId)) : undefined;
+
+  const chain = { level, organization, site, room, equipment, event };
+  const depth = CASCADE_LEVELS.indexOf(level);
+  if (CASCADE_LEVELS.slice(0, depth + 1).some(ancestor => !chain[ancestor])) return null;
+  return chain as HierarchyChain;
+}
+
+export async function getRoomImages(roomId: string) {
+  // Room-level photos only; event and equipment photos live on their own pages
+  const images = await db.images.where('roomId').equals(roomId).filter(isLive).toArray();
+  return images
+    .filter(image => !image.eventId && !image.equipmentId)
+    .sort((a, b) => b.capturedAt.getTime() - a.capturedAt.getTime());
+}
+
+// Fill in the parent ids for an image so it can be found from every level
+export async function resolveImageLinks(target: {
+  eventId?: string;
+  equipmentId?: string;
+  roomId?: string;
+}) {
+  const { eventId } = target;
+  let { equipmentId, roomId } = target;
+
+  if (eventId) {
+    const event = live(await db.events.get(eventId));
+    if (!event) throw new Error(`Event ${eventId} not found`);
+    equipmentId = equipmentId || event.equipmentId;
+    roomId = roomId || event.roomId;
+  }
+
+  if (equipmentId && !roomId) {
+    const equipment = live(await db.equipment.get(equipmentId));
+    if (!equipment) throw new Error(`Equipment ${equipmentId} not found`);
+    roomId = equipment.roomId;
+  }
+
+  return { eventId, equipmentId, roomId };
+}
+
+// Move a timeline to the Trash; its photos stay in the event gallery
+export async function deleteTimeline(timelineId: string) {
+  await deleteRecord('timeline', timelineId);
+}
+
+// Move a photo to the Trash. Timelines keep listing it so a restore puts it
+// back in place; purging removes it from them.
+export async function deleteImage(imageId: string) {
+  await deleteRecord('image', imageId);
+}
+
+// Move an event through its status workflow, stamping start/completion times.
+// Closing a scheduled occurrence rolls its schedule forward.
+export async function setEventStatus(eventId: string, status: EventStatus) {
+  await db.transaction('rw', [db.events, db.schedules, db.equipment], async () => {
+    const event = await db.events.get(eventId);
+    if (!event) throw new Error(`Event ${eventId} not found`);
+    if (!EVENT_STATUS_TRANSITIONS[event.status].includes(status)) {
+      throw new Error(`Cannot change event from ${event.status} to ${status}`);
+    }
+
+    const now = new Date();
+    const changes: Partial<SupportEvent> = { status, updatedAt: now };
+    if (status === 'in_progress' || status === 'completed') {
+      changes.startedAt = event.startedAt ?? now;
+    }
+    if (status === 'completed') {
+      changes.completedAt = now;
+    }
+
+    await db.events.update(eventId, changes);
+    if (status === 'completed' || status === 'cancelled') {
+      await rollSchedule(event, now);
+    }
+  });
+}
+
+export async function getEquipmentImages(equipmentId: string) {
+  // Equipment-level photos only; event photos are shown on the event
+  const images = await db.images.where('equipmentId').equals(equipmentId).filter(isLive).toArray();
+  return images
+    .filter(image => !image.eventId)
+    .sort((a, b) => b.capturedAt.getTime() - a.capturedAt.getTime());
+}
+
+// Parent level of each record and the field that links to it
+const CASCADE_PARENTS: Partial<Record<TrashLevel, { level: CascadeLevel; key: string }>> = {
+  site: { level: 'organization', key: 'organizationId' },
+  room: { level: 'site', key: 'siteId' },
+  equipment: { level: 'room', key: 'roomId' },
+  event: { level: 'equipment', key: 'equipmentId' },
+  timeline: { level: 'event', key: 'eventId' },
+  schedule: { level: 'equipment', key: 'equipmentId' },
+};
+
+type TrashableRecord = { id: string; deletedAt?: Date; updatedAt?: Date } & Record<string, unknown>;
+
+// Name a Trash entry shows for its record
+function trashName(record: TrashableRecord) {
+  return String(record.caption || record.filename || record.name || record.title || '');
+}
+
+function cascadeTable(table: CascadeTable) {
+  return db[table] as unknown as Table<TrashableRecord, string>;
+}
+
+function cascadeTables() {
+  return CASCADE_TABLES.map(cascadeTable);
+}
+
+/**
+ * Ids of a record and everything below it that is not already in the Trash.
+ * Photos are matched by room, equipment and event so none are left behind.
+ * Call inside a transaction over the cascade tables so the result is consistent.
+ */
+async function collectCascade(
+  level: CascadeLevel,
+  id: string
+): Promise<Record<CascadeTable, string[]>> {
+  const depth = CASCADE_LEVELS.indexOf(level);
+  const own = (at: CascadeLevel) => (level === at ? [id] : []);
+
+  const organizations = own('organization');
+  const sites = depth < 1
+    ? await db.sites.where('organizationId').anyOf(organizations).filter(isLive).primaryKeys()
+    : own('site');
+  const rooms = depth < 2
+    ? await db.rooms.where('siteId').anyOf(sites).filter(isLive).primaryKeys()
+    : own('room');
+  const equipment = depth < 3
+    ? await db.equipment.where('roomId').anyOf(rooms).filter(isLive).primaryKeys()
+    : own('equipment');
+  const events = depth < 4
+    ? await db.events.where('equipmentId').anyOf(equipment).filter(isLive).primaryKeys()
+    : own('event');
+
+  const images = new Set([
+    ...await db.images.where('roomId').anyOf(rooms).filter(isLive).primaryKeys(),
+    ...await db.images.where('equipmentId').anyOf(equipment).filter(isLive).primaryKeys(),
+    ...await db.images.where('eventId').anyOf(events).filter(isLive).primaryKeys(),
+  ]);
+
+  return {
+    organizations,
+    sites,
+    rooms,
+    equipment,
+    events,
+    timelines: await db.timelines.where('eventId').anyOf(events).filter(isLive).primaryKeys(),
+    baselines: await db.baselines.where('equipmentId').anyOf(equipment).filter(isLive).primaryKeys(),
+    schedules: await db.schedules.where('equipmentId').anyOf(equipment).filter(isLive).primaryKeys(),
+    images: Array.from(images),
+    reportTemplates: [],
+  };
+}
+
+// Number of records per table that deleting a record would remove, including itself
+export async function getCascadeCounts(level: CascadeLevel, id: string): Promise<CascadeCounts> {
+  return db.transaction('r', cascadeTables(), async () => {
+    const ids = await collectCascade(level, id);
+    return Object.fromEntries(
+      CASCADE_TABLES.map(table => [table, ids[table].length])
+    ) as CascadeCounts;
+  });
+}
+
+// Mark records deleted and list them as one Trash entry
+async function moveToTrash(
+  entry: Pick<TrashEntry, 'level' | 'recordId' | 'name'>,
+  ids: Partial<Record<CascadeTable, string[]>>
+) {
+  const now = new Date();
+  for (const table of CASCADE_TABLES) {
+    await cascadeTable(table).where('id').anyOf(ids[table] ?? []).modify(record => {
+      record.deletedAt = now;
+      if (record.updatedAt) record.updatedAt = now;
+    });
+  }
+  await db.trash.add({ id: uuidv4(), ...entry, deletedAt: now, records: ids });
+}
+
+// Move a record and everything below it to the Trash in one transaction
+async function deleteCascade(level: CascadeLevel, id: string) {
+  await db.transaction('rw', [...cascadeTables(), db.trash], async () => {
+    const record = live(await cascadeTable(CASCADE_LEVEL_TABLES[level]).get(id));
+    if (!record) throw new Error(`${level} ${id} not found`);
+    await moveToTrash({ level, recordId: id, name: trashName(record) }, await collectCascade(level, id));
+  });
+}
+
+/**
+ * Move a record deleted on its own to the Trash as one entry. A schedule
+ * takes its occurrences that have not been started along.
+ */
+async function deleteRecord(level: Exclude<TrashLevel, CascadeLevel>, id: string) {
+  await db.transaction('rw', [...cascadeTables(), db.trash], async () => {
+    const table = TRASH_LEVEL_TABLES[level];
+    const record = live(await cascadeTable(table).get(id));
+    if (!record) throw new Error(`${level} ${id} not found`);
+    const ids: Partial<Record<CascadeTable, string[]>> = { [table]: [id] };
+    if (level === 'schedule') {
+      ids.events = await db.events
+        .where('scheduleId').equals(id)
+        .filter(event => isLive(event) && event.status === 'scheduled')
+        .primaryKeys();
+    }
+    await moveToTrash({ level, recordId: id, name: trashName(record) }, ids);
+  });
+}
+
+// Cascade delete: sites, rooms and everything in them
+export async function deleteOrganization(organizationId: string) {
+  await deleteCascade('organization', organizationId);
+}
+
+// Cascade delete: rooms and everything in them
+export async function deleteSite(siteId: string) {
+  await deleteCascade('site', siteId);
+}
+
+// Cascade delete: equipment, its events and all room photos
+export async function deleteRoom(roomId: string) {
+  await deleteCascade('room', roomId);
+}
+
+// Cascade delete: events, timelines, images, baselines and schedules for an equipment item
+export async function deleteEquipment(equipmentId: string) {
+  await deleteCascade('equipment', equipmentId);
+}
+
+// Cascade delete: timelines and images for an event
+export async function deleteEvent(eventId: string) {
+  await deleteCascade('event', eventId);
+}
+
+// Clear All Data: every record goes to the Trash as one entry (report templates are kept)
+export async function deleteAllData() {
+  await db.transaction('rw', [...cascadeTables(), db.trash], async () => {
+    const ids = {} as Record<CascadeTable, string[]>;
+    for (const table of CASCADE_TABLES) {
+      ids[table] = table === 'reportTemplates'
+        ? []
+        : await cascadeTable(table).filter(isLive).primaryKeys();
+    }
+    if (CASCADE_TABLES.every(table => ids[table].length === 0)) return;
+    await moveToTrash({ level: 'all', name: 'All data' }, ids);
+  });
+}
+
+// --- Trash ---
+
+// Trash entries, most recently deleted first
+export async function getTrash() {
+  return db.trash.orderBy('deletedAt').reverse().toArray();
+}
+
+// Records of a Trash entry still marked with its deletion (not restored or re-imported since)
+async function getTrashedIds(entry: TrashEntry, table: CascadeTable) {
+  const ids = entry.records[table] ?? [];
+  const records = await cascadeTable(table).bulkGet(ids);
+  return records
+    .filter(record => record?.deletedAt?.getTime() === entry.deletedAt.getTime())
+    .map(record => record!.id);
+}
+
+/**
+ * Bring a Trash entry's records back. A record whose parent is still in the
+ * Trash, or was purged, cannot be restored on its own.
+ */
+export async function restoreTrash(entryId: string) {
+  await db.transaction('rw', [...cascadeTables(), db.trash], async () => {
+    const entry = await db.trash.get(entryId);
+    if (!entry) throw new Error('Trash entry not found');
+
+    const parent = entry.level !== 'all' && CASCADE_PARENTS[entry.level];
+    if (parent && entry.recordId) {
+      const table = TRASH_LEVEL_TABLES[entry.level as TrashLevel];
+      const parentId = (await cascadeTable(table).get(entry.recordId))?.[parent.key];
+      const parentRecord = typeof parentId === 'string'
+        ? await cascadeTable(CASCADE_LEVEL_TABLES[parent.level]).get(parentId)
+        : undefined;
+      if (!parentRecord) throw new Error(`Its ${parent.level} was permanently deleted`);
+      if (parentRecord.deletedAt) throw new Error(`Restore its ${parent.level} first`);
+    }
+
+    const now = new Date();
+    for (const table of CASCADE_TABLES) {
+      const ids = await getTrashedIds(entry, table);
+      await cascadeTable(table).where('id').anyOf(ids).modify(record => {
+        delete record.deletedAt;
+        if (record.updatedAt) record.updatedAt = now;
+      });
+    }
+    await db.trash.delete(entryId);
+  });
+}
+
+// Permanently delete a Trash entry's records
+export async function purgeTrash(entryId: string) {
+  await db.transaction('rw', [...cascadeTables(), db.trash], async () => {
+    const entry = await db.trash.get(entryId);
+    if (!entry) return;
+    for (const table of CASCADE_TABLES) {
+      const ids = await getTrashedIds(entry, table);
+      await cascadeTable(table).bulkDelete(ids);
+      // Purged photos leave the timelines they were in
+      if (table === 'images' && ids.length > 0) {
+        await db.timelines
+          .filter(timeline => timeline.imageIds.some(imageId => ids.includes(imageId)))
+          .modify(timeline => {
+            timeline.imageIds = timeline.imageIds.filter(imageId => !ids.includes(imageId));
+          });
+      }
+    }
+    await db.trash.delete(entryId);
+  });
+}
+
+// Purge Trash entries older than the retention period (run on startup)
+export async function purgeExpiredTrash() {
+  const { trashRetentionDays } = await getSettings();
+  if (trashRetentionDays <= 0) return;
+
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - trashRetentionDays);
+  const expired = await db.trash.where('deletedAt').below(cutoff).primaryKeys();
+  for (const entryId of expired) {
+    await purgeTrash(entryId);
+  }
+}
+
+// Levels from the widest deletion down; a deletion's Trash entry is named after its top record
+const TRASH_LEVEL_ORDER: TrashLevel[] = [
+  'organization',
+  'site',
+  'room',
+  'equipment',
+  'schedule',
+  'event',
+  'timeline',
+  'image',
+  'report_template',
+];
+
+/**
+ * List records another device moved to the Trash (pulled by sync). Records
+ * deleted together share their deletedAt and become one entry, added to when
+ * the rest of a deletion arrives later. Call inside a transaction over the
+ * cascade tables and the Trash.
+ */
+export async function trashPulledRecords(records: { table: CascadeTable; id: string; deletedAt: Date }[]) {
+  const deletions = new Map<number, typeof records>();
+  for (const record of records) {
+    const time = record.deletedAt.getTime();
+    deletions.set(time, [...deletions.get(time) ?? [], record]);
+  }
+
+  for (const [time, deleted] of deletions) {
+    const deletedAt = new Date(time);
+    const entry = await db.trash.where('deletedAt').equals(deletedAt).first();
+    const ids: Partial<Record<CascadeTable, string[]>> = { ...entry?.records };
+    for (const { table, id } of deleted) {
+      ids[table] = [...new Set([...ids[table] ?? [], id])];
+    }
+
+    const level = TRASH_LEVEL_ORDER.find(at => ids[TRASH_LEVEL_TABLES[at]]?.length);
+    if (!level) continue;
+    const topIds = ids[TRASH_LEVEL_TABLES[level]]!;
+    const record = await cascadeTable(TRASH_LEVEL_TABLES[level]).get(topIds[0]);
+    // Several top records deleted at once is Clear All Data
+    const top = entry?.level === 'all' || topIds.length > 1
+      ? { level: 'all' as const, name: 'All data' }
+      : { level, recordId: topIds[0], name: record ? trashName(record) : '' };
+    await db.trash.put({ id: entry?.id ?? uuidv4(), ...top, deletedAt, records: ids });
+  }
+}
+
+// --- Settings ---
+
+export async function getSettings(): Promise<AppSettings> {
+  const rows = await db.settings.toArray();
+  return { ...DEFAULT_SETTINGS, ...Object.fromEntries(rows.map(row => [row.key, row.value])) };
+}
+
+export async function saveSetting<K extends keyof AppSettings>(key: K, value: AppSettings[K]) {
+  await db.settings.put({ key, value });
+}
+
+// Completed QC checks with measurements, oldest first
+export async function getQCHistory(equipmentId: string) {
+  const events = await db.events.where('equipmentId').equals(equipmentId).filter(isLive).toArray();
+  return events
+    .filter(event => event.type === 'qc_check' && event.status === 'completed' && !isQCEmpty(event.qc))
+    .sort((a, b) => (a.completedAt?.getTime() ?? 0) - (b.completedAt?.getTime() ?? 0));
+}
+
+// Record a completed QC check in one step (technologist fast entry).
+// Completes the scanner's open scheduled QC occurrence when there is one.
+export async function addQCCheck(equipmentId: string, qc: QCMeasurements) {
+  return db.transaction('rw', [db.events, db.schedules, db.equipment], async () => {
+    const equipment = live(await db.equipment.get(equipmentId));
+    if (!equipment) throw new Error(`Equipment ${equipmentId} not found`);
+
+    const now = new Date();
+    const [scheduled] = (await db.events.where('equipmentId').equals(equipmentId).filter(isLive).toArray())
+      .filter(event =>
+        event.type === 'qc_check'
+        && event.scheduleId
+        && (event.status === 'scheduled' || event.status === 'in_progress'))
+      .sort((a, b) => (a.scheduledDate?.getTime() ?? 0) - (b.scheduledDate?.getTime() ?? 0));
+
+    if (scheduled) {
+      await db.events.update(scheduled.id, {
+        status: 'completed',
+        startedAt: scheduled.startedAt ?? now,
+        completedAt: now,
+        qc,
+        updatedAt: now,
+      });
+      await rollSchedule(scheduled, now);
+      return scheduled.id;
+    }
+
+    const id = uuidv4();
+    await db.events.add({
+      id,
+      equipmentId,
+      roomId: equipment.roomId,
+      type: 'qc_check',
+      status: 'completed',
+      title: QC_CHECK_TITLE,
+      startedAt: now,
+      completedAt: now,
+      qc,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return id;
+  });
+}
+
+// Open a coil QC to fill in: the coil's open coil QC event (e.g. a scheduled
+// occurrence), started now, or a new one
+export async function startCoilQC(coilId: string) {
+  return db.transaction('rw', [db.events, db.equipment], async () => {
+    const coil = live(await db.equipment.get(coilId));
+    if (!coil) throw new Error(`Equipment ${coilId} not found`);
+
+    const now = new Date();
+    const [open] = (await db.events.where('equipmentId').equals(coilId).filter(isLive).toArray())
+      .filter(event =>
+        event.type === 'coil_qc' && (event.status === 'scheduled' || event.status === 'in_progress'))
+      .sort((a, b) => (a.scheduledDate?.getTime() ?? 0) - (b.scheduledDate?.getTime() ?? 0));
+
+    if (open) {
+      if (open.status === 'scheduled') {
+        await db.events.update(open.id, { status: 'in_progress', startedAt: now, updatedAt: now });
+      }
+      return open.id;
+    }
+
+    const id = uuidv4();
+    await db.events.add({
+      id,
+      equipmentId: coilId,
+      roomId: coil.roomId,
+      type: 'coil_qc',
+      status: 'in_progress',
+      title: COIL_QC_TITLE,
+      startedAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return id;
+  });
+}
+
+// Baseline versions for a scanner or coil, newest first
+export async function getBaselines(equipmentId: string) {
+  const baselines = await db.baselines.where('equipmentId').equals(equipmentId).filter(isLive).toArray();
+  return baselines.sort((a, b) => b.version - a.version);
+}
+
+// Establish a new baseline version, superseding the current one
+export async function establishBaseline(
+  equipmentId: string,
+  baseline: Pick<
+    Baseline,
+    'source' | 'sourceEventIds' | 'values' | 'limits' | 'notes' | 'elementSnr' | 'uniformity' | 'uniformityLimit'
+  >
+) {
+  return db.transaction('rw', [db.equipment, db.baselines], async () => {
+    const equipment = await db.equipment.get(equipmentId);
+    if (!equipment) throw new Error(`Equipment ${equipmentId} not found`);
+
+    const now = new Date();
+    const existing = await db.baselines.where('equipmentId').equals(equipmentId).toArray();
+    await db.baselines
+      .where('equipmentId').equals(equipmentId)
+      .filter(b => !b.supersededAt)
+      .modify({ supersededAt: now, updatedAt: now });
+
+    const id = uuidv4();
+    await db.baselines.add({
+      id,
+      equipmentId,
+      version: Math.max(0, ...existing.map(b => b.version)) + 1,
+      ...baseline,
+      softwareVersion: equipment.softwareVersion,
+      establishedAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return id;
+  });
+}
+
+// Retire the current baseline (major repair, software upgrade) until a new one is set
+export async function resetBaseline(equipmentId: string, reason: string) {
+  const now = new Date();
+  await db.baselines
+    .where('equipmentId').equals(equipmentId)
+    .filter(b => !b.supersededAt)
+    .modify({ supersededAt: now, resetReason: reason, updatedAt: now });
+}
+
+// Create the open event for an active schedule unless it already has one.
+// Call inside a transaction over events, schedules and equipment.
+async function ensureScheduleEvent(schedule: Schedule) {
+  if (!schedule.active || schedule.deletedAt) return;
+
+  const open = await db.events
+    .where('scheduleId').equals(schedule.id)
+    .filter(event => isLive(event) && (event.status === 'scheduled' || event.status === 'in_progress'))
+    .count();
+  if (open > 0) return;
+
+  const equipment = live(await db.equipment.get(schedule.equipmentId));
+  if (!equipment) return;
+
+  const now = new Date();
+  await db.events.add({
+    id: uuidv4(),
+    equipmentId: equipment.id,
+    roomId: equipment.roomId,
+    type: schedule.eventType,
+    status: 'scheduled',
+    title: schedule.title,
+    scheduledDate: schedule.nextDueDate,
+    scheduleId: schedule.id,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+// Advance a schedule after one of its occurrences was completed or cancelled
+async function rollSchedule(event: SupportEvent, closedAt: Date) {
+  if (!event.scheduleId) return;
+  const schedule = await db.schedules.get(event.scheduleId);
+  if (!schedule) return;
+
+  const next = nextDueDate(schedule, event.scheduledDate ?? schedule.nextDueDate, closedAt);
+  const updated = { ...schedule, nextDueDate: next, updatedAt: new Date() };
+  await db.schedules.put(updated);
+  await ensureScheduleEvent(updated);
+}
+
+export async function getSchedules(equipmentId: string) {
+  const schedules = await db.schedules.where('equipmentId').equals(equipmentId).filter(isLive).toArray();
+  return schedules.sort((a, b) => a.nextDueDate.getTime() - b.nextDueDate.getTime());
+}
+
+/**
+ * Add or update a schedule and keep its open occurrence in step. Occurrences
+ * are counted from the next due date again when it or the interval changes.
+ */
+export async function saveSchedule(
+  data: Omit<Schedule, 'id' | 'anchorDate' | 'createdAt' | 'updatedAt'>,
+  scheduleId?: string
+) {
+  return db.transaction('rw', [db.events, db.schedules, db.equipment], async () => {
+    const now = new Date();
+    const existing = scheduleId ? await db.schedules.get(scheduleId) : undefined;
+    const keepAnchor = existing
+      && existing.nextDueDate.getTime() === data.nextDueDate.getTime()
+      && existing.interval === data.interval
+      && existing.unit === data.unit;
+    const anchorDate = keepAnchor ? existing.anchorDate : data.nextDueDate;
+    const schedule: Schedule = existing
+      ? { ...existing, ...data, anchorDate, updatedAt: now }
+      : { id: uuidv4(), ...data, anchorDate, createdAt: now, updatedAt: now };
+    await db.schedules.put(schedule);
+
+    // Occurrences not yet started follow the schedule; inactive schedules drop them
+    const pending = db.events
+      .where('scheduleId').equals(schedule.id)
+      .filter(event => isLive(event) && event.status === 'scheduled');
+    if (schedule.active) {
+      await pending.modify({
+        type: schedule.eventType,
+        title: schedule.title,
+        scheduledDate: schedule.nextDueDate,
+        updatedAt: now,
+      });
+      await ensureScheduleEvent(schedule);
+    } else {
+      await pending.delete();
+    }
+    return schedule.id;
+  });
+}
+
+// Move a schedule and its occurrences that have not been started to the Trash
+export async function deleteSchedule(scheduleId: string) {
+  await deleteRecord('schedule', scheduleId);
+}
+
+// Make sure every active schedule has an open occurrence (e.g. after an import)
+export async function generateScheduledEvents() {
+  await db.transaction('rw', [db.events, db.schedules, db.equipment], async () => {
+    const schedules = await db.schedules.toArray();
+    for (const schedule of schedules) {
+      await ensureScheduleEvent(schedule);
+    }
+  });
+}
+
+// Records of an organization, site or room subtree, plus its parents
+async function getScopedExportData(scope: ExportScope): Promise<ExportData> {
+  let rooms: Room[];
+  let sites: Site[];
+  let organizations: Organization[];
+
+  if (scope.level === 'room') {
+    rooms = await db.rooms.where('id').equals(scope.id).filter(isLive).toArray();
+    sites = await db.sites.where('id').anyOf(rooms.map(r => r.siteId)).filter(isLive).toArray();
+    organizations = await db.organizations.where('id').anyOf(sites.map(s => s.organizationId)).filter(isLive).toArray();
+  } else if (scope.level === 'site') {
+    sites = await db.sites.where('id').equals(scope.id).filter(isLive).toArray();
+    organizations = await db.organizations.where('id').anyOf(sites.map(s => s.organizationId)).filter(isLive).toArray();
+    rooms = await db.rooms.where('siteId').equals(scope.id).filter(isLive).toArray();
+  } else {
+    organizations = await db.organizations.where('id').equals(scope.id).filter(isLive).toArray();
+    sites = await db.sites.where('organizationId').equals(scope.id).filter(isLive).toArray();
+    rooms = await db.rooms.where('siteId').anyOf(sites.map(s => s.id)).filter(isLive).toArray();
+  }
+
+  const equipment = await db.equipment.where('roomId').anyOf(rooms.map(r => r.id)).filter(isLive).toArray();
+  const equipmentIds = equipment.map(e => e.id);
+  const events = await db.events.where('equipmentId').anyOf(equipmentIds).filter(isLive).toArray();
+
+  return {
+    exportedAt: new Date().toISOString(),
+    version: EXPORT_VERSION,
+    organizations,
+    sites,
+    rooms,
+    equipment,
+    events,
+    timelines: await db.timelines.where('eventId').anyOf(events.map(e => e.id)).filter(isLive).toArray(),
+    baselines: await db.baselines.where('equipmentId').anyOf(equipmentIds).filter(isLive).toArray(),
+    schedules: await db.schedules.where('equipmentId').anyOf(equipmentIds).filter(isLive).toArray(),
+  };
+}
+
+// --- Report templates ---
+
+export async function getReportTemplates() {
+  const templates = await db.reportTemplates.filter(isLive).toArray();
+  return templates.sort((a, b) =>
+    a.eventType.localeCompare(b.eventType) || a.name.localeCompare(b.name));
+}
+
+/** Add or update a template; a new default replaces the previous one for its event type */
+export async function saveReportTemplate(
+  data: Omit<ReportTemplate, 'id' | 'createdAt' | 'updatedAt'>,
+  templateId?: string
+) {
+  return db.transaction('rw', db.reportTemplates, async () => {
+    const now = new Date();
+    const existing = templateId ? await db.reportTemplates.get(templateId) : undefined;
+    const template: ReportTemplate = existing
+      ? { ...existing, ...data, updatedAt: now }
+      : { id: uuidv4(), ...data, createdAt: now, updatedAt: now };
+
+    if (template.isDefault) {
+      await db.reportTemplates
+        .where('eventType').equals(template.eventType)
+        .filter(other => other.id !== template.id && other.isDefault)
+        .modify({ isDefault: false, updatedAt: now });
+    }
+    await db.reportTemplates.put(template);
+    return template.id;
+  });
+}
+
+// Events that chose the template fall back to their type's default while it is in the Trash
+export async function deleteReportTemplate(templateId: string) {
+  await deleteRecord('report_template', templateId);
+}
+
+// Full-database export, or one subtree (images are exported separately)
+export async function getExportData(scope?: ExportScope): Promise<ExportData> {
+  if (scope) return getScopedExportData(scope);
+  return {
+    exportedAt: new Date().toISOString(),
+    version: EXPORT_VERSION,
+    organizations: await db.organizations.filter(isLive).toArray(),
+    sites: await db.sites.filter(isLive).toArray(),
+    rooms: await db.rooms.filter(isLive).toArray(),
+    equipment: await db.equipment.filter(isLive).toArray(),
+    events: await db.events.filter(isLive).toArray(),
+    timelines: await db.timelines.filter(isLive).toArray(),
+    baselines: await db.baselines.filter(isLive).toArray(),
+    schedules: await db.schedules.filter(isLive).toArray(),
+  };
+}
+
+function exportTable(table: ExportTable) {
+  return db[table] as unknown as Table<{ id: string; updatedAt: Date }, string>;
+}
+
+export type ImportDiff = Record<ExportTable, Record<RecordChange, string[]>>;
+
+// Classify every imported record against the local database by id and updatedAt
+export async function diffImport(data: ExportData): Promise<ImportDiff> {
+  const diff = {} as ImportDiff;
+  for (const table of EXPORT_TABLES) {
+    const records = (data[table] ?? []) as { id: string; updatedAt: Date }[];
+    const local = await exportTable(table).bulkGet(records.map(record => record.id));
+    const changes: Record<RecordChange, string[]> = {
+      new: [],
+      changed: [],
+      conflicting: [],
+      unchanged: [],
+    };
+    records.forEach((record, index) => {
+      changes[classifyRecord(local[index], record)].push(record.id);
+    });
+    diff[table] = changes;
+  }
+  return diff;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * Apply a validated export. Merge adds new records and updates changed ones,
+ * taking conflicting records only when `overwriteConflicts` is set. Replace
+ * clears every table and the Trash first; images in the Trash or whose
+ * parents no longer exist, and report templates in the Trash, are removed.
+ * Photos from a ZIP export replace local photos, or are added when merging
+ * unless a photo with the same id is already on this device.
+ */
+export async function applyImport(
+  data: ExportData,
+  mode: ImportMode,
+  overwriteConflicts = false,
+  images?: GalleryImage[]
+) {
+  const diff = mode === 'merge' ? await diffImport(data) : null;
+  const tables = EXPORT_TABLES.map(exportTable);
+
+  await db.transaction('rw', [...tables, db.images, db.reportTemplates, db.trash], async () => {
+    for (const table of EXPORT_TABLES) {
+      const records = (data[table] ?? []) as { id: string; updatedAt: Date }[];
+
+      if (!diff) {
+        await exportTable(table).clear();
+        await exportTable(table).bulkAdd(records);
+        continue;
+      }
+
+      const accepted = new Set([
+        ...diff[table].new,
+        ...diff[table].changed,
+        ...(overwriteConflicts ? diff[table].conflicting : []),
+      ]);
+      await exportTable(table).bulkPut(records.filter(record => accepted.has(record.id)));
+    }
+    // Exports from before schedule anchors count occurrences from the next due date
+    await db.schedules.filter(schedule => !schedule.anchorDate).modify(schedule => {
+      schedule.anchorDate = schedule.nextDueDate;
+    });
+
+    if (images && mode === 'replace') {
+      await db.images.clear();
+      await db.images.bulkAdd(images);
+    } else if (images) {
+      const existing = new Set(
+        await db.images.where('id').anyOf(images.map(image => image.id)).primaryKeys()
+      );
+      await db.images.bulkAdd(images.filter(image => !existing.has(image.id)));
+    }
+
+    if (mode === 'replace') {
+      // The Trash listed records that were just replaced
+      await db.trash.clear();
+      await db.reportTemplates.filter(template => !!template.deletedAt).delete();
+      const eventIds = new Set(await db.events.toCollection().primaryKeys());
+      const equipmentIds = new Set(await db.equipment.toCollection().primaryKeys());
+      const roomIds = new Set(await db.rooms.toCollection().primaryKeys());
+      await db.images
+        .filter(image =>
+          !!image.deletedAt
+          || (!!image.eventId && !eventIds.has(image.eventId))
+          || (!!image.equipmentId && !equipmentIds.has(image.equipmentId))
+          || (!!image.roomId && !roomIds.has(image.roomId)))
+        .delete();
+    }
+  });
+
+  await generateScheduledEvents();
+}
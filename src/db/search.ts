@@ -0,0 +1,190 @@
+import Dexie, {
+  type DBCoreMutateRequest,
+  type DBCoreMutateResponse,
+  type DBCoreTable,
+  type DBCoreTransaction,
+  type Table,
+} from 'dexie';
+import { db, isLive } from '.';
+import {
+  SEARCH_TABLES,
+  indexTerms,
+  scoreRecord,
+  tokenize,
+  type SearchTable,
+} from '../lib/search';
+import type { Equipment, GalleryImage, Organization, Room, Site, SupportEvent } from '../types';
+
+// Record type of each searchable table
+interface SearchRecords {
+  organizations: Organization;
+  sites: Site;
+  rooms: Room;
+  equipment: Equipment;
+  events: SupportEvent;
+  images: GalleryImage;
+}
+
+function searchTable<T extends SearchTable>(table: T) {
+  return db.table(table) as Table<SearchRecords[T], string>;
+}
+
+// --- Index maintenance ---
+
+// Read-write transactions on searchable tables; these also cover the index
+const indexedTransactions = new WeakSet<DBCoreTransaction>();
+
+function isSearchTable(table: string): table is SearchTable {
+  return (SEARCH_TABLES as readonly string[]).includes(table);
+}
+
+// Keys a range delete removes, read before it runs
+function rangeKeys(table: DBCoreTable, req: DBCoreMutateRequest): Promise<string[]> {
+  if (req.type !== 'deleteRange') return Dexie.Promise.resolve([]);
+  return table
+    .query({ trans: req.trans, values: false, query: { index: table.schema.primaryKey, range: req.range } })
+    .then(({ result }) => result);
+}
+
+// Rewrite the index rows of the records a write touched; trashed and deleted
+// records drop out, and operations that failed are skipped
+function indexWrite(
+  index: DBCoreTable,
+  table: SearchTable,
+  req: DBCoreMutateRequest,
+  result: DBCoreMutateResponse,
+  deletedKeys: string[]
+) {
+  const written: SearchRecords[SearchTable][] = req.type === 'add' || req.type === 'put'
+    ? req.values.filter((_, i) => !result.failures[i])
+    : [];
+  const removed = [
+    ...written.filter(record => record.deletedAt).map(record => record.id),
+    ...(req.type === 'delete' ? req.keys : deletedKeys),
+  ];
+
+  return index
+    .mutate({
+      type: 'put',
+      trans: req.trans,
+      values: written.filter(isLive).map(record => ({
+        table,
+        recordId: record.id,
+        terms: indexTerms(table, record),
+      })),
+    })
+    .then(() => index.mutate({ type: 'delete', trans: req.trans, keys: removed.map(id => [table, id]) }));
+}
+
+/**
+ * Keep the search index in step with every write to a searchable table
+ * (call once at startup, before the database opens). Index rows are written
+ * in the writing transaction, so they commit together with the record.
+ */
+export function trackSearchIndex() {
+  db.use({
+    stack: 'dbcore',
+    name: 'SearchIndex',
+    create: down => ({
+      ...down,
+      transaction: (stores, mode, options) => {
+        const indexed = mode === 'readwrite' && stores.some(isSearchTable);
+        const transaction = down.transaction(
+          indexed && !stores.includes('searchIndex') ? [...stores, 'searchIndex'] : stores,
+          mode,
+          options
+        );
+        if (indexed) indexedTransactions.add(transaction);
+        return transaction;
+      },
+      table: name => {
+        const table = down.table(name);
+        if (!isSearchTable(name)) return table;
+        return {
+          ...table,
+          // Chained rather than awaited: the middlewares below need Dexie's transaction zone
+          mutate: req => {
+            if (!indexedTransactions.has(req.trans)) return table.mutate(req);
+            return rangeKeys(table, req).then(deletedKeys => table.mutate(req).then(result =>
+              indexWrite(down.table('searchIndex'), name, req, result, deletedKeys).then(() => result)
+            ));
+          },
+        };
+      },
+    }),
+  });
+}
+
+function sameTerms(a: string[] | undefined, b: string[]) {
+  return a !== undefined && a.length === b.length && a.every((term, i) => term === b[i]);
+}
+
+/**
+ * Repair index rows that are missing, out of date or left over from deleted
+ * records, e.g. after SEARCH_FIELDS changes (run at startup).
+ */
+export async function checkSearchIndex() {
+  await db.transaction('rw', [...SEARCH_TABLES.map(searchTable), db.searchIndex], async () => {
+    for (const table of SEARCH_TABLES) {
+      const rows = await db.searchIndex
+        .where('[table+recordId]')
+        .between([table, Dexie.minKey], [table, Dexie.maxKey])
+        .toArray();
+      const indexed = new Map(rows.map(row => [row.recordId, row.terms]));
+      const live = (await searchTable(table).toArray()).filter(isLive);
+      const liveIds = new Set(live.map(record => record.id));
+
+      await db.searchIndex.bulkDelete(rows
+        .filter(row => !liveIds.has(row.recordId))
+        .map(row => [table, row.recordId]));
+      await db.searchIndex.bulkPut(live
+        .map(record => ({ table, recordId: record.id, terms: indexTerms(table, record) }))
+        .filter(row => !sameTerms(indexed.get(row.recordId), row.terms)));
+    }
+  });
+}
+
+// --- Queries ---
+
+/** A matching record; `table` tells which type `record` is */
+export type SearchHit = {
+  [T in SearchTable]: { table: T; record: SearchRecords[T]; score: number };
+}[SearchTable];
+
+// Hits returned for one query
+const MAX_HITS = 100;
+
+/**
+ * Records matching every word of the query (words match as prefixes, so
+ * results update while typing), best first.
+ */
+export async function search(query: string): Promise<SearchHit[]> {
+  const words = tokenize(query);
+  if (words.length === 0) return [];
+
+  return db.transaction('r', [...SEARCH_TABLES.map(searchTable), db.searchIndex], async () => {
+    // Records indexed under a term starting with each word, intersected
+    let matches: string[] = [];
+    for (const [index, word] of words.entries()) {
+      const keys = await db.searchIndex.where('terms').startsWith(word).primaryKeys();
+      const found = new Set(keys.map(([table, recordId]) => `${table}/${recordId}`));
+      matches = index === 0 ? [...found] : matches.filter(key => found.has(key));
+      if (matches.length === 0) return [];
+    }
+
+    const hits: SearchHit[] = [];
+    for (const table of SEARCH_TABLES) {
+      const ids = matches
+        .filter(key => key.startsWith(`${table}/`))
+        .map(key => key.slice(table.length + 1));
+      if (ids.length === 0) continue;
+
+      for (const record of await searchTable(table).bulkGet(ids)) {
+        if (!record || record.deletedAt) continue;
+        const score = scoreRecord(table, record, query);
+        if (score > 0) hits.push({ table, record, score } as SearchHit);
+      }
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, MAX_HITS);
+  });
+}
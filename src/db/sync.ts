@@ -0,0 +1,355 @@
+import Dexie, {
+  type DBCoreMutateRequest,
+  type DBCoreTable,
+  type DBCoreTransaction,
+  type Table,
+} from 'dexie';
+import { v4 as uuidv4 } from 'uuid';
+import { db, getSettings, trashPulledRecords } from '.';
+import {
+  SYNC_TABLES,
+  isSameValue,
+  mergeRecords,
+  withFieldTimes,
+  type SyncAdapter,
+  type SyncRecord,
+  type SyncTable,
+} from '../lib/sync';
+import { RestSyncAdapter } from '../lib/syncRest';
+import type { SyncConflict, SyncMeta } from '../types';
+
+type SyncedRecord = Record<string, unknown> & { id: string };
+
+function syncTable(table: SyncTable) {
+  return db.table(table) as Table<SyncedRecord, string>;
+}
+
+function isSyncTable(table: string): table is SyncTable {
+  return (SYNC_TABLES as readonly string[]).includes(table);
+}
+
+// Change time for fields with no change logged (records from before tracking)
+function recordTime(record: Record<string, unknown>) {
+  const time = record.updatedAt ?? record.createdAt;
+  return time instanceof Date ? time.getTime() : 0;
+}
+
+// --- Change tracking ---
+
+interface Change {
+  recordId: string;
+  /** Fields written; null for a delete */
+  fields: string[] | null;
+  /** Field times to start from when the record has no change log yet */
+  base: Record<string, number>;
+}
+
+// Read-write transactions on synced tables; these also cover the change log
+const trackedTransactions = new WeakSet<DBCoreTransaction>();
+// Transactions applying pulled records; these are not local changes
+const applyingRemote = new WeakSet<DBCoreTransaction>();
+
+// Top-level fields whose values differ between two versions of a record
+function changedFields(before: Record<string, unknown>, after: Record<string, unknown>) {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields].filter(field => !isSameValue(before[field], after[field]));
+}
+
+// Keys of the records a write touches, in operation order
+function writtenKeys(table: DBCoreTable, req: DBCoreMutateRequest): Promise<string[]> {
+  if (req.type === 'deleteRange') {
+    return table
+      .query({ trans: req.trans, values: false, query: { index: table.schema.primaryKey, range: req.range } })
+      .then(({ result }) => result);
+  }
+  return Dexie.Promise.resolve(req.type === 'delete' ? req.keys : req.values.map(record => record.id));
+}
+
+// The change each operation of a write makes, read before it runs; none for
+// unchanged puts and for deletes of missing records
+function changesOf(table: DBCoreTable, req: DBCoreMutateRequest): Promise<(Change | undefined)[]> {
+  return writtenKeys(table, req).then(keys => table.getMany({ trans: req.trans, keys }).then(existing =>
+    keys.map((key, i): Change | undefined => {
+      const before: SyncedRecord | undefined = existing[i];
+      if (req.type === 'delete' || req.type === 'deleteRange') {
+        return before && { recordId: String(key), fields: null, base: {} };
+      }
+
+      const after = req.values[i];
+      if (!before) return { recordId: String(key), fields: Object.keys(after), base: {} };
+      const fields = changedFields(before, after);
+      return fields.length > 0
+        ? { recordId: String(key), fields, base: withFieldTimes(before, undefined, recordTime(before)) }
+        : undefined;
+    })
+  ));
+}
+
+// Stamp changed fields in the change log and mark their records for the next push
+function logChanges(log: DBCoreTable, trans: DBCoreTransaction, table: SyncTable, changes: Change[]) {
+  const keys = changes.map(change => [table, change.recordId]);
+  return log.getMany({ trans, keys }).then((stored: (SyncMeta | undefined)[]) => {
+    const now = Date.now();
+    const metas = new Map<string, SyncMeta>();
+    for (const [i, change] of changes.entries()) {
+      const meta = metas.get(change.recordId)
+        ?? stored[i]
+        ?? { table, recordId: change.recordId, fieldTimes: change.base, pending: 1, changedAt: now };
+
+      if (change.fields) {
+        delete meta.deleted;
+        for (const field of change.fields) meta.fieldTimes[field] = now;
+      } else {
+        meta.deleted = now;
+      }
+      meta.pending = 1;
+      meta.changedAt = now;
+      metas.set(change.recordId, meta);
+    }
+    return log.mutate({ type: 'put', trans, values: [...metas.values()] });
+  });
+}
+
+/**
+ * Log every write to a synced table (call once at startup, before the
+ * database opens). The change log is written in the writing transaction, so
+ * a change never commits unlogged; schema upgrades are not logged.
+ * Field-level change times are what last-writer-wins merges on.
+ */
+export function trackChanges() {
+  db.use({
+    stack: 'dbcore',
+    name: 'SyncChangeLog',
+    create: down => ({
+      ...down,
+      transaction: (stores, mode, options) => {
+        const tracked = mode === 'readwrite' && stores.some(isSyncTable);
+        const transaction = down.transaction(
+          tracked && !stores.includes('syncMeta') ? [...stores, 'syncMeta'] : stores,
+          mode,
+          options
+        );
+        if (tracked) trackedTransactions.add(transaction);
+        return transaction;
+      },
+      table: name => {
+        const table = down.table(name);
+        if (!isSyncTable(name)) return table;
+        return {
+          ...table,
+          // Chained rather than awaited: the middlewares below need Dexie's transaction zone
+          mutate: req => {
+            if (!trackedTransactions.has(req.trans) || applyingRemote.has(req.trans)) {
+              return table.mutate(req);
+            }
+            return changesOf(table, req).then(changes => table.mutate(req).then(result => logChanges(
+              down.table('syncMeta'),
+              req.trans,
+              name,
+              changes.filter((change, i): change is Change => change !== undefined && !result.failures[i])
+            ).then(() => result)));
+          },
+        };
+      },
+    }),
+  });
+}
+
+// --- Sync ---
+
+// Local copy of a record (or its tombstone) in sync form
+async function localSyncRecord(table: SyncTable, recordId: string): Promise<SyncRecord | undefined> {
+  const [record, meta] = await Promise.all([
+    syncTable(table).get(recordId),
+    db.syncMeta.get([table, recordId]),
+  ]);
+  if (record) {
+    return {
+      table,
+      id: recordId,
+      data: record,
+      fieldTimes: withFieldTimes(record, meta?.fieldTimes, recordTime(record)),
+    };
+  }
+  if (meta?.deleted) {
+    return { table, id: recordId, data: {}, fieldTimes: meta.fieldTimes, deleted: meta.deleted };
+  }
+  return undefined;
+}
+
+// First sync with a server: everything on this device needs pushing
+async function markAllPending() {
+  const now = Date.now();
+  await db.transaction('rw', [...SYNC_TABLES.map(syncTable), db.syncMeta], async () => {
+    await db.syncMeta.toCollection().modify({ pending: 1 });
+    for (const table of SYNC_TABLES) {
+      const records = await syncTable(table).toArray();
+      const known = new Set(
+        (await db.syncMeta.where('[table+recordId]').between([table, Dexie.minKey], [table, Dexie.maxKey]).toArray())
+          .map(meta => meta.recordId)
+      );
+      await db.syncMeta.bulkAdd(records
+        .filter(record => !known.has(record.id))
+        .map(record => ({
+          table,
+          recordId: record.id,
+          fieldTimes: withFieldTimes(record, undefined, recordTime(record)),
+          pending: 1,
+          changedAt: now,
+        })));
+    }
+  });
+}
+
+// Merge a page of pulled records into the local tables
+async function applyRemote(records: SyncRecord[], since: number) {
+  await db.transaction('rw', [...SYNC_TABLES.map(syncTable), db.syncMeta, db.conflicts, db.trash], async () => {
+    applyingRemote.add(Dexie.currentTransaction.idbtrans);
+    const detectedAt = new Date();
+    // Records another device moved to the Trash
+    const trashed: { table: SyncTable; id: string; deletedAt: Date }[] = [];
+
+    for (const remote of records) {
+      if (!isSyncTable(remote.table)) continue;
+      const local = await localSyncRecord(remote.table, remote.id);
+      const { merged, changed, conflicts } = mergeRecords(local, remote, since);
+
+      if (changed && merged.deleted) {
+        await syncTable(remote.table).delete(remote.id);
+      } else if (changed) {
+        await syncTable(remote.table).put(merged.data as SyncedRecord);
+        const { deletedAt } = merged.data;
+        if (deletedAt instanceof Date && !isSameValue(local?.data.deletedAt, deletedAt)) {
+          trashed.push({ table: remote.table, id: remote.id, deletedAt });
+        }
+      }
+
+      const meta = await db.syncMeta.get([remote.table, remote.id]);
+      await db.syncMeta.put({
+        table: remote.table,
+        recordId: remote.id,
+        fieldTimes: merged.fieldTimes,
+        deleted: merged.deleted,
+        pending: meta?.pending ?? 0,
+        changedAt: meta?.changedAt ?? detectedAt.getTime(),
+      });
+
+      await db.conflicts.bulkAdd(conflicts.map(conflict => ({
+        id: uuidv4(),
+        table: remote.table,
+        recordId: remote.id,
+        ...conflict,
+        detectedAt,
+      })));
+    }
+
+    await trashPulledRecords(trashed);
+  });
+}
+
+// Push records changed locally, then clear their pending flag unless they changed again meanwhile
+async function pushPending(adapter: SyncAdapter) {
+  const pushStart = Date.now();
+  const metas = await db.syncMeta.where('pending').equals(1).toArray();
+  const records: SyncRecord[] = [];
+  for (const meta of metas) {
+    if (!isSyncTable(meta.table)) continue;
+    const record = await localSyncRecord(meta.table, meta.recordId);
+    if (record) records.push(record);
+  }
+  if (records.length > 0) await adapter.push(records);
+
+  await db.transaction('rw', db.syncMeta, async () => {
+    await db.syncMeta
+      .where('[table+recordId]')
+      .anyOf(metas.map(meta => [meta.table, meta.recordId]))
+      .and(meta => meta.changedAt <= pushStart)
+      .modify({ pending: 0 });
+  });
+  return records.length;
+}
+
+export interface SyncResult {
+  pulled: number;
+  pushed: number;
+  conflicts: number;
+}
+
+/**
+ * Two-way sync with the configured server: pull and merge what other devices
+ * changed, then push what changed here. Conflicting edits are merged by
+ * last-writer-wins and kept for review.
+ */
+export async function syncNow(adapter?: SyncAdapter): Promise<SyncResult> {
+  const { syncServerUrl, syncToken } = await getSettings();
+  if (!syncServerUrl) throw new Error('No sync server set');
+  adapter ??= new RestSyncAdapter(syncServerUrl, syncToken);
+
+  const state = await db.syncState.get(syncServerUrl);
+  if (!state) await markAllPending();
+  const since = state?.lastSyncAt?.getTime() ?? 0;
+  const conflictsBefore = await db.conflicts.count();
+
+  let cursor = state?.cursor ?? null;
+  let pulled = 0;
+  let more = true;
+  while (more) {
+    const page = await adapter.pull(cursor);
+    await applyRemote(page.records, since);
+    pulled += page.records.length;
+    cursor = page.cursor;
+    more = page.more;
+    await db.syncState.put({ url: syncServerUrl, cursor, lastSyncAt: state?.lastSyncAt });
+  }
+
+  const pushed = await pushPending(adapter);
+  await db.syncState.put({ url: syncServerUrl, cursor, lastSyncAt: new Date() });
+
+  return { pulled, pushed, conflicts: (await db.conflicts.count()) - conflictsBefore };
+}
+
+// Records changed on this device since the last push
+export async function getPendingCount() {
+  return db.syncMeta.where('pending').equals(1).count();
+}
+
+// --- Conflicts ---
+
+export async function getConflicts() {
+  return db.conflicts.orderBy('detectedAt').reverse().toArray();
+}
+
+// The record a conflict is about, if it still exists
+export async function getConflictRecord(conflict: SyncConflict) {
+  if (!isSyncTable(conflict.table)) return undefined;
+  return syncTable(conflict.table).get(conflict.recordId);
+}
+
+/**
+ * Settle a conflict. Keeping the merged value just dismisses it; switching
+ * writes the other side's value as a new local change, which the next sync
+ * pushes to every device.
+ */
+export async function resolveConflict(conflictId: string, keep: 'merged' | 'other') {
+  await db.transaction('rw', [...SYNC_TABLES.map(syncTable), db.conflicts], async () => {
+    const conflict = await db.conflicts.get(conflictId);
+    if (!conflict) return;
+
+    const record = await getConflictRecord(conflict);
+    if (keep === 'other' && record) {
+      const value = conflict.winner === 'remote' ? conflict.localValue : conflict.remoteValue;
+      const changes: Record<string, unknown> = { [conflict.field]: value };
+      if (record.updatedAt instanceof Date && conflict.field !== 'updatedAt') {
+        changes.updatedAt = new Date();
+      }
+      await syncTable(conflict.table as SyncTable).update(conflict.recordId, changes);
+    }
+    await db.conflicts.delete(conflictId);
+  });
+}
+
+// Start a sync on app open when a server is set
+export async function syncOnStartup() {
+  const { syncServerUrl } = await getSettings();
+  if (syncServerUrl && navigator.onLine) await syncNow();
+}
@@ -0,0 +1,83 @@
+import { useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, isLive } from '../db';
+import type { Organization, Site, Room, Equipment, SupportEvent } from '../types';
+
+export interface HierarchyLookup {
+  organizations: Map<string, Organization>;
+  sites: Map<string, Site>;
+  rooms: Map<string, Room>;
+  equipment: Map<string, Equipment>;
+  /** Human-readable "Org › Site › Room" path for a room */
+  roomLabel: (roomId: string) => string;
+  /** Canonical drill-down URL for a room */
+  roomPath: (roomId: string) => string | null;
+  /** Canonical drill-down URL for an equipment item */
+  equipmentPath: (equipmentId: string) => string | null;
+  /** Canonical drill-down URL for an event */
+  eventPath: (event: SupportEvent) => string | null;
+}
+
+function toMap<T extends { id: string }>(items: T[] | undefined) {
+  return new Map((items ?? []).map(item => [item.id, item]));
+}
+
+/**
+ * Live lookup tables for the whole Organization → Site → Room → Equipment
+ * tree. Used by cross-organization views (events, search) to label records.
+ */
+export function useHierarchy(): HierarchyLookup | undefined {
+  const data = useLiveQuery(async () => ({
+    organizations: await db.organizations.filter(isLive).toArray(),
+    sites: await db.sites.filter(isLive).toArray(),
+    rooms: await db.rooms.filter(isLive).toArray(),
+    equipment: await db.equipment.filter(isLive).toArray(),
+  }));
+
+  return useMemo(() => {
+    if (!data) return undefined;
+
+    const organizations = toMap(data.organizations);
+    const sites = toMap(data.sites);
+    const rooms = toMap(data.rooms);
+    const equipment = toMap(data.equipment);
+
+    const roomLabel = (roomId: string) => {
+      const room = rooms.get(roomId);
+      const site = room && sites.get(room.siteId);
+      const org = site && organizations.get(site.organizationId);
+      return [org?.shortName || org?.name, site?.name, room?.name]
+        .filter(Boolean)
+        .join(' › ');
+    };
+
+    const roomPath = (roomId: string) => {
+      const room = rooms.get(roomId);
+      const site = room && sites.get(room.siteId);
+      if (!room || !site) return null;
+      return `/organizations/${site.organizationId}/sites/${site.id}/rooms/${room.id}`;
+    };
+
+    const equipmentPath = (equipmentId: string) => {
+      const item = equipment.get(equipmentId);
+      const base = item && roomPath(item.roomId);
+      return base ? `${base}/equipment/${equipmentId}` : null;
+    };
+
+    const eventPath = (event: SupportEvent) => {
+      const base = roomPath(event.roomId);
+      return base && `${base}/equipment/${event.equipmentId}/events/${event.id}`;
+    };
+
+    return {
+      organizations,
+      sites,
+      rooms,
+      equipment,
+      roomLabel,
+      roomPath,
+      equipmentPath,
+      eventPath,
+    };
+  }, [data]);
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { applyCalculations, combineResults, evaluateACR } from './acr';
+import type { ACRSeriesMeasurements } from '../types';
+
+// Every field entered and within the < 3T limits
+const PASSING_SERIES: ACRSeriesMeasurements = {
+  geoSagittal: 148.5,
+  geoSlice1Vertical: 190,
+  geoSlice1Horizontal: 189.5,
+  geoSlice5Vertical: 190.5,
+  geoSlice5Horizontal: 190,
+  geoSlice5DiagonalA: 191,
+  geoSlice5DiagonalB: 189,
+  resolutionUL: 0.9,
+  resolutionLR: 1.0,
+  sliceThickness: 5.2,
+  slicePosition1: 2,
+  slicePosition11: -3,
+  piu: 91.4,
+  ghosting: 0.6,
+  lcdSlice8: 8,
+  lcdSlice9: 7,
+  lcdSlice10: 6,
+  lcdSlice11: 5,
+};
+
+describe('applyCalculations', () => {
+  it('fills PIU, ghosting and slice thickness from complete raw inputs', () => {
+    const { values, calculated, errors } = applyCalculations({
+      piuHigh: 1000,
+      piuLow: 900,
+      ghostLarge: 1000,
+      ghostTop: 12,
+      ghostBottom: 10,
+      ghostLeft: 6,
+      ghostRight: 4,
+      sliceRampTop: 48,
+      sliceRampBottom: 52,
+    });
+
+    expect(values.piu).toBe(94.7);
+    expect(values.ghosting).toBe(0.6);
+    expect(values.sliceThickness).toBe(4.99);
+    expect(calculated).toEqual(expect.arrayContaining(['piu', 'ghosting', 'sliceThickness']));
+    expect(calculated).toHaveLength(3);
+    expect(errors).toEqual({});
+  });
+
+  it('overwrites an entered value when the raw inputs are complete', () => {
+    const { values } = applyCalculations({ piu: 80, piuHigh: 1000, piuLow: 900 });
+    expect(values.piu).toBe(94.7);
+  });
+
+  it('keeps manually entered values when the raw inputs are incomplete', () => {
+    const { values, calculated } = applyCalculations({
+      piu: 91.2,
+      piuHigh: 1000,
+      ghosting: 0.4,
+      ghostLarge: 1000,
+      ghostTop: 12,
+      sliceThickness: 5.1,
+      sliceRampBottom: 52,
+    });
+
+    expect(values.piu).toBe(91.2);
+    expect(values.ghosting).toBe(0.4);
+    expect(values.sliceThickness).toBe(5.1);
+    expect(calculated).toEqual([]);
+  });
+
+  it('reports calculator errors by field and drops the derived value', () => {
+    const { values, calculated, errors } = applyCalculations({
+      piu: 90,
+      piuHigh: 900,
+      piuLow: 1000,
+    });
+
+    expect(values).not.toHaveProperty('piu');
+    expect(values.piuHigh).toBe(900);
+    expect(calculated).toEqual([]);
+    expect(errors.piu).toBe('Low ROI mean must not exceed high ROI mean');
+  });
+
+  it('does not change the measurements passed in', () => {
+    const measurements = { piuHigh: 1000, piuLow: 900 };
+    applyCalculations(measurements);
+    expect(measurements).toEqual({ piuHigh: 1000, piuLow: 900 });
+  });
+});
+
+describe('evaluateACR', () => {
+  it('passes every test when both series are complete and within limits', () => {
+    const evaluation = evaluateACR({ t1: PASSING_SERIES, t2: PASSING_SERIES }, 1.5);
+    for (const { series, overall } of Object.values(evaluation)) {
+      expect(series).toEqual({ t1: 'pass', t2: 'pass' });
+      expect(overall).toBe('pass');
+    }
+  });
+
+  it('keeps a series incomplete until every required field is entered', () => {
+    const evaluation = evaluateACR({ t1: { geoSagittal: 148 }, t2: PASSING_SERIES }, 1.5);
+    expect(evaluation.geometric_accuracy.series.t1).toBe('incomplete');
+    expect(evaluation.geometric_accuracy.overall).toBe('incomplete');
+  });
+
+  it('fails a complete series with a value outside the limits', () => {
+    // Slice 1 vertical 186.5 mm is 3.5 mm short of 190 ± 2 mm
+    const t1 = { ...PASSING_SERIES, geoSlice1Vertical: 186.5 };
+    const evaluation = evaluateACR({ t1, t2: PASSING_SERIES }, 1.5);
+    expect(evaluation.geometric_accuracy.series.t1).toBe('fail');
+    expect(evaluation.geometric_accuracy.overall).toBe('fail');
+  });
+
+  it('keeps the overall result incomplete until both T1 and T2 are evaluated', () => {
+    const failing = { ...PASSING_SERIES, ghosting: 3.1 };
+    const evaluation = evaluateACR({ t1: failing }, 1.5);
+    expect(evaluation.ghosting.series).toEqual({ t1: 'fail', t2: 'incomplete' });
+    expect(evaluation.ghosting.overall).toBe('incomplete');
+    expect(evaluation.uniformity.overall).toBe('incomplete');
+  });
+
+  it('applies the 3T limits', () => {
+    // PIU 85 % passes ≥ 82 % at 3T but fails ≥ 87.5 % below 3T
+    const series = { ...PASSING_SERIES, piu: 85 };
+    expect(evaluateACR({ t1: series, t2: series }, 3).uniformity.overall).toBe('pass');
+    expect(evaluateACR({ t1: series, t2: series }, 1.5).uniformity.overall).toBe('fail');
+  });
+});
+
+describe('combineResults', () => {
+  it('is incomplete while any part is incomplete', () => {
+    expect(combineResults(['pass', 'incomplete'])).toBe('incomplete');
+    expect(combineResults(['fail', 'incomplete'])).toBe('incomplete');
+  });
+
+  it('fails when any evaluated part fails', () => {
+    expect(combineResults(['pass', 'fail'])).toBe('fail');
+    expect(combineResults(['pass', 'pass'])).toBe('pass');
+  });
+});
@@ -0,0 +1,347 @@
+import type { ACRSeries, ACRSeriesMeasurements, ACRTestData } from '../types';
+import {
+  percentIntegralUniformity,
+  percentSignalGhosting,
+  sliceThicknessFromRamps,
+  roundTo,
+} from './calculations';
+
+// ACR MRI accreditation: Large Phantom tests and action limits
+// (ACR Large Phantom Test Guidance for the ACR MRI Accreditation Program)
+
+export type ACRTestId =
+  | 'geometric_accuracy'
+  | 'spatial_resolution'
+  | 'slice_thickness'
+  | 'slice_position'
+  | 'uniformity'
+  | 'ghosting'
+  | 'low_contrast';
+
+export type ACRResult = 'pass' | 'fail' | 'incomplete';
+
+export type ACRFieldKey = keyof ACRSeriesMeasurements;
+
+export interface ACRField {
+  key: ACRFieldKey;
+  label: string;
+  unit?: string;
+  step?: number;
+}
+
+export interface ACRCalculator {
+  /** Raw ROI means / lengths entered by the physicist */
+  inputs: ACRField[];
+  /** Field filled in from the inputs */
+  output: ACRFieldKey;
+  /** Null until every input is entered */
+  calculate: (m: ACRSeriesMeasurements) => number | null;
+}
+
+export interface ACRTestDefinition {
+  id: ACRTestId;
+  label: string;
+  fields: ACRField[];
+  calculator?: ACRCalculator;
+  /** Human-readable action limit for the given field strength (tesla) */
+  limit: (fieldStrength: number) => string;
+  evaluate: (m: ACRSeriesMeasurements, fieldStrength: number) => ACRResult;
+}
+
+export const ACR_SERIES: { id: ACRSeries; label: string }[] = [
+  { id: 't1', label: 'ACR T1' },
+  { id: 't2', label: 'ACR T2' },
+];
+
+export const ACR_LIMITS = {
+  geometricTolerance: 2, // mm
+  geometricSagittal: 148, // mm
+  geometricAxial: 190, // mm
+  resolution: 1.0, // mm
+  sliceThickness: 5.0, // mm
+  sliceThicknessTolerance: 0.7, // mm
+  slicePosition: 5, // mm
+  piuLowField: 87.5, // %, below 3T
+  piuHighField: 82.0, // %, 3T
+  ghosting: 2.5, // %
+  lcdLowField: 9, // total spokes, below 3T
+  lcdHighField: 37, // total spokes, 3T
+};
+
+const HIGH_FIELD = 3;
+
+/** Limits for < 3T apply when a scanner's field strength is not recorded */
+export const DEFAULT_FIELD_STRENGTH = 1.5;
+
+/** Parse an Equipment.fieldStrength string such as "1.5T" or "3 T" to tesla */
+export function parseFieldStrength(fieldStrength: string | undefined): number | null {
+  if (!fieldStrength) return null;
+  const value = parseFloat(fieldStrength.replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+}
+
+function isHighField(fieldStrength: number) {
+  return fieldStrength >= HIGH_FIELD;
+}
+
+// Check every required value; incomplete until all of them are entered
+function evaluateAll(
+  values: (number | undefined)[],
+  check: (value: number) => boolean
+): ACRResult {
+  const entered = values.filter((value): value is number => value !== undefined);
+  if (entered.length < values.length) return 'incomplete';
+  return entered.every(check) ? 'pass' : 'fail';
+}
+
+export const ACR_TESTS: ACRTestDefinition[] = [
+  {
+    id: 'geometric_accuracy',
+    label: 'Geometric Accuracy',
+    fields: [
+      { key: 'geoSagittal', label: 'Sagittal localizer length', unit: 'mm', step: 0.1 },
+      { key: 'geoSlice1Vertical', label: 'Slice 1 vertical', unit: 'mm', step: 0.1 },
+      { key: 'geoSlice1Horizontal', label: 'Slice 1 horizontal', unit: 'mm', step: 0.1 },
+      { key: 'geoSlice5Vertical', label: 'Slice 5 vertical', unit: 'mm', step: 0.1 },
+      { key: 'geoSlice5Horizontal', label: 'Slice 5 horizontal', unit: 'mm', step: 0.1 },
+      { key: 'geoSlice5DiagonalA', label: 'Slice 5 diagonal (↘)', unit: 'mm', step: 0.1 },
+      { key: 'geoSlice5DiagonalB', label: 'Slice 5 diagonal (↗)', unit: 'mm', step: 0.1 },
+    ],
+    limit: () => `${ACR_LIMITS.geometricSagittal} / ${ACR_LIMITS.geometricAxial} ± ${ACR_LIMITS.geometricTolerance} mm`,
+    evaluate: m => {
+      const sagittal = evaluateAll(
+        [m.geoSagittal],
+        v => Math.abs(v - ACR_LIMITS.geometricSagittal) <= ACR_LIMITS.geometricTolerance
+      );
+      const axial = evaluateAll(
+        [
+          m.geoSlice1Vertical,
+          m.geoSlice1Horizontal,
+          m.geoSlice5Vertical,
+          m.geoSlice5Horizontal,
+          m.geoSlice5DiagonalA,
+          m.geoSlice5DiagonalB,
+        ],
+        v => Math.abs(v - ACR_LIMITS.geometricAxial) <= ACR_LIMITS.geometricTolerance
+      );
+      return combineResults([sagittal, axial]);
+    },
+  },
+  {
+    id: 'spatial_resolution',
+    label: 'High-Contrast Spatial Resolution',
+    fields: [
+      { key: 'resolutionUL', label: 'Upper-left (smallest resolved)', unit: 'mm', step: 0.1 },
+      { key: 'resolutionLR', label: 'Lower-right (smallest resolved)', unit: 'mm', step: 0.1 },
+    ],
+    limit: () => `≤ ${ACR_LIMITS.resolution.toFixed(1)} mm`,
+    evaluate: m => evaluateAll(
+      [m.resolutionUL, m.resolutionLR],
+      v => v <= ACR_LIMITS.resolution
+    ),
+  },
+  {
+    id: 'slice_thickness',
+    label: 'Slice Thickness Accuracy',
+    fields: [
+      { key: 'sliceThickness', label: 'Measured slice thickness', unit: 'mm', step: 0.01 },
+    ],
+    calculator: {
+      inputs: [
+        { key: 'sliceRampTop', label: 'Top ramp length (FWHM)', unit: 'mm', step: 0.1 },
+        { key: 'sliceRampBottom', label: 'Bottom ramp length (FWHM)', unit: 'mm', step: 0.1 },
+      ],
+      output: 'sliceThickness',
+      calculate: m => m.sliceRampTop === undefined || m.sliceRampBottom === undefined
+        ? null
+        : roundTo(sliceThicknessFromRamps(m.sliceRampTop, m.sliceRampBottom), 2),
+    },
+    limit: () => `${ACR_LIMITS.sliceThickness.toFixed(1)} ± ${ACR_LIMITS.sliceThicknessTolerance} mm`,
+    evaluate: m => evaluateAll(
+      [m.sliceThickness],
+      v => Math.abs(v - ACR_LIMITS.sliceThickness) <= ACR_LIMITS.sliceThicknessTolerance
+    ),
+  },
+  {
+    id: 'slice_position',
+    label: 'Slice Position Accuracy',
+    fields: [
+      { key: 'slicePosition1', label: 'Slice 1 bar length difference', unit: 'mm', step: 0.1 },
+      { key: 'slicePosition11', label: 'Slice 11 bar length difference', unit: 'mm', step: 0.1 },
+    ],
+    limit: () => `|Δ| ≤ ${ACR_LIMITS.slicePosition} mm`,
+    evaluate: m => evaluateAll(
+      [m.slicePosition1, m.slicePosition11],
+      v => Math.abs(v) <= ACR_LIMITS.slicePosition
+    ),
+  },
+  {
+    id: 'uniformity',
+    label: 'Image Intensity Uniformity (PIU)',
+    fields: [
+      { key: 'piu', label: 'PIU', unit: '%', step: 0.1 },
+    ],
+    calculator: {
+      inputs: [
+        { key: 'piuHigh', label: 'High-signal ROI mean', step: 0.1 },
+        { key: 'piuLow', label: 'Low-signal ROI mean', step: 0.1 },
+      ],
+      output: 'piu',
+      calculate: m => m.piuHigh === undefined || m.piuLow === undefined
+        ? null
+        : roundTo(percentIntegralUniformity(m.piuHigh, m.piuLow), 1),
+    },
+    limit: fieldStrength => `≥ ${piuLimit(fieldStrength)}%`,
+    evaluate: (m, fieldStrength) => evaluateAll(
+      [m.piu],
+      v => v >= piuLimit(fieldStrength)
+    ),
+  },
+  {
+    id: 'ghosting',
+    label: 'Percent Signal Ghosting',
+    fields: [
+      { key: 'ghosting', label: 'Percent signal ghosting', unit: '%', step: 0.01 },
+    ],
+    calculator: {
+      inputs: [
+        { key: 'ghostLarge', label: 'Large ROI mean', step: 0.1 },
+        { key: 'ghostTop', label: 'Top background ROI mean', step: 0.1 },
+        { key: 'ghostBottom', label: 'Bottom background ROI mean', step: 0.1 },
+        { key: 'ghostLeft', label: 'Left background ROI mean', step: 0.1 },
+        { key: 'ghostRight', label: 'Right background ROI mean', step: 0.1 },
+      ],
+      output: 'ghosting',
+      calculate: m => {
+        const { ghostLarge, ghostTop, ghostBottom, ghostLeft, ghostRight } = m;
+        if (
+          ghostLarge === undefined
+          || ghostTop === undefined
+          || ghostBottom === undefined
+          || ghostLeft === undefined
+          || ghostRight === undefined
+        ) {
+          return null;
+        }
+        return roundTo(percentSignalGhosting({
+          large: ghostLarge,
+          top: ghostTop,
+          bottom: ghostBottom,
+          left: ghostLeft,
+          right: ghostRight,
+        }), 2);
+      },
+    },
+    limit: () => `≤ ${ACR_LIMITS.ghosting}%`,
+    evaluate: m => evaluateAll(
+      [m.ghosting],
+      v => v <= ACR_LIMITS.ghosting
+    ),
+  },
+  {
+    id: 'low_contrast',
+    label: 'Low-Contrast Object Detectability',
+    fields: [
+      { key: 'lcdSlice8', label: 'Slice 8 spokes', step: 1 },
+      { key: 'lcdSlice9', label: 'Slice 9 spokes', step: 1 },
+      { key: 'lcdSlice10', label: 'Slice 10 spokes', step: 1 },
+      { key: 'lcdSlice11', label: 'Slice 11 spokes', step: 1 },
+    ],
+    limit: fieldStrength => `total ≥ ${lcdLimit(fieldStrength)} spokes`,
+    evaluate: (m, fieldStrength) => {
+      const total = lcdTotal(m);
+      if (total === null) return 'incomplete';
+      return total >= lcdLimit(fieldStrength) ? 'pass' : 'fail';
+    },
+  },
+];
+
+export interface ACRCalculationResult {
+  values: ACRSeriesMeasurements;
+  /** Derived fields that were calculated from raw inputs */
+  calculated: ACRFieldKey[];
+  /** Calculator errors (e.g. low ROI above high ROI), keyed by output field */
+  errors: Partial<Record<ACRFieldKey, string>>;
+}
+
+/**
+ * Fill derived values (PIU, ghosting, slice thickness) from raw ROI inputs.
+ * Entered derived values are kept when their raw inputs are incomplete, and
+ * dropped when the inputs are rejected so no value contradicts them.
+ */
+export function applyCalculations(m: ACRSeriesMeasurements): ACRCalculationResult {
+  const values = { ...m };
+  const calculated: ACRFieldKey[] = [];
+  const errors: ACRCalculationResult['errors'] = {};
+
+  for (const test of ACR_TESTS) {
+    const calculator = test.calculator;
+    if (!calculator) continue;
+    try {
+      const result = calculator.calculate(m);
+      if (result !== null) {
+        values[calculator.output] = result;
+        calculated.push(calculator.output);
+      }
+    } catch (err) {
+      delete values[calculator.output];
+      errors[calculator.output] = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  return { values, calculated, errors };
+}
+
+export function piuLimit(fieldStrength: number) {
+  return isHighField(fieldStrength) ? ACR_LIMITS.piuHighField : ACR_LIMITS.piuLowField;
+}
+
+export function lcdLimit(fieldStrength: number) {
+  return isHighField(fieldStrength) ? ACR_LIMITS.lcdHighField : ACR_LIMITS.lcdLowField;
+}
+
+/** Total spokes over slices 8–11, or null until all four slices are scored */
+export function lcdTotal(m: ACRSeriesMeasurements): number | null {
+  const slices = [m.lcdSlice8, m.lcdSlice9, m.lcdSlice10, m.lcdSlice11];
+  if (slices.some(value => value === undefined)) return null;
+  return slices.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+}
+
+/** Incomplete until every part is evaluated; then fail when any part fails */
+export function combineResults(results: ACRResult[]): ACRResult {
+  if (results.includes('incomplete')) return 'incomplete';
+  return results.includes('fail') ? 'fail' : 'pass';
+}
+
+export type ACREvaluation = Record<ACRTestId, {
+  series: Record<ACRSeries, ACRResult>;
+  overall: ACRResult;
+}>;
+
+/**
+ * Evaluate stored ACR measurements against the action limits for the
+ * scanner's field strength. A test stays 'incomplete' until every field of
+ * both the T1 and T2 series is entered.
+ */
+export function evaluateACR(data: ACRTestData | undefined, fieldStrength: number): ACREvaluation {
+  const evaluation = {} as ACREvaluation;
+
+  for (const test of ACR_TESTS) {
+    const series = {} as Record<ACRSeries, ACRResult>;
+    for (const { id } of ACR_SERIES) {
+      series[id] = test.evaluate(data?.[id] ?? {}, fieldStrength);
+    }
+    evaluation[test.id] = {
+      series,
+      overall: combineResults(Object.values(series)),
+    };
+  }
+
+  return evaluation;
+}
+
+export const ACR_RESULT_LABELS: Record<ACRResult, string> = {
+  pass: 'Pass',
+  fail: 'Fail',
+  incomplete: '—',
+};
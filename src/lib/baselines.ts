@@ -0,0 +1,102 @@
+import { QC_FIELDS, type QCField } from './qc';
+import type { TrendLimits } from './trends';
+import type {
+  Baseline,
+  BaselineKey,
+  BaselineSource,
+  Equipment,
+  QCMeasurements,
+} from '../types';
+
+// Per-scanner QC baselines: reference values plus tolerances in each item's
+// delta unit (center frequency ppm, SNR %, transmitter gain dB)
+
+export const BASELINE_KEYS: BaselineKey[] = ['centerFrequency', 'transmitterGain', 'snr'];
+
+export type BaselineField = QCField & { key: BaselineKey };
+
+export const BASELINE_FIELDS = QC_FIELDS.filter((field): field is BaselineField =>
+  (BASELINE_KEYS as string[]).includes(field.key)
+);
+
+export const DEFAULT_BASELINE_LIMITS: Record<BaselineKey, number> = {
+  centerFrequency: 1.5, // ppm
+  transmitterGain: 1.0, // dB
+  snr: 10, // %
+};
+
+/** Number of QC events averaged when establishing a baseline from QC */
+export const DEFAULT_BASELINE_QC_COUNT = 5;
+
+export const BASELINE_SOURCE_LABELS: Record<BaselineSource, string> = {
+  acceptance_test: 'Acceptance test',
+  qc_mean: 'Mean of QC',
+  manual: 'Entered manually',
+  coil_qc: 'Coil QC',
+};
+
+export const BASELINE_RESET_REASONS = ['Major repair', 'Software upgrade', 'Other'];
+
+export function limitUnit(field: QCField): string {
+  switch (field.deltaMode) {
+    case 'ppm':
+      return 'ppm';
+    case 'percent':
+      return '%';
+    case 'absolute':
+      return field.unit ?? '';
+  }
+}
+
+/** Mean of each baseline item over the given QC measurements */
+export function meanBaselineValues(measurements: (QCMeasurements | undefined)[]) {
+  const values: Baseline['values'] = {};
+  for (const key of BASELINE_KEYS) {
+    const recorded = measurements
+      .map(qc => qc?.[key])
+      .filter((value): value is number => value !== undefined);
+    if (recorded.length > 0) {
+      values[key] = recorded.reduce((sum, value) => sum + value, 0) / recorded.length;
+    }
+  }
+  return values;
+}
+
+/** Acceptable range around a baseline value, in the item's own unit */
+export function baselineRange(
+  field: QCField,
+  reference: number,
+  tolerance: number
+): TrendLimits {
+  const halfWidth = field.deltaMode === 'ppm'
+    ? Math.abs(reference) * tolerance / 1e6
+    : field.deltaMode === 'percent'
+      ? Math.abs(reference) * tolerance / 100
+      : tolerance;
+  return { min: reference - halfWidth, max: reference + halfWidth };
+}
+
+export function getBaselineRange(baseline: Baseline, key: BaselineKey): TrendLimits | null {
+  const field = BASELINE_FIELDS.find(f => f.key === key);
+  const reference = baseline.values[key];
+  const tolerance = baseline.limits[key];
+  if (!field || reference === undefined || tolerance === undefined) return null;
+  return baselineRange(field, reference, tolerance);
+}
+
+/** The baseline version in effect at a date: the first not superseded by then */
+export function baselineAt(baselines: Baseline[], date: Date): Baseline | undefined {
+  return baselines
+    .slice()
+    .sort((a, b) => a.version - b.version)
+    .find(baseline => !baseline.supersededAt || baseline.supersededAt > date);
+}
+
+export function getCurrentBaseline(baselines: Baseline[]): Baseline | undefined {
+  return baselines.find(baseline => !baseline.supersededAt);
+}
+
+/** True when the scanner's software changed since the baseline was established */
+export function isBaselineStale(baseline: Baseline, equipment: Equipment): boolean {
+  return (baseline.softwareVersion ?? '') !== (equipment.softwareVersion ?? '');
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  percentIntegralUniformity,
+  percentSignalGhosting,
+  roundTo,
+  sliceThicknessFromRamps,
+} from './calculations';
+
+describe('percentIntegralUniformity', () => {
+  it('computes PIU from the high and low ROI means', () => {
+    // 100 · (1 − 100 / 1900) = 94.736…
+    expect(percentIntegralUniformity(1000, 900)).toBeCloseTo(94.7368, 4);
+    // 100 · (1 − 250 / 1750) = 85.714…
+    expect(percentIntegralUniformity(1000, 750)).toBeCloseTo(85.7143, 4);
+  });
+
+  it('is 100 % for a perfectly uniform phantom', () => {
+    expect(percentIntegralUniformity(850, 850)).toBe(100);
+  });
+
+  it('rejects a low ROI mean above the high ROI mean', () => {
+    expect(() => percentIntegralUniformity(900, 1000)).toThrow(RangeError);
+  });
+
+  it('rejects non-positive and non-finite means', () => {
+    expect(() => percentIntegralUniformity(0, 0)).toThrow(RangeError);
+    expect(() => percentIntegralUniformity(1000, -5)).toThrow(RangeError);
+    expect(() => percentIntegralUniformity(NaN, 900)).toThrow(RangeError);
+  });
+});
+
+describe('percentSignalGhosting', () => {
+  it('computes ghosting from the large and background ROI means', () => {
+    // 100 · |(12 + 10) − (6 + 4)| / (2 · 1000) = 0.6
+    expect(percentSignalGhosting({ large: 1000, top: 12, bottom: 10, left: 6, right: 4 }))
+      .toBeCloseTo(0.6, 10);
+  });
+
+  it('is the absolute value when the left and right ROIs are brighter', () => {
+    // 100 · |(4 + 6) − (10 + 12)| / (2 · 1000) = 0.6
+    expect(percentSignalGhosting({ large: 1000, top: 4, bottom: 6, left: 10, right: 12 }))
+      .toBeCloseTo(0.6, 10);
+  });
+
+  it('accepts zero background means', () => {
+    expect(percentSignalGhosting({ large: 800, top: 0, bottom: 0, left: 0, right: 0 })).toBe(0);
+  });
+
+  it('rejects a non-positive large ROI mean', () => {
+    expect(() => percentSignalGhosting({ large: 0, top: 1, bottom: 1, left: 1, right: 1 }))
+      .toThrow(RangeError);
+  });
+
+  it('rejects negative background means', () => {
+    expect(() => percentSignalGhosting({ large: 1000, top: -1, bottom: 1, left: 1, right: 1 }))
+      .toThrow(RangeError);
+  });
+});
+
+describe('sliceThicknessFromRamps', () => {
+  it('computes slice thickness from the ramp lengths', () => {
+    // 0.2 · (50 · 50) / (50 + 50) = 5.0
+    expect(sliceThicknessFromRamps(50, 50)).toBeCloseTo(5, 10);
+    // 0.2 · (48 · 52) / (48 + 52) = 4.992
+    expect(sliceThicknessFromRamps(48, 52)).toBeCloseTo(4.992, 10);
+  });
+
+  it('rejects non-positive ramp lengths', () => {
+    expect(() => sliceThicknessFromRamps(0, 50)).toThrow(RangeError);
+    expect(() => sliceThicknessFromRamps(50, -1)).toThrow(RangeError);
+  });
+});
+
+describe('roundTo', () => {
+  it('rounds to the given number of decimals', () => {
+    expect(roundTo(94.7368, 1)).toBe(94.7);
+    expect(roundTo(4.992, 2)).toBe(4.99);
+    expect(roundTo(0.125, 2)).toBe(0.13);
+    expect(roundTo(1234.5678, 0)).toBe(1235);
+  });
+});
@@ -0,0 +1,58 @@
+// Derived ACR phantom metrics from raw ROI measurements.
+// Pure functions so results are reproducible from the stored raw values.
+
+function assertPositive(name: string, value: number) {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new RangeError(`${name} must be a positive number`);
+  }
+}
+
+/**
+ * Percent integral uniformity from the high- and low-signal ROI means
+ * (slice 7): PIU = 100 · (1 − (high − low) / (high + low)).
+ */
+export function percentIntegralUniformity(high: number, low: number): number {
+  assertPositive('High ROI mean', high);
+  assertPositive('Low ROI mean', low);
+  if (low > high) {
+    throw new RangeError('Low ROI mean must not exceed high ROI mean');
+  }
+  return 100 * (1 - (high - low) / (high + low));
+}
+
+export interface GhostingROIs {
+  large: number;
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+/**
+ * Percent signal ghosting from the large phantom ROI and the four background
+ * ROIs (slice 7): 100 · |((top + bottom) − (left + right)) / (2 · large)|.
+ */
+export function percentSignalGhosting({ large, top, bottom, left, right }: GhostingROIs): number {
+  assertPositive('Large ROI mean', large);
+  for (const [name, value] of Object.entries({ top, bottom, left, right })) {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new RangeError(`${name} ROI mean must be zero or greater`);
+    }
+  }
+  return 100 * Math.abs(((top + bottom) - (left + right)) / (2 * large));
+}
+
+/**
+ * Slice thickness (mm) from the full-width-half-maximum lengths of the top
+ * and bottom signal ramps (slice 1): 0.2 · (top · bottom) / (top + bottom).
+ */
+export function sliceThicknessFromRamps(top: number, bottom: number): number {
+  assertPositive('Top ramp length', top);
+  assertPositive('Bottom ramp length', bottom);
+  return 0.2 * (top * bottom) / (top + bottom);
+}
+
+export function roundTo(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,115 @@
+import type { Baseline, CoilQCMeasurements, Equipment, QCCheckResult, SupportEvent } from '../types';
+
+// RF coils: inventory details and coil QC (coil_qc events) against the coil's baseline
+
+export const COIL_ANATOMY_OPTIONS = [
+  'Head',
+  'Head/Neck',
+  'Spine',
+  'Body',
+  'Breast',
+  'Shoulder',
+  'Knee',
+  'Wrist/Hand',
+  'Foot/Ankle',
+  'Flex',
+];
+
+export const COIL_QC_TITLE = 'Coil QC';
+
+// Default action limits for a new coil baseline
+export const DEFAULT_COIL_SNR_LIMIT = 10; // % below baseline, composite and per element
+export const DEFAULT_COIL_UNIFORMITY_LIMIT = 10; // percentage points below baseline
+
+/** "Head/Neck • 20 ch" */
+export function describeCoil(coil: Equipment) {
+  return [coil.coilAnatomy, coil.channelCount && `${coil.channelCount} ch`]
+    .filter(Boolean)
+    .join(' • ');
+}
+
+export function isCoilQCEmpty(qc: CoilQCMeasurements | undefined): boolean {
+  return !qc || (qc.snr === undefined && qc.uniformity === undefined && !qc.elementSnr?.length);
+}
+
+/** One measurement compared with the baseline; `delta` is % for SNR, points for uniformity */
+export interface CoilQCFinding {
+  label: string;
+  value: number;
+  reference: number;
+  delta: number;
+  limit: number;
+  pass: boolean;
+}
+
+/**
+ * Composite SNR, each element's SNR and uniformity against the baseline
+ * (elements not entered yet are skipped). Only drops fail: a coil measuring
+ * better than its baseline passes.
+ */
+export function evaluateCoilQC(
+  qc: Omit<CoilQCMeasurements, 'elementSnr'> & { elementSnr?: (number | undefined)[] },
+  baseline: Baseline | undefined
+): CoilQCFinding[] {
+  if (!baseline) return [];
+  const findings: CoilQCFinding[] = [];
+  const snrLimit = baseline.limits.snr;
+
+  const compareSnr = (label: string, value: number | undefined, reference: number | undefined) => {
+    if (value === undefined || reference === undefined || snrLimit === undefined) return;
+    const delta = ((value - reference) / reference) * 100;
+    findings.push({ label, value, reference, delta, limit: snrLimit, pass: delta >= -snrLimit });
+  };
+
+  compareSnr('Composite SNR', qc.snr, baseline.values.snr);
+  qc.elementSnr?.forEach((value, index) => {
+    compareSnr(`Element ${index + 1} SNR`, value, baseline.elementSnr?.[index]);
+  });
+
+  const { uniformity, uniformityLimit } = baseline;
+  if (qc.uniformity !== undefined && uniformity !== undefined && uniformityLimit !== undefined) {
+    const delta = qc.uniformity - uniformity;
+    findings.push({
+      label: 'Uniformity',
+      value: qc.uniformity,
+      reference: uniformity,
+      delta,
+      limit: uniformityLimit,
+      pass: delta >= -uniformityLimit,
+    });
+  }
+  return findings;
+}
+
+/** Overall result; undefined when nothing could be compared */
+export function coilQCResult(findings: CoilQCFinding[]): QCCheckResult | undefined {
+  if (findings.length === 0) return undefined;
+  return findings.every(finding => finding.pass) ? 'pass' : 'fail';
+}
+
+/** Latest completed coil QC with measurements */
+export function lastCoilQC(events: SupportEvent[]): SupportEvent | undefined {
+  return events
+    .filter(event =>
+      event.type === 'coil_qc' && event.status === 'completed' && event.completedAt
+      && !isCoilQCEmpty(event.coilQC)
+    )
+    .sort((a, b) => b.completedAt!.getTime() - a.completedAt!.getTime())[0];
+}
+
+/**
+ * Coils used with the room's scanners: those set as compatible with one of
+ * them, plus coils kept in the room without a compatible scanner set.
+ */
+export function roomCoils(equipment: Equipment[], roomId: string): Equipment[] {
+  const scannerIds = new Set(equipment
+    .filter(item => item.type === 'mri_scanner' && item.roomId === roomId)
+    .map(item => item.id));
+  return equipment
+    .filter(item => item.type === 'coil' && (
+      item.compatibleScannerId
+        ? scannerIds.has(item.compatibleScannerId)
+        : item.roomId === roomId
+    ))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
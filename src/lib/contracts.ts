@@ -0,0 +1,123 @@
+import { differenceInCalendarDays, startOfDay, subDays } from 'date-fns';
+import { formatDate } from './dates';
+import type { ContractReminder, Equipment, ServiceContractType } from '../types';
+
+// Service contract and warranty expiry: status, listing and reminders
+
+export const SERVICE_CONTRACT_TYPE_LABELS: Record<ServiceContractType, string> = {
+  full: 'Full service',
+  parts_only: 'Parts only',
+  labor_only: 'Labor only',
+  preventive: 'Preventive maintenance',
+  time_and_materials: 'Time and materials',
+  other: 'Other',
+};
+
+export type ExpiryKind = 'contract' | 'warranty';
+
+export const EXPIRY_KIND_LABELS: Record<ExpiryKind, string> = {
+  contract: 'Service contract',
+  warranty: 'Warranty',
+};
+
+export function getExpiry(equipment: Equipment, kind: ExpiryKind) {
+  return kind === 'contract' ? equipment.serviceContractExpiry : equipment.warrantyExpiry;
+}
+
+export function daysUntil(date: Date, now = new Date()) {
+  return differenceInCalendarDays(date, now);
+}
+
+/** Badge for an expiry: past, inside the longest reminder lead time, or fine */
+export function expiryStatus(daysLeft: number, leadTimes: number[]): 'expired' | 'expiring' | 'ok' {
+  if (daysLeft < 0) return 'expired';
+  return daysLeft <= Math.max(0, ...leadTimes) ? 'expiring' : 'ok';
+}
+
+/** "Expires in 12 days", "Expires today", "Expired 3 days ago" */
+export function describeDaysLeft(daysLeft: number) {
+  if (daysLeft === 0) return 'Expires today';
+  if (daysLeft > 0) return `Expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+  return `Expired ${-daysLeft} day${daysLeft === -1 ? '' : 's'} ago`;
+}
+
+/** Equipment in service with a contract expiring within `warningDays` or already expired, soonest first */
+export function expiringContracts(equipment: Equipment[], warningDays: number, now = new Date()) {
+  return equipment
+    .filter(item => item.status !== 'decommissioned' && item.serviceContractExpiry)
+    .map(item => ({ equipment: item, daysLeft: daysUntil(item.serviceContractExpiry!, now) }))
+    .filter(({ daysLeft }) => daysLeft <= warningDays)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+}
+
+/** Equipment in service by contract expiry, soonest first; items without a contract last */
+export function sortByContractExpiry(equipment: Equipment[]) {
+  return equipment
+    .filter(item => item.status !== 'decommissioned')
+    .sort((a, b) => {
+      const aTime = a.serviceContractExpiry?.getTime() ?? Infinity;
+      const bTime = b.serviceContractExpiry?.getTime() ?? Infinity;
+      return aTime === bTime ? a.name.localeCompare(b.name) : aTime - bTime;
+    });
+}
+
+/** Reminder lead times typed as "90, 60, 30"; null when not a list of whole days */
+export function parseLeadTimes(text: string): number[] | null {
+  const parts = text.split(/[\s,]+/).filter(Boolean);
+  if (parts.length === 0 || parts.some(part => !/^\d+$/.test(part))) return null;
+  const days = new Set(parts.map(Number).filter(day => day > 0));
+  return [...days].sort((a, b) => b - a);
+}
+
+export function formatLeadTimes(days: number[]) {
+  return days.join(', ');
+}
+
+/**
+ * Every reminder for equipment in service: one per lead time before each
+ * contract and warranty expiry, plus one on the day it expires.
+ */
+export function planContractReminders(
+  equipment: Equipment[],
+  leadTimes: number[]
+): Omit<ContractReminder, 'notifiedAt'>[] {
+  const reminders: Omit<ContractReminder, 'notifiedAt'>[] = [];
+  for (const item of equipment) {
+    if (item.status === 'decommissioned') continue;
+
+    for (const kind of ['contract', 'warranty'] as const) {
+      const expiry = getExpiry(item, kind);
+      if (!expiry) continue;
+
+      const group = `${item.id}/${kind}/${formatDate(expiry)}`;
+      const model = [item.manufacturer, item.model].filter(Boolean).join(' ');
+      for (const days of [...leadTimes, 0]) {
+        reminders.push({
+          id: `${group}/${days}`,
+          group,
+          equipmentId: item.id,
+          title: `${EXPIRY_KIND_LABELS[kind]} ${days === 0 ? 'expires today' : 'expiring'}: ${item.name}`,
+          body: `${model} • expires ${formatDate(expiry)}${days === 0 ? '' : ` (${days} days)`}`,
+          fireAt: startOfDay(subDays(expiry, days)),
+        });
+      }
+    }
+  }
+  return reminders;
+}
+
+/**
+ * Reminders to show now: the latest due one of each group. `settled` also
+ * lists the earlier due ones, which are skipped rather than shown late.
+ */
+export function dueReminders(reminders: ContractReminder[], now = new Date()) {
+  const latest = new Map<string, ContractReminder>();
+  const settled: string[] = [];
+  for (const reminder of reminders) {
+    if (reminder.notifiedAt || reminder.fireAt > now) continue;
+    settled.push(reminder.id);
+    const current = latest.get(reminder.group);
+    if (!current || reminder.fireAt > current.fireAt) latest.set(reminder.group, reminder);
+  }
+  return { show: [...latest.values()], settled };
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('starts with a byte order mark and ends rows with CRLF', () => {
+    expect(toCsv(['Name', 'Notes'], [['Coil', undefined]])).toBe('\uFEFFName,Notes\r\nCoil,\r\n');
+  });
+
+  it('quotes fields containing separators, quotes or line breaks', () => {
+    expect(toCsv(['A'], [['x, y'], ['say "hi"'], ['two\nlines']]))
+      .toBe('\uFEFFA\r\n"x, y"\r\n"say ""hi"""\r\n"two\nlines"\r\n');
+  });
+
+  it('neutralizes text that a spreadsheet would run as a formula', () => {
+    expect(toCsv(['A'], [['=SUM(A1)'], ['+1'], ['-1'], ['@cmd'], ['=HYPERLINK("x")']]))
+      .toBe('\uFEFFA\r\n\'=SUM(A1)\r\n\'+1\r\n\'-1\r\n\'@cmd\r\n"\'=HYPERLINK(""x"")"\r\n');
+  });
+
+  it('keeps negative numbers numeric', () => {
+    expect(toCsv(['Offset'], [[-3]])).toBe('\uFEFFOffset\r\n-3\r\n');
+  });
+});
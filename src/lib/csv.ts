@@ -0,0 +1,192 @@
+import { EQUIPMENT_STATUS_LABELS, EQUIPMENT_TYPE_LABELS } from './equipment';
+import { SERVICE_CONTRACT_TYPE_LABELS } from './contracts';
+import { EVENT_STATUS_LABELS, EVENT_TYPE_LABELS, getEventDate } from './events';
+import { formatDate, formatDateTime } from './dates';
+import type {
+  Equipment,
+  ExportData,
+  ExportOptions,
+  Organization,
+  Room,
+  Site,
+  SupportEvent,
+} from '../types';
+
+// CSV export: one spreadsheet per entity type, flattened with parent names
+
+export const CSV_TABLES = ['organizations', 'sites', 'rooms', 'equipment', 'events'] as const;
+
+export type CsvTable = typeof CSV_TABLES[number];
+
+type CsvValue = string | number | undefined;
+
+interface CsvColumn<T> {
+  header: string;
+  value: (record: T) => CsvValue;
+}
+
+// Leading characters that make a spreadsheet evaluate text as a formula
+const FORMULA_START = /^[=+\-@]/;
+
+// Quote fields containing separators, quotes or line breaks (RFC 4180)
+function csvField(value: CsvValue): string {
+  let text = value === undefined ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** CSV text with a UTF-8 byte order mark so Excel detects the encoding */
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function buildCsv<T>(records: T[], columns: CsvColumn<T>[]): string {
+  return toCsv(
+    columns.map(column => column.header),
+    records.map(record => columns.map(column => column.value(record)))
+  );
+}
+
+// One column per custom field key, in order of first appearance
+function customFieldColumns<T extends { customFields?: Record<string, string> }>(
+  records: T[]
+): CsvColumn<T>[] {
+  const keys = new Set(records.flatMap(record => Object.keys(record.customFields ?? {})));
+  return Array.from(keys, key => ({ header: key, value: record => record.customFields?.[key] }));
+}
+
+const contactColumns: CsvColumn<Organization | Site | Room>[] = [
+  { header: 'Contact Name', value: r => r.contactName },
+  { header: 'Contact Phone', value: r => r.contactPhone },
+  { header: 'Contact Email', value: r => r.contactEmail },
+  { header: 'Notes', value: r => r.notes },
+];
+
+const timestampColumns: CsvColumn<{ createdAt: Date; updatedAt: Date }>[] = [
+  { header: 'Created', value: r => formatDateTime(r.createdAt) },
+  { header: 'Updated', value: r => formatDateTime(r.updatedAt) },
+];
+
+/** Events whose list date falls within the range (whole days, inclusive) */
+export function filterEventsByDate(
+  events: SupportEvent[],
+  dateRange: ExportOptions['dateRange']
+): SupportEvent[] {
+  if (!dateRange) return events;
+  const start = new Date(dateRange.start);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(dateRange.end);
+  end.setHours(23, 59, 59, 999);
+  return events.filter(event => {
+    const date = getEventDate(event);
+    return date >= start && date <= end;
+  });
+}
+
+/**
+ * CSV text for one entity type. Parent organization/site/room/equipment
+ * names are included as columns; `options.dateRange` limits events.
+ */
+export function exportCsv(table: CsvTable, data: ExportData, options: ExportOptions): string {
+  const organizations = new Map(data.organizations.map(o => [o.id, o]));
+  const sites = new Map(data.sites.map(s => [s.id, s]));
+  const rooms = new Map(data.rooms.map(r => [r.id, r]));
+  const equipment = new Map(data.equipment.map(e => [e.id, e]));
+
+  const siteOf = (roomId: string) => sites.get(rooms.get(roomId)?.siteId ?? '');
+  const orgOf = (site: Site | undefined) => organizations.get(site?.organizationId ?? '');
+  const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name);
+
+  switch (table) {
+    case 'organizations':
+      return buildCsv([...data.organizations].sort(byName), [
+        { header: 'ID', value: o => o.id },
+        { header: 'Name', value: o => o.name },
+        { header: 'Short Name', value: o => o.shortName },
+        ...contactColumns,
+        ...timestampColumns,
+      ]);
+
+    case 'sites':
+      return buildCsv([...data.sites].sort(byName), [
+        { header: 'ID', value: s => s.id },
+        { header: 'Organization', value: s => organizations.get(s.organizationId)?.name },
+        { header: 'Name', value: s => s.name },
+        { header: 'Address', value: s => s.address },
+        ...contactColumns,
+        ...timestampColumns,
+      ]);
+
+    case 'rooms':
+      return buildCsv([...data.rooms].sort(byName), [
+        { header: 'ID', value: r => r.id },
+        { header: 'Organization', value: r => orgOf(sites.get(r.siteId))?.name },
+        { header: 'Site', value: r => sites.get(r.siteId)?.name },
+        { header: 'Name', value: r => r.name },
+        { header: 'Address', value: r => r.address },
+        ...contactColumns,
+        ...timestampColumns,
+      ]);
+
+    case 'equipment': {
+      const records = [...data.equipment].sort(byName);
+      const columns: CsvColumn<Equipment>[] = [
+        { header: 'ID', value: e => e.id },
+        { header: 'Organization', value: e => orgOf(siteOf(e.roomId))?.name },
+        { header: 'Site', value: e => siteOf(e.roomId)?.name },
+        { header: 'Room', value: e => rooms.get(e.roomId)?.name },
+        { header: 'Name', value: e => e.name },
+        { header: 'Type', value: e => EQUIPMENT_TYPE_LABELS[e.type] },
+        { header: 'Manufacturer', value: e => e.manufacturer },
+        { header: 'Model', value: e => e.model },
+        { header: 'Serial Number', value: e => e.serialNumber },
+        { header: 'Field Strength', value: e => e.fieldStrength },
+        { header: 'Software Version', value: e => e.softwareVersion },
+        { header: 'Install Date', value: e => formatDate(e.installDate) },
+        { header: 'Service Contract Expiry', value: e => formatDate(e.serviceContractExpiry) },
+        { header: 'Service Contract Vendor', value: e => e.serviceContractVendor },
+        {
+          header: 'Service Contract Type',
+          value: e => e.serviceContractType && SERVICE_CONTRACT_TYPE_LABELS[e.serviceContractType],
+        },
+        { header: 'Service Contract Coverage', value: e => e.serviceContractCoverage },
+        { header: 'Warranty Expiry', value: e => formatDate(e.warrantyExpiry) },
+        { header: 'Coil Anatomy', value: e => e.coilAnatomy },
+        { header: 'Channels', value: e => e.channelCount },
+        { header: 'Connector', value: e => e.coilConnector },
+        { header: 'Compatible Scanner', value: e => equipment.get(e.compatibleScannerId ?? '')?.name },
+        { header: 'Part Number', value: e => e.partNumber },
+        { header: 'Status', value: e => EQUIPMENT_STATUS_LABELS[e.status] },
+        { header: 'Notes', value: e => e.notes },
+        ...customFieldColumns(records),
+        ...timestampColumns,
+      ];
+      return buildCsv(records, columns);
+    }
+
+    case 'events': {
+      const records = filterEventsByDate(data.events, options.dateRange)
+        .sort((a, b) => getEventDate(a).getTime() - getEventDate(b).getTime());
+      const columns: CsvColumn<SupportEvent>[] = [
+        { header: 'ID', value: e => e.id },
+        { header: 'Organization', value: e => orgOf(siteOf(e.roomId))?.name },
+        { header: 'Site', value: e => siteOf(e.roomId)?.name },
+        { header: 'Room', value: e => rooms.get(e.roomId)?.name },
+        { header: 'Equipment', value: e => equipment.get(e.equipmentId)?.name },
+        { header: 'Type', value: e => EVENT_TYPE_LABELS[e.type] },
+        { header: 'Status', value: e => EVENT_STATUS_LABELS[e.status] },
+        { header: 'Title', value: e => e.title },
+        { header: 'Date', value: e => formatDate(getEventDate(e)) },
+        { header: 'Scheduled', value: e => formatDate(e.scheduledDate) },
+        { header: 'Started', value: e => formatDateTime(e.startedAt) },
+        { header: 'Completed', value: e => formatDateTime(e.completedAt) },
+        { header: 'Description', value: e => e.description },
+        { header: 'Findings', value: e => e.findings },
+        { header: 'Recommendations', value: e => e.recommendations },
+        ...customFieldColumns(records),
+        ...timestampColumns,
+      ];
+      return buildCsv(records, columns);
+    }
+  }
+}
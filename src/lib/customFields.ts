@@ -0,0 +1,12 @@
+// Conversions between a `customFields` record and editable rows
+
+export function fromCustomFields(record: Record<string, string> | undefined): [string, string][] {
+  return Object.entries(record ?? {});
+}
+
+export function toCustomFields(fields: [string, string][]): Record<string, string> | undefined {
+  const entries = fields
+    .map(([key, value]) => [key.trim(), value.trim()] as const)
+    .filter(([key]) => key);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
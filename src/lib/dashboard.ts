@@ -0,0 +1,81 @@
+import { addDays, startOfDay } from 'date-fns';
+import { getEventDate, groupEvents, isEventOpen } from './events';
+import { DEFAULT_FIELD_STRENGTH, parseFieldStrength } from './acr';
+import { eventQCFailures } from './trends';
+import { expiringContracts } from './contracts';
+import type { Baseline, Equipment, SupportEvent } from '../types';
+
+// Home dashboard: what needs attention today
+
+// Scheduled work listed as upcoming (days ahead)
+export const UPCOMING_DAYS = 14;
+// Items shown per card before "View all"
+export const DASHBOARD_CARD_LIMIT = 5;
+// Entries in the recent activity card
+export const RECENT_ACTIVITY_LIMIT = 8;
+
+export interface DashboardSummary {
+  overdue: SupportEvent[];
+  upcoming: SupportEvent[];
+  failingQC: { equipment: Equipment; event: SupportEvent; failures: string[] }[];
+  expiringContracts: { equipment: Equipment; daysLeft: number }[];
+  openIncidents: SupportEvent[];
+  recentActivity: SupportEvent[];
+}
+
+/** Scanners in service whose latest completed QC check failed something */
+function failingScanners(
+  equipment: Equipment[],
+  events: SupportEvent[],
+  baselines: Baseline[]
+): DashboardSummary['failingQC'] {
+  const latestQC = new Map<string, SupportEvent>();
+  for (const event of events) {
+    if (event.type !== 'qc_check' || event.status !== 'completed' || !event.completedAt) continue;
+    const latest = latestQC.get(event.equipmentId);
+    if (!latest || event.completedAt > latest.completedAt!) latestQC.set(event.equipmentId, event);
+  }
+
+  return equipment
+    .filter(item => item.type === 'mri_scanner' && item.status === 'active')
+    .flatMap(item => {
+      const event = latestQC.get(item.id);
+      if (!event) return [];
+      const failures = eventQCFailures(
+        event,
+        parseFieldStrength(item.fieldStrength) ?? DEFAULT_FIELD_STRENGTH,
+        baselines.filter(baseline => baseline.equipmentId === item.id)
+      );
+      return failures.length > 0 ? [{ equipment: item, event, failures }] : [];
+    })
+    .sort((a, b) => b.event.completedAt!.getTime() - a.event.completedAt!.getTime());
+}
+
+/**
+ * Contracts are listed once they are inside the longest reminder lead time
+ * (`contractWarningDays`) or already expired.
+ */
+export function summarizeDashboard(
+  events: SupportEvent[],
+  equipment: Equipment[],
+  baselines: Baseline[],
+  contractWarningDays: number,
+  now = new Date()
+): DashboardSummary {
+  const { overdue, upcoming } = groupEvents(events, now);
+  const horizon = addDays(startOfDay(now), UPCOMING_DAYS + 1);
+
+  return {
+    overdue,
+    upcoming: upcoming.filter(event => event.scheduledDate && event.scheduledDate < horizon),
+    failingQC: failingScanners(equipment, events, baselines),
+    expiringContracts: expiringContracts(equipment, contractWarningDays, now),
+    openIncidents: events
+      .filter(event => event.type === 'incident' && isEventOpen(event))
+      .sort((a, b) => getEventDate(b).getTime() - getEventDate(a).getTime()),
+    recentActivity: events
+      .slice()
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .slice(0, RECENT_ACTIVITY_LIMIT),
+  };
+}
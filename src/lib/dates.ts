@@ -0,0 +1,23 @@
+import { format, isValid, parseISO } from 'date-fns';
+
+// Date helpers shared by forms and lists
+
+export function formatDate(date: Date | undefined): string {
+  return date && isValid(date) ? format(date, 'yyyy-MM-dd') : '';
+}
+
+export function formatDateTime(date: Date | undefined): string {
+  return date && isValid(date) ? format(date, 'yyyy-MM-dd HH:mm') : '';
+}
+
+/** Value for an <input type="date"> */
+export function toDateInputValue(date: Date | undefined): string {
+  return formatDate(date);
+}
+
+/** Parse an <input type="date"> value as a local date (undefined when empty) */
+export function fromDateInputValue(value: string): Date | undefined {
+  if (!value) return undefined;
+  const date = parseISO(value);
+  return isValid(date) ? date : undefined;
+}
@@ -0,0 +1,26 @@
+// Save a generated file through a temporary download link
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Date stamp used in export filenames (YYYY-MM-DD) */
+export function exportDateStamp(date = new Date()) {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Lower-case, hyphenated form of a name for use in filenames */
+export function fileSlug(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/** Human-readable file size, e.g. "1.2 MB" */
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,17 @@
+import type { Equipment, EquipmentType } from '../types';
+
+export const EQUIPMENT_TYPE_LABELS: Record<EquipmentType, string> = {
+  mri_scanner: 'MRI Scanner',
+  coil: 'Coil',
+  phantom: 'Phantom',
+  workstation: 'Workstation',
+  other: 'Other',
+};
+
+export const EQUIPMENT_STATUS_LABELS: Record<Equipment['status'], string> = {
+  active: 'Active',
+  inactive: 'Inactive',
+  decommissioned: 'Decommissioned',
+};
+
+export const FIELD_STRENGTH_OPTIONS = ['0.55T', '1.0T', '1.5T', '3T', '7T'];
@@ -0,0 +1,85 @@
+import { startOfDay } from 'date-fns';
+import type { EventStatus, EventType, SupportEvent } from '../types';
+
+export const EVENT_TYPE_LABELS: Record<EventType, string> = {
+  acr_test: 'ACR Test',
+  qc_check: 'QC Check',
+  coil_qc: 'Coil QC',
+  acceptance_test: 'Acceptance Test',
+  annual_survey: 'Annual Survey',
+  repair: 'Repair',
+  calibration: 'Calibration',
+  incident: 'Incident',
+  service_call: 'Service Call',
+  consultation: 'Consultation',
+  other: 'Other',
+};
+
+export const EVENT_STATUS_LABELS: Record<EventStatus, string> = {
+  scheduled: 'Scheduled',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+// Allowed status workflow: scheduled → in_progress → completed/cancelled
+export const EVENT_STATUS_TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+  scheduled: ['in_progress', 'completed', 'cancelled'],
+  in_progress: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+export const EVENT_STATUS_ACTIONS: Record<EventStatus, string> = {
+  scheduled: 'Schedule',
+  in_progress: 'Start',
+  completed: 'Complete',
+  cancelled: 'Cancel',
+};
+
+export function isEventOpen(event: SupportEvent): boolean {
+  return event.status === 'scheduled' || event.status === 'in_progress';
+}
+
+export function isEventOverdue(event: SupportEvent, now = new Date()): boolean {
+  return isEventOpen(event)
+    && !!event.scheduledDate
+    && event.scheduledDate < startOfDay(now);
+}
+
+/** The date an event is listed and filtered under */
+export function getEventDate(event: SupportEvent): Date {
+  if (!isEventOpen(event)) {
+    return event.completedAt ?? event.startedAt ?? event.scheduledDate ?? event.createdAt;
+  }
+  return event.scheduledDate ?? event.startedAt ?? event.createdAt;
+}
+
+export interface EventGroups {
+  overdue: SupportEvent[];
+  upcoming: SupportEvent[];
+  completed: SupportEvent[];
+}
+
+export function groupEvents(events: SupportEvent[], now = new Date()): EventGroups {
+  const groups: EventGroups = { overdue: [], upcoming: [], completed: [] };
+
+  for (const event of events) {
+    if (!isEventOpen(event)) {
+      groups.completed.push(event);
+    } else if (isEventOverdue(event, now)) {
+      groups.overdue.push(event);
+    } else {
+      groups.upcoming.push(event);
+    }
+  }
+
+  const byDate = (a: SupportEvent, b: SupportEvent) =>
+    getEventDate(a).getTime() - getEventDate(b).getTime();
+
+  groups.overdue.sort(byDate);
+  groups.upcoming.sort(byDate);
+  groups.completed.sort((a, b) => byDate(b, a));
+
+  return groups;
+}
@@ -0,0 +1,59 @@
+import { CASCADE_LEVELS } from './trash';
+import type { CascadeLevel, HierarchyChain } from '../types';
+
+// Drill-down URLs and breadcrumbs for a resolved hierarchy chain
+
+// Short shareable URLs (/e/<equipment-id>) that redirect to the nested route
+export const SHORT_LINK_PREFIXES: Record<CascadeLevel, string> = {
+  organization: 'o',
+  site: 's',
+  room: 'r',
+  equipment: 'e',
+  event: 'ev',
+};
+
+export function shortLinkPath(level: CascadeLevel, id: string) {
+  return `/${SHORT_LINK_PREFIXES[level]}/${id}`;
+}
+
+/** Canonical nested route of the chain's record, or of one of its ancestors */
+export function hierarchyPath(chain: HierarchyChain, level: CascadeLevel = chain.level): string {
+  const { organization, site, room, equipment, event } = chain;
+  const orgPath = `/organizations/${organization.id}/sites`;
+  if (level === 'organization' || !site) return orgPath;
+
+  const sitePath = `/organizations/${organization.id}/sites/${site.id}/rooms`;
+  if (level === 'site' || !room) return sitePath;
+
+  const roomPath = `${sitePath}/${room.id}`;
+  if (level === 'room' || !equipment) return roomPath;
+
+  const equipmentPath = `${roomPath}/equipment/${equipment.id}`;
+  if (level === 'equipment' || !event) return equipmentPath;
+
+  return `${equipmentPath}/events/${event.id}`;
+}
+
+/** Where the back arrow goes: the parent's page (the organization list for an organization) */
+export function parentPath(chain: HierarchyChain) {
+  const depth = CASCADE_LEVELS.indexOf(chain.level);
+  return depth === 0 ? '/organizations' : hierarchyPath(chain, CASCADE_LEVELS[depth - 1]);
+}
+
+export interface Breadcrumb {
+  level: CascadeLevel;
+  label: string;
+  path: string;
+}
+
+/** Ancestors of the chain's record, organization first */
+export function breadcrumbs(chain: HierarchyChain): Breadcrumb[] {
+  const depth = CASCADE_LEVELS.indexOf(chain.level);
+  return CASCADE_LEVELS.slice(0, depth).map(level => {
+    const record = chain[level]!;
+    const label = level === 'organization'
+      ? chain.organization.shortName || chain.organization.name
+      : 'title' in record ? record.title : record.name;
+    return { level, label, path: hierarchyPath(chain, level) };
+  });
+}
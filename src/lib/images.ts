@@ -0,0 +1,69 @@
+// Image helpers for gallery storage
+
+export const THUMBNAIL_SIZE = 320;
+
+/**
+ * Downscale an image blob so its longest side is at most `maxDimension`.
+ * Returns the original blob when it is already small enough.
+ */
+export async function resizeImage(
+  blob: Blob,
+  maxDimension: number,
+  quality = 0.85
+): Promise<Blob> {
+  const bitmap = await createImageBitmap(blob);
+  const ratio = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+
+  if (ratio === 1 && blob.type === 'image/jpeg') {
+    bitmap.close();
+    return blob;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * ratio);
+  canvas.height = Math.round(bitmap.height * ratio);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Canvas 2D context unavailable');
+  }
+  // JPEG has no alpha channel: flatten transparent images (e.g. logos) onto white
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      result => (result ? resolve(result) : reject(new Error('Image encoding failed'))),
+      'image/jpeg',
+      quality
+    );
+  });
+}
+
+export function createThumbnail(blob: Blob): Promise<Blob> {
+  return resizeImage(blob, THUMBNAIL_SIZE, 0.8);
+}
+
+/** Re-encode an image as a downscaled JPEG with its pixel size, e.g. for PDF reports */
+export async function loadJpeg(
+  blob: Blob,
+  maxDimension: number
+): Promise<{ data: Uint8Array; width: number; height: number }> {
+  const jpeg = await resizeImage(blob, maxDimension);
+  const bitmap = await createImageBitmap(jpeg);
+  const { width, height } = bitmap;
+  bitmap.close();
+  return { data: new Uint8Array(await jpeg.arrayBuffer()), width, height };
+}
+
+/** Parse a comma-separated tag string into a clean, de-duplicated list */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(',')
+    .map(tag => tag.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
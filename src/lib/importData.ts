@@ -0,0 +1,397 @@
+import { EQUIPMENT_STATUS_LABELS, EQUIPMENT_TYPE_LABELS } from './equipment';
+import { EVENT_STATUS_LABELS, EVENT_TYPE_LABELS } from './events';
+import { BASELINE_SOURCE_LABELS } from './baselines';
+import { SCHEDULE_UNIT_LABELS } from './schedules';
+import { SERVICE_CONTRACT_TYPE_LABELS } from './contracts';
+import type { ArchiveImage, ArchiveSnapshotState, ExportData } from '../types';
+
+// JSON export format: validation of files being imported and record diffing
+
+export const EXPORT_VERSION = '1.0';
+
+export const EXPORT_TABLES = [
+  'organizations',
+  'sites',
+  'rooms',
+  'equipment',
+  'events',
+  'timelines',
+  'baselines',
+  'schedules',
+] as const;
+
+export type ExportTable = typeof EXPORT_TABLES[number];
+
+export const EXPORT_TABLE_LABELS: Record<ExportTable, string> = {
+  organizations: 'Organizations',
+  sites: 'Sites',
+  rooms: 'Rooms',
+  equipment: 'Equipment',
+  events: 'Events',
+  timelines: 'Timelines',
+  baselines: 'Baselines',
+  schedules: 'Schedules',
+};
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'date' | 'string[]' | 'object';
+
+interface FieldSpec {
+  kind: FieldKind;
+  optional?: boolean;
+  /** Allowed values for string fields */
+  values?: string[];
+}
+
+type EntitySpec = Record<string, FieldSpec>;
+
+const str: FieldSpec = { kind: 'string' };
+const optStr: FieldSpec = { kind: 'string', optional: true };
+const date: FieldSpec = { kind: 'date' };
+const optDate: FieldSpec = { kind: 'date', optional: true };
+const optObject: FieldSpec = { kind: 'object', optional: true };
+const oneOf = (labels: Record<string, string>): FieldSpec => ({
+  kind: 'string',
+  values: Object.keys(labels),
+});
+
+const timestamps: EntitySpec = { createdAt: date, updatedAt: date };
+
+const contact: EntitySpec = {
+  contactName: optStr,
+  contactPhone: optStr,
+  contactEmail: optStr,
+  notes: optStr,
+};
+
+// Fields checked per entity; other fields are passed through unchanged
+const ENTITY_SPECS: Record<ExportTable, EntitySpec> = {
+  organizations: { id: str, name: str, shortName: optStr, ...contact, ...timestamps },
+  sites: { id: str, organizationId: str, name: str, address: optStr, ...contact, ...timestamps },
+  rooms: { id: str, siteId: str, name: str, address: optStr, ...contact, ...timestamps },
+  equipment: {
+    id: str,
+    roomId: str,
+    type: oneOf(EQUIPMENT_TYPE_LABELS),
+    name: str,
+    manufacturer: str,
+    status: oneOf(EQUIPMENT_STATUS_LABELS),
+    installDate: optDate,
+    serviceContractExpiry: optDate,
+    serviceContractType: { ...oneOf(SERVICE_CONTRACT_TYPE_LABELS), optional: true },
+    warrantyExpiry: optDate,
+    channelCount: { kind: 'number', optional: true },
+    compatibleScannerId: optStr,
+    customFields: optObject,
+    ...timestamps,
+  },
+  events: {
+    id: str,
+    equipmentId: str,
+    roomId: str,
+    type: oneOf(EVENT_TYPE_LABELS),
+    status: oneOf(EVENT_STATUS_LABELS),
+    title: str,
+    scheduledDate: optDate,
+    startedAt: optDate,
+    completedAt: optDate,
+    customFields: optObject,
+    acr: optObject,
+    qc: optObject,
+    coilQC: optObject,
+    scheduleId: optStr,
+    reportTemplateId: optStr,
+    ...timestamps,
+  },
+  timelines: { id: str, eventId: str, name: str, imageIds: { kind: 'string[]' }, ...timestamps },
+  baselines: {
+    id: str,
+    equipmentId: str,
+    version: { kind: 'number' },
+    source: oneOf(BASELINE_SOURCE_LABELS),
+    sourceEventIds: { kind: 'string[]' },
+    values: { kind: 'object' },
+    limits: { kind: 'object' },
+    establishedAt: date,
+    supersededAt: optDate,
+    ...timestamps,
+  },
+  schedules: {
+    id: str,
+    equipmentId: str,
+    eventType: oneOf(EVENT_TYPE_LABELS),
+    title: str,
+    interval: { kind: 'number' },
+    unit: oneOf(SCHEDULE_UNIT_LABELS),
+    anchorDate: optDate,
+    nextDueDate: date,
+    active: { kind: 'boolean' },
+    ...timestamps,
+  },
+};
+
+// Image metadata in a ZIP export manifest
+const IMAGE_SPEC: EntitySpec = {
+  id: str,
+  eventId: optStr,
+  equipmentId: optStr,
+  roomId: optStr,
+  filename: str,
+  mimeType: str,
+  caption: optStr,
+  tags: { kind: 'string[]', optional: true },
+  capturedAt: date,
+  createdAt: date,
+  file: str,
+  thumbnailFile: optStr,
+};
+
+// Device data in a backup snapshot manifest
+const SNAPSHOT_SPECS: Record<keyof ArchiveSnapshotState, EntitySpec> = {
+  reportTemplates: {
+    id: str,
+    name: str,
+    eventType: oneOf(EVENT_TYPE_LABELS),
+    title: str,
+    isDefault: { kind: 'boolean' },
+    logoFile: optStr,
+    logoType: optStr,
+    ...timestamps,
+  },
+  settings: { key: str },
+  contractReminders: {
+    id: str,
+    group: str,
+    equipmentId: str,
+    title: str,
+    body: str,
+    fireAt: date,
+    notifiedAt: optDate,
+  },
+};
+
+const SNAPSHOT_LABELS: Record<keyof ArchiveSnapshotState, string> = {
+  reportTemplates: 'Report templates',
+  settings: 'Settings',
+  contractReminders: 'Contract reminders',
+};
+
+// Tables present in every export since version 1.0
+const REQUIRED_TABLES: ExportTable[] = ['organizations', 'sites', 'rooms', 'equipment', 'events'];
+
+// Parent references checked within the file
+const PARENT_REFERENCES: { table: ExportTable; field: string; parent: ExportTable }[] = [
+  { table: 'sites', field: 'organizationId', parent: 'organizations' },
+  { table: 'rooms', field: 'siteId', parent: 'sites' },
+  { table: 'equipment', field: 'roomId', parent: 'rooms' },
+  { table: 'events', field: 'equipmentId', parent: 'equipment' },
+  { table: 'timelines', field: 'eventId', parent: 'events' },
+  { table: 'baselines', field: 'equipmentId', parent: 'equipment' },
+  { table: 'schedules', field: 'equipmentId', parent: 'equipment' },
+];
+
+const MAX_ERRORS = 20;
+
+export interface ImportValidation {
+  data: ExportData | null;
+  errors: string[];
+  warnings: string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Check one field, converting ISO date strings to Dates; returns an error or null
+function checkField(record: Record<string, unknown>, field: string, spec: FieldSpec): string | null {
+  const value = record[field];
+  if (value === undefined || value === null) {
+    if (spec.optional) {
+      delete record[field];
+      return null;
+    }
+    return `missing ${field}`;
+  }
+
+  switch (spec.kind) {
+    case 'date': {
+      const parsed = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+      if (!parsed || Number.isNaN(parsed.getTime())) return `${field} is not a valid date`;
+      record[field] = parsed;
+      return null;
+    }
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string')
+        ? null
+        : `${field} must be a list of strings`;
+    case 'object':
+      return isRecord(value) ? null : `${field} must be an object`;
+    case 'string':
+      if (typeof value !== 'string') return `${field} must be text`;
+      if (spec.values && !spec.values.includes(value)) return `${field} "${value}" is not recognized`;
+      return null;
+    default:
+      return typeof value === spec.kind ? null : `${field} must be a ${spec.kind}`;
+  }
+}
+
+/**
+ * Validate a parsed export file against the entity types, reviving dates.
+ * Returns the typed data only when there are no errors.
+ */
+export function validateExportData(raw: unknown): ImportValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isRecord(raw)) {
+    return { data: null, errors: ['File is not an MRI Physics Tool export'], warnings };
+  }
+  if (typeof raw.version !== 'string') {
+    errors.push('Missing export version');
+  } else if (raw.version.split('.')[0] !== EXPORT_VERSION.split('.')[0]) {
+    errors.push(`Unsupported export version ${raw.version}`);
+  }
+
+  const data: Record<string, unknown> = {
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    version: raw.version,
+  };
+
+  for (const table of EXPORT_TABLES) {
+    const records = raw[table];
+    if (records === undefined && !REQUIRED_TABLES.includes(table)) continue;
+    if (!Array.isArray(records)) {
+      errors.push(`${EXPORT_TABLE_LABELS[table]}: missing or not a list`);
+      continue;
+    }
+
+    const ids = new Set<string>();
+    const copies = records.map((record, index) => {
+      if (!isRecord(record)) {
+        errors.push(`${EXPORT_TABLE_LABELS[table]} #${index + 1}: not an object`);
+        return record;
+      }
+      const copy = { ...record };
+      for (const [field, spec] of Object.entries(ENTITY_SPECS[table])) {
+        const error = checkField(copy, field, spec);
+        if (error) errors.push(`${EXPORT_TABLE_LABELS[table]} #${index + 1}: ${error}`);
+      }
+      if (typeof copy.id === 'string') {
+        if (ids.has(copy.id)) errors.push(`${EXPORT_TABLE_LABELS[table]}: duplicate id ${copy.id}`);
+        ids.add(copy.id);
+      }
+      return copy;
+    });
+    data[table] = copies;
+  }
+
+  if (errors.length > 0) {
+    const extra = errors.length - MAX_ERRORS;
+    const shown = errors.slice(0, MAX_ERRORS);
+    if (extra > 0) shown.push(`…and ${extra} more`);
+    return { data: null, errors: shown, warnings };
+  }
+
+  // References to parents that are not in the file (fine when merging into existing data)
+  for (const { table, field, parent } of PARENT_REFERENCES) {
+    const records = data[table] as Record<string, unknown>[] | undefined;
+    const parents = data[parent] as { id: string }[] | undefined;
+    if (!records || !parents) continue;
+    const parentIds = new Set(parents.map(p => p.id));
+    const missing = records.filter(record => !parentIds.has(record[field] as string)).length;
+    if (missing > 0) {
+      warnings.push(
+        `${missing} ${EXPORT_TABLE_LABELS[table].toLowerCase()} reference `
+        + `${EXPORT_TABLE_LABELS[parent].toLowerCase()} not in this file`
+      );
+    }
+  }
+
+  return { data: data as unknown as ExportData, errors, warnings };
+}
+
+// Check each record of a manifest list, reviving dates
+function validateList(raw: unknown, label: string, spec: EntitySpec) {
+  if (!Array.isArray(raw)) {
+    return { records: [], errors: [`${label}: missing or not a list`] };
+  }
+
+  const errors: string[] = [];
+  const records = raw.map((record, index) => {
+    if (!isRecord(record)) {
+      errors.push(`${label} #${index + 1}: not an object`);
+      return record;
+    }
+    const copy = { ...record };
+    for (const [field, fieldSpec] of Object.entries(spec)) {
+      const error = checkField(copy, field, fieldSpec);
+      if (error) errors.push(`${label} #${index + 1}: ${error}`);
+    }
+    return copy;
+  });
+
+  return { records, errors: errors.slice(0, MAX_ERRORS) };
+}
+
+/** Validate the image list of a ZIP export manifest, reviving dates */
+export function validateArchiveImages(raw: unknown): { images: ArchiveImage[]; errors: string[] } {
+  const { records, errors } = validateList(raw, 'Images', IMAGE_SPEC);
+  return { images: records as ArchiveImage[], errors };
+}
+
+/** Validate the device data of a backup snapshot manifest, reviving dates */
+export function validateSnapshotState(raw: unknown): {
+  state: ArchiveSnapshotState | null;
+  errors: string[];
+} {
+  if (!isRecord(raw)) return { state: null, errors: ['Snapshot data is not an object'] };
+
+  const errors: string[] = [];
+  const state: Record<string, unknown> = {};
+  for (const [key, spec] of Object.entries(SNAPSHOT_SPECS)) {
+    const list = validateList(raw[key], SNAPSHOT_LABELS[key as keyof ArchiveSnapshotState], spec);
+    state[key] = list.records;
+    errors.push(...list.errors);
+  }
+
+  return {
+    state: errors.length === 0 ? state as unknown as ArchiveSnapshotState : null,
+    errors: errors.slice(0, MAX_ERRORS),
+  };
+}
+
+/** Parse and validate the text of an export file */
+export function parseExportFile(text: string): ImportValidation {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { data: null, errors: ['File is not valid JSON'], warnings: [] };
+  }
+  return validateExportData(raw);
+}
+
+// JSON with sorted keys so records compare equal regardless of field order
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (isRecord(v) && !(v instanceof Date)) {
+      return Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)));
+    }
+    return v;
+  });
+}
+
+export type RecordChange = 'new' | 'changed' | 'conflicting' | 'unchanged';
+
+/**
+ * Compare an imported record with the local one by id and updatedAt:
+ * changed when the import is newer, conflicting when the local copy is
+ * newer or both differ with the same timestamp.
+ */
+export function classifyRecord<T extends { updatedAt: Date }>(
+  local: T | undefined,
+  incoming: T
+): RecordChange {
+  if (!local) return 'new';
+  if (stableStringify(local) === stableStringify(incoming)) return 'unchanged';
+  return incoming.updatedAt.getTime() > local.updatedAt.getTime() ? 'changed' : 'conflicting';
+}
@@ -0,0 +1,262 @@
+// Minimal PDF 1.4 writer for reports generated in the browser: text in the
+// standard Helvetica fonts (no embedding), lines, filled rectangles and JPEG
+// images. Coordinates are in points from the top-left corner of the page.
+
+export const PAGE_WIDTH = 612; // US Letter, 8.5 × 11 in
+export const PAGE_HEIGHT = 792;
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  /** Gray level 0 (black) to 1 (white) */
+  gray?: number;
+}
+
+export interface PdfJpeg {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+};
+
+// Advance widths (1/1000 em) of ASCII 32–126 from the Adobe Helvetica AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const DEFAULT_WIDTH = 556;
+
+// Characters outside WinAnsiEncoding that appear in app labels
+const SUBSTITUTIONS: Record<string, string> = {
+  '≤': '<=',
+  '≥': '>=',
+  '−': '-',
+  'Δ': 'delta ',
+  '↗': '',
+  '↘': '',
+};
+
+// WinAnsiEncoding codes 0x80–0x9F (the rest of 0xA0–0xFF matches Latin-1)
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87,
+  'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91,
+  '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98,
+  '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/** Text as WinAnsi character codes; unsupported characters become '?' */
+function winAnsiCodes(text: string): number[] {
+  const codes: number[] = [];
+  for (const char of text) {
+    const substitute = SUBSTITUTIONS[char];
+    if (substitute !== undefined) {
+      codes.push(...winAnsiCodes(substitute));
+      continue;
+    }
+    const code = char.codePointAt(0) ?? 63;
+    if (code === 0x09) codes.push(0x20);
+    else if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) codes.push(code);
+    else codes.push(WIN_ANSI_EXTRAS[char] ?? 63);
+  }
+  return codes;
+}
+
+// Literal string operand for a content stream
+function pdfString(codes: number[]): string {
+  let out = '(';
+  for (const code of codes) {
+    if (code === 0x28 || code === 0x29 || code === 0x5c) out += `\\${String.fromCharCode(code)}`;
+    else out += String.fromCharCode(code);
+  }
+  return out + ')';
+}
+
+// One byte per character; callers only pass characters below 256
+function latin1(text: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i);
+  return bytes;
+}
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private pageImages: Set<number>[] = [];
+  private images: PdfJpeg[] = [];
+  private current = -1;
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  get pageIndex() {
+    return this.current;
+  }
+
+  addPage() {
+    this.pages.push([]);
+    this.pageImages.push(new Set());
+    this.current = this.pages.length - 1;
+  }
+
+  /** Draw on an earlier page, e.g. to add "page n of N" footers */
+  setPage(index: number) {
+    this.current = index;
+  }
+
+  /** Width of a single line of text in points */
+  textWidth(text: string, { size = 10, font = 'regular' }: PdfTextOptions = {}) {
+    const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    const units = winAnsiCodes(text).reduce(
+      (sum, code) => sum + (code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH),
+      0
+    );
+    return (units * size) / 1000;
+  }
+
+  /** Break text into lines no wider than `maxWidth`, keeping explicit line breaks */
+  wrapText(text: string, maxWidth: number, options: PdfTextOptions = {}): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = '';
+      for (const word of paragraph.split(/ +/)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (!line || this.textWidth(candidate, options) <= maxWidth) {
+          line = candidate;
+          continue;
+        }
+        lines.push(line);
+        line = word;
+      }
+      // Hard-break words longer than a whole line
+      while (this.textWidth(line, options) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && this.textWidth(line.slice(0, cut), options) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  /** Draw one line of text with its baseline at `y` */
+  text(x: number, y: number, text: string, { size = 10, font = 'regular', gray = 0 }: PdfTextOptions = {}) {
+    const { name } = FONT_RESOURCES[font];
+    this.pages[this.current].push(
+      `BT ${num(gray)} g /${name} ${num(size)} Tf ${num(x)} ${num(PAGE_HEIGHT - y)} Td `
+      + `${pdfString(winAnsiCodes(text))} Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5, gray = 0) {
+    this.pages[this.current].push(
+      `${num(gray)} G ${num(width)} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m `
+      + `${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  /** Filled rectangle with its top-left corner at (x, y) */
+  rect(x: number, y: number, width: number, height: number, gray: number) {
+    this.pages[this.current].push(
+      `${num(gray)} g ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`
+    );
+  }
+
+  /** Draw a baseline JPEG scaled to `width` × `height` with its top-left corner at (x, y) */
+  image(jpeg: PdfJpeg, x: number, y: number, width: number, height: number) {
+    let index = this.images.indexOf(jpeg);
+    if (index < 0) index = this.images.push(jpeg) - 1;
+    this.pageImages[this.current].add(index);
+    this.pages[this.current].push(
+      `q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(PAGE_HEIGHT - y - height)} cm /Im${index} Do Q`
+    );
+  }
+
+  /** Serialize the document */
+  toBlob(): Blob {
+    const parts: BlobPart[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (part: string | Uint8Array<ArrayBuffer>) => {
+      const bytes = typeof part === 'string' ? latin1(part) : part;
+      parts.push(bytes);
+      length += bytes.length;
+    };
+    const object = (id: number, body: string) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n${body}\nendobj\n`);
+    };
+
+    // Object ids: 1 catalog, 2 page tree, 3–4 fonts, then images, then page + content pairs
+    const imageIds = this.images.map((_, index) => 5 + index);
+    const firstPageId = 5 + this.images.length;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    object(3, `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES.regular.baseFont} /Encoding /WinAnsiEncoding >>`);
+    object(4, `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES.bold.baseFont} /Encoding /WinAnsiEncoding >>`);
+
+    this.images.forEach((jpeg, index) => {
+      offsets[imageIds[index]] = length;
+      write(
+        `${imageIds[index]} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${jpeg.width} `
+        + `/Height ${jpeg.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode `
+        + `/Length ${jpeg.data.length} >>\nstream\n`
+      );
+      write(new Uint8Array(jpeg.data));
+      write('\nendstream\nendobj\n');
+    });
+
+    this.pages.forEach((operations, index) => {
+      const xObjects = Array.from(this.pageImages[index], i => `/Im${i} ${imageIds[i]} 0 R`).join(' ');
+      const content = operations.join('\n');
+      object(
+        pageIds[index],
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> `
+        + `/Contents ${pageIds[index] + 1} 0 R >>`
+      );
+      object(pageIds[index] + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    const objectCount = firstPageId + this.pages.length * 2;
+    const xrefOffset = length;
+    let xref = `xref\n0 ${objectCount}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objectCount; id++) {
+      xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    write(xref);
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(parts, { type: 'application/pdf' });
+  }
+}
@@ -0,0 +1,97 @@
+import type { QCCheckResult, QCMeasurements } from '../types';
+
+// Scanner QC (qc_check events): ACR weekly technologist QC items
+
+export type QCNumericKey =
+  | 'centerFrequency'
+  | 'transmitterGain'
+  | 'snr'
+  | 'geometricAccuracy'
+  | 'resolution'
+  | 'lowContrast';
+
+export type QCCheckKey = 'artifacts' | 'monitorQC' | 'visualChecklist';
+
+/** How a value is compared with its reference: relative ppm, relative %, or plain difference */
+export type QCDeltaMode = 'ppm' | 'percent' | 'absolute';
+
+export interface QCField {
+  key: QCNumericKey;
+  label: string;
+  unit?: string;
+  step: number;
+  /** Decimal places for display */
+  digits: number;
+  deltaMode: QCDeltaMode;
+}
+
+export const QC_FIELDS: QCField[] = [
+  { key: 'centerFrequency', label: 'Center frequency', unit: 'MHz', step: 0.000001, digits: 6, deltaMode: 'ppm' },
+  { key: 'transmitterGain', label: 'Transmitter gain / attenuation', unit: 'dB', step: 0.1, digits: 1, deltaMode: 'absolute' },
+  { key: 'snr', label: 'SNR', step: 0.1, digits: 1, deltaMode: 'percent' },
+  { key: 'geometricAccuracy', label: 'Geometric accuracy (axial diameter)', unit: 'mm', step: 0.1, digits: 1, deltaMode: 'absolute' },
+  { key: 'resolution', label: 'High-contrast resolution', unit: 'mm', step: 0.1, digits: 1, deltaMode: 'absolute' },
+  { key: 'lowContrast', label: 'Low-contrast detectability', unit: 'spokes', step: 1, digits: 0, deltaMode: 'absolute' },
+];
+
+export const QC_CHECKS: { key: QCCheckKey; label: string }[] = [
+  { key: 'artifacts', label: 'Artifact evaluation' },
+  { key: 'monitorQC', label: 'Film / monitor QC' },
+  { key: 'visualChecklist', label: 'Visual checklist' },
+];
+
+export const QC_CHECK_LABELS: Record<QCCheckResult, string> = {
+  pass: 'Pass',
+  fail: 'Fail',
+};
+
+export const QC_CHECK_TITLE = 'Weekly QC';
+
+/** Difference of a value from its reference, in the field's delta mode */
+export function qcDelta(field: QCField, value: number, reference: number): number {
+  switch (field.deltaMode) {
+    case 'ppm':
+      return ((value - reference) / reference) * 1e6;
+    case 'percent':
+      return ((value - reference) / reference) * 100;
+    case 'absolute':
+      return value - reference;
+  }
+}
+
+export function formatDelta(field: QCField, delta: number): string {
+  const sign = delta > 0 ? '+' : delta < 0 ? '−' : '±';
+  const magnitude = Math.abs(delta);
+  switch (field.deltaMode) {
+    case 'ppm':
+      return `${sign}${magnitude.toFixed(1)} ppm`;
+    case 'percent':
+      return `${sign}${magnitude.toFixed(1)}%`;
+    case 'absolute':
+      return `${sign}${magnitude.toFixed(field.digits)}${field.unit ? ` ${field.unit}` : ''}`;
+  }
+}
+
+/** True when no QC item has been recorded */
+export function isQCEmpty(qc: QCMeasurements | undefined): boolean {
+  return !qc || Object.values(qc).every(value => value === undefined);
+}
+
+export type QCReference = Partial<Record<QCNumericKey, number>>;
+
+/**
+ * Reference values for deltas: the first recorded value of each item in a
+ * scanner's QC history (oldest first).
+ */
+export function qcReference(history: { qc?: QCMeasurements }[]): QCReference {
+  const reference: QCReference = {};
+  for (const { qc } of history) {
+    for (const { key } of QC_FIELDS) {
+      const value = qc?.[key];
+      if (reference[key] === undefined && value !== undefined) {
+        reference[key] = value;
+      }
+    }
+  }
+  return reference;
+}
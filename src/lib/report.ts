@@ -0,0 +1,576 @@
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, type PdfJpeg, type PdfTextOptions } from './pdf';
+import {
+  ACR_RESULT_LABELS,
+  ACR_SERIES,
+  ACR_TESTS,
+  DEFAULT_FIELD_STRENGTH,
+  evaluateACR,
+  parseFieldStrength,
+  type ACRResult,
+} from './acr';
+import { QC_CHECKS, QC_CHECK_LABELS, QC_FIELDS, formatDelta, isQCEmpty, qcDelta } from './qc';
+import { EQUIPMENT_TYPE_LABELS } from './equipment';
+import { EVENT_STATUS_LABELS, EVENT_TYPE_LABELS, getEventDate } from './events';
+import { formatDate } from './dates';
+import type {
+  Baseline,
+  BaselineKey,
+  Equipment,
+  EventType,
+  Organization,
+  ReportSectionKind,
+  ReportTemplate,
+  ReportTemplateSection,
+  Room,
+  Site,
+  SupportEvent,
+} from '../types';
+
+// Printable event reports: a template orders the sections and supplies
+// boilerplate; content is filled in from the event and its hierarchy, then
+// laid out as a PDF
+
+export interface ReportContext {
+  organization?: Organization;
+  site?: Site;
+  room?: Room;
+  equipment: Equipment;
+  event: SupportEvent;
+  /** QC baseline in effect for the event, for pass/fail of QC items */
+  baseline?: Baseline;
+}
+
+export interface ReportRow {
+  cells: string[];
+  /** Shown in the last column; failed rows are highlighted */
+  result?: ACRResult;
+}
+
+export interface ReportTable {
+  title: string;
+  columns: string[];
+  /** Relative column widths */
+  widths: number[];
+  rows: ReportRow[];
+}
+
+export type ReportBlock =
+  | { kind: 'details'; title?: string; rows: [string, string][] }
+  | { kind: 'text'; title?: string; text: string }
+  | { kind: 'table'; table: ReportTable }
+  | { kind: 'photos'; title: string }
+  | { kind: 'signature'; title?: string };
+
+export interface ReportContent {
+  title: string;
+  blocks: ReportBlock[];
+  /** Repeated at the bottom of every page */
+  footer: string;
+}
+
+export interface ReportImage extends PdfJpeg {
+  caption: string;
+}
+
+export interface ReportSignature {
+  name: string;
+  title: string;
+  date: Date;
+}
+
+export type ReportTemplateFields = Pick<ReportTemplate, 'name' | 'eventType' | 'title' | 'sections'>;
+
+export const REPORT_SECTION_LABELS: Record<ReportSectionKind, string> = {
+  details: 'Equipment details',
+  text: 'Text',
+  description: 'Description',
+  findings: 'Findings',
+  recommendations: 'Recommendations',
+  acr_summary: 'ACR phantom test results',
+  acr_measurements: 'ACR phantom measurements',
+  qc_measurements: 'QC measurements',
+  custom_fields: 'Additional information',
+  photos: 'Photos',
+  signature: 'Signature',
+};
+
+/** Id used for the built-in layout, which is not stored */
+export const BUILT_IN_TEMPLATE_ID = 'built-in';
+
+export const DEFAULT_SIGNATURE_TITLE = 'Qualified Medical Physicist';
+
+const BUILT_IN_TITLES: Partial<Record<EventType, string>> = {
+  annual_survey: 'MRI Annual Equipment Performance Evaluation',
+  acr_test: 'ACR MRI Phantom Test Report',
+  acceptance_test: 'MRI Acceptance Test Report',
+};
+
+const BUILT_IN_SECTIONS: ReportSectionKind[] = [
+  'details',
+  'description',
+  'findings',
+  'recommendations',
+  'acr_summary',
+  'acr_measurements',
+  'qc_measurements',
+  'custom_fields',
+  'photos',
+  'signature',
+];
+
+/** Layout used when no stored template applies; also the starting point for new templates */
+export function builtInReportTemplate(eventType: EventType): ReportTemplateFields {
+  return {
+    name: 'Built-in',
+    eventType,
+    title: BUILT_IN_TITLES[eventType] ?? `${EVENT_TYPE_LABELS[eventType]} Report`,
+    sections: BUILT_IN_SECTIONS.map(kind => ({ id: kind, kind })),
+  };
+}
+
+/** Template for an event: its chosen template, else the default for its type, else built-in */
+export function selectReportTemplate(
+  event: SupportEvent,
+  templates: ReportTemplate[]
+): ReportTemplate | undefined {
+  if (event.reportTemplateId === BUILT_IN_TEMPLATE_ID) return undefined;
+  const forType = templates.filter(template => template.eventType === event.type);
+  return forType.find(template => template.id === event.reportTemplateId)
+    ?? forType.find(template => template.isDefault);
+}
+
+interface PlaceholderContext extends ReportContext {
+  signature: ReportSignature;
+}
+
+// {{placeholder}} values available in template titles and text sections
+export const REPORT_PLACEHOLDERS: {
+  key: string;
+  label: string;
+  value: (c: PlaceholderContext) => string | undefined;
+}[] = [
+  { key: 'organization.name', label: 'Organization name', value: c => c.organization?.name },
+  { key: 'site.name', label: 'Site name', value: c => c.site?.name },
+  { key: 'site.address', label: 'Site address', value: c => c.site?.address },
+  { key: 'room.name', label: 'Room name', value: c => c.room?.name },
+  { key: 'equipment.name', label: 'Equipment name', value: c => c.equipment.name },
+  { key: 'equipment.manufacturer', label: 'Manufacturer', value: c => c.equipment.manufacturer },
+  { key: 'equipment.model', label: 'Model', value: c => c.equipment.model },
+  { key: 'equipment.serialNumber', label: 'Serial number', value: c => c.equipment.serialNumber },
+  { key: 'equipment.fieldStrength', label: 'Field strength', value: c => c.equipment.fieldStrength },
+  { key: 'equipment.softwareVersion', label: 'Software version', value: c => c.equipment.softwareVersion },
+  { key: 'event.title', label: 'Event title', value: c => c.event.title },
+  { key: 'event.type', label: 'Event type', value: c => EVENT_TYPE_LABELS[c.event.type] },
+  { key: 'event.status', label: 'Event status', value: c => EVENT_STATUS_LABELS[c.event.status] },
+  { key: 'event.date', label: 'Event date', value: c => formatDate(getEventDate(c.event)) },
+  { key: 'report.date', label: 'Report date', value: c => formatDate(c.signature.date) },
+  { key: 'physicist.name', label: 'Physicist name', value: c => c.signature.name },
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/** Replace {{placeholders}}; unknown names are left as written, missing values become '' */
+export function fillPlaceholders(text: string, context: PlaceholderContext): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+    const placeholder = REPORT_PLACEHOLDERS.find(p => p.key === key);
+    return placeholder ? placeholder.value(context) ?? '' : match;
+  });
+}
+
+const CHECK_RESULTS: Record<'pass' | 'fail', ACRResult> = { pass: 'pass', fail: 'fail' };
+
+function formatNumber(value: number | undefined, digits?: number): string {
+  if (value === undefined) return '—';
+  return digits === undefined ? String(value) : value.toFixed(digits);
+}
+
+function hasACR(event: SupportEvent) {
+  return event.type === 'acr_test' || !!event.acr;
+}
+
+function acrSummaryTable(context: ReportContext): ReportTable {
+  const { event, equipment } = context;
+  const fieldStrength = parseFieldStrength(equipment.fieldStrength) ?? DEFAULT_FIELD_STRENGTH;
+  const evaluation = evaluateACR(event.acr, fieldStrength);
+
+  return {
+    title: `ACR Phantom Tests (${fieldStrength} T action limits)`,
+    columns: ['Test', 'Action limit', ...ACR_SERIES.map(s => s.label), 'Result'],
+    widths: [3, 3, 1.2, 1.2, 1.2],
+    rows: ACR_TESTS.map(test => ({
+      cells: [
+        test.label,
+        test.limit(fieldStrength),
+        ...ACR_SERIES.map(s => ACR_RESULT_LABELS[evaluation[test.id].series[s.id]]),
+        ACR_RESULT_LABELS[evaluation[test.id].overall],
+      ],
+      result: evaluation[test.id].overall,
+    })),
+  };
+}
+
+function acrMeasurementsTable({ event }: ReportContext): ReportTable {
+  return {
+    title: 'ACR Phantom Measurements',
+    columns: ['Measurement', ...ACR_SERIES.map(s => s.label)],
+    widths: [5, 1.5, 1.5],
+    rows: ACR_TESTS.flatMap(test => {
+      const fields = test.calculator ? [...test.calculator.inputs, ...test.fields] : test.fields;
+      return fields
+        .filter(field => ACR_SERIES.some(s => event.acr?.[s.id]?.[field.key] !== undefined))
+        .map(field => ({
+          cells: [
+            `${test.label}: ${field.label}${field.unit ? ` (${field.unit})` : ''}`,
+            ...ACR_SERIES.map(s => formatNumber(event.acr?.[s.id]?.[field.key])),
+          ],
+        }));
+    }),
+  };
+}
+
+function qcTable({ event, baseline }: ReportContext): ReportTable {
+  const qc = event.qc ?? {};
+
+  const rows: ReportRow[] = QC_FIELDS
+    .filter(field => qc[field.key] !== undefined)
+    .map(field => {
+      const value = qc[field.key] as number;
+      const reference = baseline?.values[field.key as BaselineKey];
+      const tolerance = baseline?.limits[field.key as BaselineKey];
+      const delta = reference !== undefined ? qcDelta(field, value, reference) : undefined;
+      const result: ACRResult = delta === undefined || tolerance === undefined
+        ? 'incomplete'
+        : Math.abs(delta) <= tolerance ? 'pass' : 'fail';
+      return {
+        cells: [
+          `${field.label}${field.unit ? ` (${field.unit})` : ''}`,
+          formatNumber(value, field.digits),
+          formatNumber(reference, field.digits),
+          delta === undefined ? '—' : formatDelta(field, delta),
+          ACR_RESULT_LABELS[result],
+        ],
+        result,
+      };
+    });
+
+  for (const check of QC_CHECKS) {
+    const value = qc[check.key];
+    if (!value) continue;
+    rows.push({
+      cells: [check.label, QC_CHECK_LABELS[value], '', '', QC_CHECK_LABELS[value]],
+      result: CHECK_RESULTS[value],
+    });
+  }
+
+  return {
+    title: baseline ? `QC Measurements (baseline v${baseline.version})` : 'QC Measurements',
+    columns: ['Item', 'Value', 'Baseline', 'Difference', 'Result'],
+    widths: [4, 2, 2, 2, 1.2],
+    rows,
+  };
+}
+
+function detailRows({ organization, site, room, equipment, event }: ReportContext): [string, string][] {
+  const rows: [string, string][] = [
+    ['Organization', organization?.name ?? ''],
+    ['Site', [site?.name, site?.address].filter(Boolean).join(', ')],
+    ['Room', room?.name ?? ''],
+    ['Equipment', `${equipment.name} (${EQUIPMENT_TYPE_LABELS[equipment.type]})`],
+    ['Manufacturer / Model', [equipment.manufacturer, equipment.model].filter(Boolean).join(' ')],
+    ['Serial Number', equipment.serialNumber ?? ''],
+    ['Field Strength', equipment.fieldStrength ?? ''],
+    ['Software Version', equipment.softwareVersion ?? ''],
+    ['Event', `${event.title} (${EVENT_TYPE_LABELS[event.type]})`],
+    ['Status', EVENT_STATUS_LABELS[event.status]],
+    ['Date', formatDate(getEventDate(event))],
+  ];
+  return rows.filter(([, value]) => value);
+}
+
+// One template section as a report block, or null when there is nothing to show
+function sectionBlock(
+  section: ReportTemplateSection,
+  context: PlaceholderContext
+): ReportBlock | null {
+  const { event } = context;
+  const title = section.title?.trim() || undefined;
+  const withTitle = (table: ReportTable): ReportBlock =>
+    ({ kind: 'table', table: title ? { ...table, title } : table });
+  const textBlock = (text: string | undefined): ReportBlock | null => text?.trim()
+    ? { kind: 'text', title: title ?? REPORT_SECTION_LABELS[section.kind], text }
+    : null;
+
+  switch (section.kind) {
+    case 'details':
+      return { kind: 'details', title, rows: detailRows(context) };
+    case 'text': {
+      const text = fillPlaceholders(section.text ?? '', context);
+      return text.trim() ? { kind: 'text', title, text } : null;
+    }
+    case 'description':
+      return textBlock(event.description);
+    case 'findings':
+      return textBlock(event.findings);
+    case 'recommendations':
+      return textBlock(event.recommendations);
+    case 'acr_summary':
+      return hasACR(event) ? withTitle(acrSummaryTable(context)) : null;
+    case 'acr_measurements': {
+      const table = acrMeasurementsTable(context);
+      return table.rows.length > 0 ? withTitle(table) : null;
+    }
+    case 'qc_measurements':
+      return isQCEmpty(event.qc) ? null : withTitle(qcTable(context));
+    case 'custom_fields': {
+      const fields = Object.entries(event.customFields ?? {});
+      if (fields.length === 0) return null;
+      return {
+        kind: 'table',
+        table: {
+          title: title ?? 'Additional Information',
+          columns: ['Field', 'Value'],
+          widths: [1, 2],
+          rows: fields.map(([key, value]) => ({ cells: [key, value] })),
+        },
+      };
+    }
+    case 'photos':
+      return { kind: 'photos', title: title ?? REPORT_SECTION_LABELS.photos };
+    case 'signature':
+      return { kind: 'signature', title };
+  }
+}
+
+/**
+ * Report content for an event laid out by a template. Sections without
+ * data (e.g. no QC recorded) are left out.
+ */
+export function buildReportContent(
+  context: ReportContext,
+  template: ReportTemplateFields,
+  signature: ReportSignature
+): ReportContent {
+  const placeholderContext = { ...context, signature };
+  const { organization, equipment, event } = context;
+
+  return {
+    title: fillPlaceholders(template.title, placeholderContext),
+    blocks: template.sections
+      .map(section => sectionBlock(section, placeholderContext))
+      .filter(block => block !== null),
+    footer: [organization?.name, equipment.name, formatDate(getEventDate(event))]
+      .filter(Boolean)
+      .join(' — '),
+  };
+}
+
+// --- PDF layout ---
+
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = PAGE_HEIGHT - 30;
+const BOTTOM = PAGE_HEIGHT - MARGIN;
+const BODY: PdfTextOptions = { size: 10 };
+const LINE_HEIGHT = 13;
+const CELL_PADDING = 4;
+const IMAGE_GAP = 12;
+const IMAGE_HEIGHT = 200;
+const LOGO_WIDTH = 120;
+const LOGO_HEIGHT = 50;
+
+class ReportLayout {
+  readonly pdf = new PdfDocument();
+  y = MARGIN;
+
+  /** Start a new page unless `height` still fits on this one */
+  ensureSpace(height: number) {
+    if (this.y + height > BOTTOM) {
+      this.pdf.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  heading(text: string) {
+    this.ensureSpace(LINE_HEIGHT * 3);
+    this.y += 10;
+    this.pdf.text(MARGIN, this.y, text, { size: 12, font: 'bold' });
+    this.y += 5;
+    this.pdf.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, 0.5);
+    this.y += LINE_HEIGHT;
+  }
+
+  paragraph(text: string) {
+    for (const line of this.pdf.wrapText(text, CONTENT_WIDTH, BODY)) {
+      this.ensureSpace(LINE_HEIGHT);
+      this.pdf.text(MARGIN, this.y, line, BODY);
+      this.y += LINE_HEIGHT;
+    }
+  }
+
+  details(rows: [string, string][]) {
+    const labelWidth = 130;
+    for (const [label, value] of rows) {
+      const lines = this.pdf.wrapText(value, CONTENT_WIDTH - labelWidth, BODY);
+      this.ensureSpace(lines.length * LINE_HEIGHT);
+      this.pdf.text(MARGIN, this.y, label, { ...BODY, font: 'bold' });
+      lines.forEach((line, index) => {
+        this.pdf.text(MARGIN + labelWidth, this.y + index * LINE_HEIGHT, line, BODY);
+      });
+      this.y += lines.length * LINE_HEIGHT;
+    }
+  }
+
+  table(table: ReportTable) {
+    const total = table.widths.reduce((sum, width) => sum + width, 0);
+    const widths = table.widths.map(width => (width / total) * CONTENT_WIDTH);
+    const cellText = { size: 9 } satisfies PdfTextOptions;
+
+    const drawRow = (cells: string[], options: { header?: boolean; highlight?: boolean }) => {
+      const wrapped = cells.map((cell, index) =>
+        this.pdf.wrapText(cell, widths[index] - CELL_PADDING * 2, cellText));
+      const height = Math.max(...wrapped.map(lines => lines.length)) * 11 + CELL_PADDING * 2;
+
+      this.ensureSpace(height);
+      if (options.header || options.highlight) {
+        this.pdf.rect(MARGIN, this.y, CONTENT_WIDTH, height, options.header ? 0.88 : 0.94);
+      }
+      let x = MARGIN;
+      wrapped.forEach((lines, index) => {
+        const bold = options.header || (options.highlight && index === cells.length - 1);
+        lines.forEach((line, lineIndex) => {
+          this.pdf.text(x + CELL_PADDING, this.y + CELL_PADDING + 8 + lineIndex * 11, line, {
+            ...cellText,
+            font: bold ? 'bold' : 'regular',
+          });
+        });
+        x += widths[index];
+      });
+      this.y += height;
+      this.pdf.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, 0.25, 0.6);
+    };
+
+    this.heading(table.title);
+    this.y -= LINE_HEIGHT - 2;
+    drawRow(table.columns, { header: true });
+    for (const row of table.rows) {
+      drawRow(row.cells, { highlight: row.result === 'fail' });
+    }
+    this.y += LINE_HEIGHT;
+  }
+
+  // Two photos per row, scaled to fit their half of the page
+  images(images: ReportImage[]) {
+    const cellWidth = (CONTENT_WIDTH - IMAGE_GAP) / 2;
+    for (let i = 0; i < images.length; i += 2) {
+      const row = images.slice(i, i + 2);
+      const captions = row.map(image => this.pdf.wrapText(image.caption, cellWidth, { size: 9 }));
+      const captionHeight = Math.max(...captions.map(lines => lines.length)) * 11;
+      this.ensureSpace(IMAGE_HEIGHT + captionHeight + IMAGE_GAP);
+
+      row.forEach((image, index) => {
+        const scale = Math.min(cellWidth / image.width, IMAGE_HEIGHT / image.height);
+        const width = image.width * scale;
+        const height = image.height * scale;
+        const x = MARGIN + index * (cellWidth + IMAGE_GAP);
+        this.pdf.image(image, x + (cellWidth - width) / 2, this.y + IMAGE_HEIGHT - height, width, height);
+        captions[index].forEach((line, lineIndex) => {
+          this.pdf.text(x, this.y + IMAGE_HEIGHT + 12 + lineIndex * 11, line, { size: 9, gray: 0.3 });
+        });
+      });
+      this.y += IMAGE_HEIGHT + captionHeight + IMAGE_GAP + 4;
+    }
+  }
+
+  signature(signature: ReportSignature) {
+    this.ensureSpace(110);
+    this.y += 40;
+    const half = CONTENT_WIDTH / 2;
+    this.pdf.line(MARGIN, this.y, MARGIN + half - 24, this.y, 0.5);
+    this.pdf.line(MARGIN + half + 24, this.y, MARGIN + CONTENT_WIDTH, this.y, 0.5);
+    this.y += LINE_HEIGHT;
+    this.pdf.text(MARGIN, this.y, 'Signature', { size: 9, gray: 0.3 });
+    this.pdf.text(MARGIN + half + 24, this.y, 'Date', { size: 9, gray: 0.3 });
+    this.y += LINE_HEIGHT + 4;
+    this.pdf.text(MARGIN, this.y, signature.name, { ...BODY, font: 'bold' });
+    this.pdf.text(MARGIN + half + 24, this.y, formatDate(signature.date), BODY);
+    this.y += LINE_HEIGHT;
+    this.pdf.text(MARGIN, this.y, signature.title, BODY);
+    this.y += LINE_HEIGHT;
+  }
+
+  footers(text: string) {
+    const count = this.pdf.pageCount;
+    for (let index = 0; index < count; index++) {
+      this.pdf.setPage(index);
+      const page = `Page ${index + 1} of ${count}`;
+      this.pdf.line(MARGIN, FOOTER_Y - 12, MARGIN + CONTENT_WIDTH, FOOTER_Y - 12, 0.25, 0.6);
+      this.pdf.text(MARGIN, FOOTER_Y, text, { size: 8, gray: 0.3 });
+      this.pdf.text(
+        MARGIN + CONTENT_WIDTH - this.pdf.textWidth(page, { size: 8 }),
+        FOOTER_Y,
+        page,
+        { size: 8, gray: 0.3 }
+      );
+    }
+  }
+}
+
+/**
+ * Lay out a report as a paginated US Letter PDF, block by block, with the
+ * logo (if any) at the top right of the first page.
+ */
+export function renderReportPdf(
+  content: ReportContent,
+  images: ReportImage[],
+  signature: ReportSignature,
+  logo?: PdfJpeg
+): Blob {
+  const layout = new ReportLayout();
+
+  let titleWidth = CONTENT_WIDTH;
+  if (logo) {
+    const scale = Math.min(LOGO_WIDTH / logo.width, LOGO_HEIGHT / logo.height);
+    const width = logo.width * scale;
+    layout.pdf.image(logo, MARGIN + CONTENT_WIDTH - width, MARGIN, width, logo.height * scale);
+    titleWidth -= LOGO_WIDTH + IMAGE_GAP;
+  }
+
+  const titleStart = layout.y;
+  for (const line of layout.pdf.wrapText(content.title, titleWidth, { size: 18, font: 'bold' })) {
+    layout.pdf.text(MARGIN, layout.y + 14, line, { size: 18, font: 'bold' });
+    layout.y += 22;
+  }
+  if (logo) layout.y = Math.max(layout.y, titleStart + LOGO_HEIGHT);
+  layout.y += LINE_HEIGHT;
+
+  for (const block of content.blocks) {
+    switch (block.kind) {
+      case 'details':
+        if (block.title) layout.heading(block.title);
+        layout.details(block.rows);
+        break;
+      case 'text':
+        if (block.title) layout.heading(block.title);
+        else layout.y += 4;
+        layout.paragraph(block.text);
+        break;
+      case 'table':
+        layout.table(block.table);
+        break;
+      case 'photos':
+        if (images.length > 0) {
+          layout.heading(block.title);
+          layout.images(images);
+        }
+        break;
+      case 'signature':
+        if (block.title) layout.heading(block.title);
+        layout.signature(signature);
+        break;
+    }
+  }
+
+  layout.footers(content.footer);
+
+  return layout.pdf.toBlob();
+}
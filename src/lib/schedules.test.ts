@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { nextDueDate, occurrenceDate } from './schedules';
+import type { Schedule } from '../types';
+
+const monthly: Pick<Schedule, 'anchorDate' | 'interval' | 'unit'> = {
+  anchorDate: new Date(2027, 0, 31),
+  interval: 1,
+  unit: 'months',
+};
+
+describe('occurrenceDate', () => {
+  it('clamps to the end of shorter months without drifting', () => {
+    expect(occurrenceDate(monthly, 0)).toEqual(new Date(2027, 0, 31));
+    expect(occurrenceDate(monthly, 1)).toEqual(new Date(2027, 1, 28));
+    expect(occurrenceDate(monthly, 2)).toEqual(new Date(2027, 2, 31));
+    expect(occurrenceDate(monthly, 3)).toEqual(new Date(2027, 3, 30));
+  });
+
+  it('keeps Feb 29 in leap years for yearly schedules', () => {
+    const yearly = { anchorDate: new Date(2028, 1, 29), interval: 1, unit: 'years' as const };
+    expect(occurrenceDate(yearly, 1)).toEqual(new Date(2029, 1, 28));
+    expect(occurrenceDate(yearly, 4)).toEqual(new Date(2032, 1, 29));
+  });
+});
+
+describe('nextDueDate', () => {
+  it('follows the anchor after a month-end occurrence', () => {
+    // Closed on time on Feb 28: next is Mar 31, not Mar 28
+    expect(nextDueDate(monthly, new Date(2027, 1, 28), new Date(2027, 1, 28, 15)))
+      .toEqual(new Date(2027, 2, 31));
+  });
+
+  it('skips periods that passed before a late completion', () => {
+    // Due Jan 31, closed Apr 2: Feb 28 and Mar 31 already passed
+    expect(nextDueDate(monthly, new Date(2027, 0, 31), new Date(2027, 3, 2)))
+      .toEqual(new Date(2027, 3, 30));
+  });
+
+  it('moves past an occurrence closed early', () => {
+    // Due Mar 31, closed Mar 10: next is Apr 30
+    expect(nextDueDate(monthly, new Date(2027, 2, 31), new Date(2027, 2, 10)))
+      .toEqual(new Date(2027, 3, 30));
+  });
+
+  it('steps weekly schedules from the anchor', () => {
+    const weekly = { anchorDate: new Date(2027, 0, 4), interval: 1, unit: 'weeks' as const };
+    expect(nextDueDate(weekly, new Date(2027, 0, 4), new Date(2027, 0, 5)))
+      .toEqual(new Date(2027, 0, 11));
+  });
+});
@@ -0,0 +1,83 @@
+import { addDays, addMonths, addWeeks, addYears, startOfDay } from 'date-fns';
+import type { EventType, Schedule, ScheduleUnit } from '../types';
+
+// Recurring schedules: interval arithmetic and common presets
+
+export const SCHEDULE_UNIT_LABELS: Record<ScheduleUnit, string> = {
+  days: 'days',
+  weeks: 'weeks',
+  months: 'months',
+  years: 'years',
+};
+
+export interface SchedulePreset {
+  label: string;
+  eventType: EventType;
+  title: string;
+  interval: number;
+  unit: ScheduleUnit;
+}
+
+export const SCHEDULE_PRESETS: SchedulePreset[] = [
+  { label: 'Annual survey', eventType: 'annual_survey', title: 'Annual Survey', interval: 12, unit: 'months' },
+  { label: 'ACR phantom (quarterly)', eventType: 'acr_test', title: 'ACR Phantom Test', interval: 3, unit: 'months' },
+  { label: 'Weekly QC', eventType: 'qc_check', title: 'Weekly QC', interval: 1, unit: 'weeks' },
+  { label: 'Coil QC (quarterly)', eventType: 'coil_qc', title: 'Coil QC', interval: 3, unit: 'months' },
+];
+
+export function addInterval(date: Date, interval: number, unit: ScheduleUnit): Date {
+  switch (unit) {
+    case 'days':
+      return addDays(date, interval);
+    case 'weeks':
+      return addWeeks(date, interval);
+    case 'months':
+      return addMonths(date, interval);
+    case 'years':
+      return addYears(date, interval);
+  }
+}
+
+/**
+ * Due date of occurrence `n`, counted from the anchor rather than the
+ * previous occurrence so month ends don't drift: monthly from Jan 31 is due
+ * Feb 28, then Mar 31.
+ */
+export function occurrenceDate(
+  schedule: Pick<Schedule, 'anchorDate' | 'interval' | 'unit'>,
+  n: number
+): Date {
+  return addInterval(schedule.anchorDate, n * schedule.interval, schedule.unit);
+}
+
+/**
+ * Next due date after an occurrence due on `dueDate` was closed on
+ * `closedAt`: the first occurrence after both. Keeps the schedule's cadence,
+ * skipping periods that already passed so a late completion doesn't
+ * generate an event that is overdue on creation.
+ */
+export function nextDueDate(
+  schedule: Pick<Schedule, 'anchorDate' | 'interval' | 'unit'>,
+  dueDate: Date,
+  closedAt: Date
+): Date {
+  const after = Math.max(dueDate.getTime(), startOfDay(closedAt).getTime());
+  let n = 0;
+  let next = occurrenceDate(schedule, n);
+  while (next.getTime() <= after) {
+    next = occurrenceDate(schedule, ++n);
+  }
+  return next;
+}
+
+/** Active schedule whose current occurrence is past due */
+export function isScheduleOverdue(schedule: Schedule, now = new Date()): boolean {
+  return schedule.active && schedule.nextDueDate < startOfDay(now);
+}
+
+export function describeSchedule(schedule: Pick<Schedule, 'interval' | 'unit'>): string {
+  if (schedule.interval === 1) {
+    return `Every ${SCHEDULE_UNIT_LABELS[schedule.unit].replace(/s$/, '')}`;
+  }
+  return `Every ${schedule.interval} ${SCHEDULE_UNIT_LABELS[schedule.unit]}`;
+}
@@ -0,0 +1,119 @@
+// Global search: tokenizing records into the full-text index and ranking hits
+
+export const SEARCH_TABLES = [
+  'organizations',
+  'sites',
+  'rooms',
+  'equipment',
+  'events',
+  'images',
+] as const;
+
+export type SearchTable = typeof SEARCH_TABLES[number];
+
+export const SEARCH_TABLE_LABELS: Record<SearchTable, string> = {
+  organizations: 'Organization',
+  sites: 'Site',
+  rooms: 'Room',
+  equipment: 'Equipment',
+  events: 'Event',
+  images: 'Photo',
+};
+
+// Indexed fields per table; a hit in a heavier field ranks higher
+export const SEARCH_FIELDS: Record<SearchTable, { field: string; weight: number }[]> = {
+  organizations: [
+    { field: 'name', weight: 5 },
+    { field: 'shortName', weight: 5 },
+    { field: 'notes', weight: 1 },
+  ],
+  sites: [
+    { field: 'name', weight: 5 },
+    { field: 'address', weight: 2 },
+    { field: 'notes', weight: 1 },
+  ],
+  rooms: [
+    { field: 'name', weight: 5 },
+    { field: 'notes', weight: 1 },
+  ],
+  equipment: [
+    { field: 'name', weight: 5 },
+    { field: 'serialNumber', weight: 5 },
+    { field: 'partNumber', weight: 5 },
+    { field: 'manufacturer', weight: 3 },
+    { field: 'model', weight: 3 },
+    { field: 'serviceContractVendor', weight: 2 },
+    { field: 'coilAnatomy', weight: 2 },
+    { field: 'notes', weight: 1 },
+  ],
+  events: [
+    { field: 'title', weight: 5 },
+    { field: 'findings', weight: 2 },
+    { field: 'description', weight: 2 },
+  ],
+  images: [
+    { field: 'caption', weight: 3 },
+    { field: 'tags', weight: 3 },
+  ],
+};
+
+/** Lowercase words of a text, accents removed, each once */
+export function tokenize(text: string): string[] {
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  return [...new Set(words)];
+}
+
+function fieldText(record: object, field: string) {
+  const value = (record as Record<string, unknown>)[field];
+  if (Array.isArray(value)) return value.filter(item => typeof item === 'string').join(' ');
+  return typeof value === 'string' ? value : '';
+}
+
+/** Terms a record is indexed under */
+export function indexTerms(table: SearchTable, record: object): string[] {
+  const terms = SEARCH_FIELDS[table].flatMap(({ field }) => tokenize(fieldText(record, field)));
+  return [...new Set(terms)];
+}
+
+/**
+ * Relevance of a record for the query words: each word scores its best
+ * field's weight, doubled for a whole-word match over a prefix match, and
+ * the full query appearing as typed scores a bonus. 0 when a word is missing.
+ */
+export function scoreRecord(
+  table: SearchTable,
+  record: object,
+  query: string
+): number {
+  const words = tokenize(query);
+  const fields = SEARCH_FIELDS[table].map(({ field, weight }) => ({
+    weight,
+    text: fieldText(record, field).toLowerCase(),
+    tokens: tokenize(fieldText(record, field)),
+  }));
+
+  let score = 0;
+  for (const word of words) {
+    let best = 0;
+    for (const { weight, tokens } of fields) {
+      if (tokens.includes(word)) {
+        best = Math.max(best, weight * 2);
+      } else if (tokens.some(token => token.startsWith(word))) {
+        best = Math.max(best, weight);
+      }
+    }
+    if (best === 0) return 0;
+    score += best;
+  }
+
+  const phrase = query.trim().toLowerCase();
+  for (const { weight, text } of fields) {
+    if (text.includes(phrase)) score += weight;
+  }
+  return score;
+}
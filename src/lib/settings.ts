@@ -0,0 +1,15 @@
+import type { AppSettings } from '../types';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  trashRetentionDays: 30,
+  backupSnapshotCount: 7,
+  syncServerUrl: '',
+  syncToken: '',
+  contractReminderDays: [90, 60, 30],
+};
+
+// Choices for how long deleted records stay in the Trash (0 = until purged by hand)
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 365, 0];
+
+// Choices for how many backup snapshots to keep (0 = no daily snapshots)
+export const BACKUP_COUNT_OPTIONS = [3, 7, 14, 30, 0];
@@ -0,0 +1,210 @@
+import { EXPORT_TABLES, EXPORT_TABLE_LABELS } from './importData';
+
+// Sync between devices: records travel as SyncRecords carrying per-field
+// change times, and are merged field by field, last writer wins.
+
+// Tables shared between devices (the Trash, settings and backups stay local)
+export const SYNC_TABLES = [...EXPORT_TABLES, 'images', 'reportTemplates'] as const;
+export type SyncTable = typeof SYNC_TABLES[number];
+
+export const SYNC_TABLE_LABELS: Record<SyncTable, string> = {
+  ...EXPORT_TABLE_LABELS,
+  images: 'Photos',
+  reportTemplates: 'Report Templates',
+};
+
+export interface SyncRecord {
+  table: SyncTable;
+  id: string;
+  /** Record fields; empty for a tombstone */
+  data: Record<string, unknown>;
+  /** When each field was last changed (ms since epoch) */
+  fieldTimes: Record<string, number>;
+  /** When the record was deleted for good */
+  deleted?: number;
+}
+
+export interface PullResult {
+  records: SyncRecord[];
+  /** Opaque position to continue from on the next pull */
+  cursor: string;
+  /** More records are waiting after this page */
+  more: boolean;
+}
+
+/**
+ * Backend a device syncs through. The engine pulls pages of records changed
+ * since a cursor, merges them, then pushes the records changed locally.
+ */
+export interface SyncAdapter {
+  pull(cursor: string | null): Promise<PullResult>;
+  push(records: SyncRecord[]): Promise<void>;
+}
+
+export interface FieldConflict {
+  field: string;
+  localValue: unknown;
+  remoteValue: unknown;
+  winner: 'local' | 'remote';
+}
+
+export interface MergeResult {
+  merged: SyncRecord;
+  /** The merge differs from the local record, which must be rewritten */
+  changed: boolean;
+  conflicts: FieldConflict[];
+}
+
+/** Change time for each field; fields without one fall back to `fallback` */
+export function withFieldTimes(
+  data: Record<string, unknown>,
+  known: Record<string, number> | undefined,
+  fallback: number
+): Record<string, number> {
+  const times: Record<string, number> = { ...known };
+  for (const field of Object.keys(data)) {
+    times[field] ??= fallback;
+  }
+  return times;
+}
+
+function latestTime(record: SyncRecord) {
+  return Math.max(0, ...Object.values(record.fieldTimes));
+}
+
+/** Deep equality for record values: plain data, Dates and (by size and type) Blobs */
+export function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (a instanceof Blob && b instanceof Blob) return a.size === b.size && a.type === b.type;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isSameValue(item, b[index]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object'
+    && !Array.isArray(a) && !Array.isArray(b)
+    && !(a instanceof Date) && !(b instanceof Date)
+    && !(a instanceof Blob) && !(b instanceof Blob)) {
+    const aObj = a as Record<string, unknown>;
+    const bObj = b as Record<string, unknown>;
+    const keys = new Set([...Object.keys(aObj), ...Object.keys(bObj)]);
+    return [...keys].every(key => isSameValue(aObj[key], bObj[key]));
+  }
+  return false;
+}
+
+/**
+ * Merge a remote record into the local copy, field by field: the newer change
+ * wins, and the remote (server) value wins ties so devices converge. A delete
+ * wins over changes made before it. Fields both sides changed after `since`
+ * (the last sync) to different values are reported as conflicts.
+ */
+export function mergeRecords(
+  local: SyncRecord | undefined,
+  remote: SyncRecord,
+  since: number
+): MergeResult {
+  if (!local) return { merged: remote, changed: !remote.deleted, conflicts: [] };
+
+  if (remote.deleted !== undefined && remote.deleted >= latestTime(local)) {
+    const alreadyDeleted = local.deleted !== undefined && local.deleted >= remote.deleted;
+    return { merged: alreadyDeleted ? local : remote, changed: !local.deleted, conflicts: [] };
+  }
+  if (local.deleted !== undefined && local.deleted >= latestTime(remote)) {
+    return { merged: local, changed: false, conflicts: [] };
+  }
+  // A record edited after the other side deleted it survives
+  if (local.deleted !== undefined) return { merged: remote, changed: true, conflicts: [] };
+  if (remote.deleted !== undefined) return { merged: local, changed: false, conflicts: [] };
+
+  const data: Record<string, unknown> = {};
+  const fieldTimes: Record<string, number> = {};
+  const conflicts: FieldConflict[] = [];
+  let changed = false;
+
+  const fields = new Set([...Object.keys(local.fieldTimes), ...Object.keys(remote.fieldTimes)]);
+  for (const field of fields) {
+    const localTime = local.fieldTimes[field] ?? 0;
+    const remoteTime = remote.fieldTimes[field] ?? 0;
+    const localValue = local.data[field];
+    const remoteValue = remote.data[field];
+    const winner = remoteTime >= localTime ? 'remote' : 'local';
+
+    const value = winner === 'remote' ? remoteValue : localValue;
+    if (value !== undefined) data[field] = value;
+    fieldTimes[field] = Math.max(localTime, remoteTime);
+
+    if (isSameValue(localValue, remoteValue)) continue;
+    if (winner === 'remote') changed = true;
+    if (localTime > since && remoteTime > since) {
+      conflicts.push({ field, localValue, remoteValue, winner });
+    }
+  }
+
+  return { merged: { ...local, data, fieldTimes }, changed, conflicts };
+}
+
+// --- Wire format: JSON with tagged Dates and base64 Blobs ---
+
+type EncodedValue =
+  | { $date: string }
+  | { $blob: string; type: string }
+  | EncodedValue[]
+  | { [key: string]: EncodedValue }
+  | string
+  | number
+  | boolean
+  | null;
+
+async function blobToBase64(blob: Blob) {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBlob(base64: string, type: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+}
+
+async function encodeValue(value: unknown): Promise<EncodedValue | undefined> {
+  if (value === undefined) return undefined;
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (value instanceof Blob) return { $blob: await blobToBase64(value), type: value.type };
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(async item => (await encodeValue(item)) ?? null));
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, EncodedValue> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const encoded = await encodeValue(item);
+      if (encoded !== undefined) result[key] = encoded;
+    }
+    return result;
+  }
+  return value as EncodedValue;
+}
+
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    if (typeof obj.$date === 'string') return new Date(obj.$date);
+    if (typeof obj.$blob === 'string') return base64ToBlob(obj.$blob, String(obj.type ?? ''));
+    return Object.fromEntries(Object.entries(obj).map(([key, item]) => [key, decodeValue(item)]));
+  }
+  return value;
+}
+
+/** SyncRecord as plain JSON for an HTTP body */
+export async function encodeSyncRecord(record: SyncRecord): Promise<SyncRecord> {
+  return { ...record, data: (await encodeValue(record.data)) as Record<string, unknown> };
+}
+
+export function decodeSyncRecord(record: SyncRecord): SyncRecord {
+  return { ...record, data: decodeValue(record.data) as Record<string, unknown> };
+}
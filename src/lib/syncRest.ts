@@ -0,0 +1,65 @@
+import {
+  decodeSyncRecord,
+  encodeSyncRecord,
+  type PullResult,
+  type SyncAdapter,
+  type SyncRecord,
+} from './sync';
+
+// Pushes are split so photos don't make one huge request (bytes of JSON)
+const MAX_PUSH_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Adapter for the reference REST sync server (server/sync-server.js):
+ *   GET  /changes?since=<cursor>  → { records, cursor, more }
+ *   POST /changes { records }
+ * Dates and photos are sent tagged in JSON (see encodeSyncRecord).
+ */
+export class RestSyncAdapter implements SyncAdapter {
+  private baseUrl: string;
+  private token: string;
+
+  constructor(baseUrl: string, token = '') {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.token = token;
+  }
+
+  async pull(cursor: string | null): Promise<PullResult> {
+    const query = cursor ? `?since=${encodeURIComponent(cursor)}` : '';
+    const result = await this.request<PullResult>('GET', `/changes${query}`);
+    return { ...result, records: result.records.map(decodeSyncRecord) };
+  }
+
+  async push(records: SyncRecord[]) {
+    let batch: string[] = [];
+    let size = 0;
+    for (const record of records) {
+      const json = JSON.stringify(await encodeSyncRecord(record));
+      if (batch.length > 0 && size + json.length > MAX_PUSH_SIZE) {
+        await this.sendBatch(batch);
+        batch = [];
+        size = 0;
+      }
+      batch.push(json);
+      size += json.length;
+    }
+    if (batch.length > 0) await this.sendBatch(batch);
+  }
+
+  private sendBatch(records: string[]) {
+    return this.request('POST', '/changes', `{"records":[${records.join(',')}]}`);
+  }
+
+  private async request<T>(method: string, path: string, body?: string): Promise<T> {
+    const headers: Record<string, string> = {};
+    if (body) headers['Content-Type'] = 'application/json';
+    if (this.token) headers.Authorization = `Bearer ${this.token}`;
+
+    const response = await fetch(`${this.baseUrl}${path}`, { method, headers, body });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Sync server responded ${response.status}${detail ? `: ${detail}` : ''}`);
+    }
+    return response.json() as Promise<T>;
+  }
+}
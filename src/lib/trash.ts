@@ -0,0 +1,67 @@
+import { EXPORT_TABLES, EXPORT_TABLE_LABELS } from './importData';
+import type { CascadeLevel, TrashEntry, TrashLevel } from '../types';
+
+// Hierarchy levels that can be deleted, from the top down
+export const CASCADE_LEVELS: CascadeLevel[] = ['organization', 'site', 'room', 'equipment', 'event'];
+
+export const CASCADE_LEVEL_LABELS: Record<TrashEntry['level'], string> = {
+  organization: 'Organization',
+  site: 'Site',
+  room: 'Room',
+  equipment: 'Equipment',
+  event: 'Event',
+  image: 'Photo',
+  timeline: 'Timeline',
+  schedule: 'Schedule',
+  report_template: 'Report template',
+  all: 'All data',
+};
+
+// Tables a delete can move records to the Trash from
+export const CASCADE_TABLES = [...EXPORT_TABLES, 'images', 'reportTemplates'] as const;
+export type CascadeTable = typeof CASCADE_TABLES[number];
+export type CascadeCounts = Record<CascadeTable, number>;
+
+export const CASCADE_TABLE_LABELS: Record<CascadeTable, string> = {
+  ...EXPORT_TABLE_LABELS,
+  images: 'Photos',
+  reportTemplates: 'Report Templates',
+};
+
+// Table holding each level's own record
+export const CASCADE_LEVEL_TABLES: Record<CascadeLevel, CascadeTable> = {
+  organization: 'organizations',
+  site: 'sites',
+  room: 'rooms',
+  equipment: 'equipment',
+  event: 'events',
+};
+
+export const TRASH_LEVEL_TABLES: Record<TrashLevel, CascadeTable> = {
+  ...CASCADE_LEVEL_TABLES,
+  image: 'images',
+  timeline: 'timelines',
+  schedule: 'schedules',
+  report_template: 'reportTemplates',
+};
+
+/** Non-zero record counts in table order, leaving out the deleted record's own table */
+export function dependentCounts(
+  counts: Partial<Record<CascadeTable, number>>,
+  level: TrashEntry['level']
+) {
+  return CASCADE_TABLES
+    .filter(table => level === 'all' || table !== TRASH_LEVEL_TABLES[level])
+    .map(table => ({ table, count: counts[table] ?? 0 }))
+    .filter(({ count }) => count > 0);
+}
+
+/** Record counts of a Trash entry, e.g. "3 Rooms, 2 Equipment, 40 Photos" */
+export function describeTrashEntry(entry: TrashEntry) {
+  const counts = Object.fromEntries(
+    CASCADE_TABLES.map(table => [table, entry.records[table]?.length ?? 0])
+  );
+  return dependentCounts(counts, entry.level)
+    .map(({ table, count }) => `${count} ${CASCADE_TABLE_LABELS[table]}`)
+    .join(', ');
+}
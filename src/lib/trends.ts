@@ -0,0 +1,225 @@
+import { ACR_LIMITS, ACR_SERIES, lcdLimit, lcdTotal, piuLimit } from './acr';
+import { baselineAt, getBaselineRange, getCurrentBaseline } from './baselines';
+import { QC_CHECKS } from './qc';
+import type { ACRSeriesMeasurements, Baseline, BaselineKey, SupportEvent } from '../types';
+
+// QC metric trends per scanner, plotted over event completion dates
+
+export type TrendMetricId =
+  | 'snr'
+  | 'center_frequency'
+  | 'transmitter_gain'
+  | 'geometric_accuracy'
+  | 'resolution'
+  | 'slice_thickness'
+  | 'piu'
+  | 'ghosting'
+  | 'low_contrast';
+
+export interface TrendLimits {
+  min?: number;
+  max?: number;
+}
+
+export interface TrendValue {
+  /** Line within the chart, e.g. 'QC' or 'ACR T1' */
+  series: string;
+  value: number;
+}
+
+export interface TrendMetric {
+  id: TrendMetricId;
+  label: string;
+  unit?: string;
+  /** Decimal places for display */
+  digits: number;
+  values: (event: SupportEvent) => TrendValue[];
+  /** Action limits for the given field strength (tesla); none when not defined */
+  limits?: (fieldStrength: number) => TrendLimits;
+  /** Limits come from the scanner's baseline in effect at each point */
+  baselineKey?: BaselineKey;
+}
+
+export interface TrendPoint extends TrendValue {
+  eventId: string;
+  date: Date;
+  outOfLimits: boolean;
+}
+
+export interface Trend {
+  metric: TrendMetric;
+  points: TrendPoint[];
+  limits: TrendLimits | null;
+}
+
+const QC_SERIES = 'QC';
+
+function qcValue(value: number | undefined): TrendValue[] {
+  return value === undefined ? [] : [{ series: QC_SERIES, value }];
+}
+
+// One value per ACR series that has the measurement entered
+function acrValues(
+  event: SupportEvent,
+  extract: (m: ACRSeriesMeasurements) => number | null | undefined
+): TrendValue[] {
+  const values: TrendValue[] = [];
+  for (const { id, label } of ACR_SERIES) {
+    const measurements = event.acr?.[id];
+    const value = measurements && extract(measurements);
+    if (value !== undefined && value !== null) {
+      values.push({ series: label, value });
+    }
+  }
+  return values;
+}
+
+export const TREND_METRICS: TrendMetric[] = [
+  {
+    id: 'snr',
+    label: 'SNR',
+    digits: 1,
+    values: event => qcValue(event.qc?.snr),
+    baselineKey: 'snr',
+  },
+  {
+    id: 'center_frequency',
+    label: 'Center Frequency',
+    unit: 'MHz',
+    digits: 6,
+    values: event => qcValue(event.qc?.centerFrequency),
+    baselineKey: 'centerFrequency',
+  },
+  {
+    id: 'transmitter_gain',
+    label: 'Transmitter Gain',
+    unit: 'dB',
+    digits: 1,
+    values: event => qcValue(event.qc?.transmitterGain),
+    baselineKey: 'transmitterGain',
+  },
+  {
+    id: 'geometric_accuracy',
+    label: 'Geometric Accuracy',
+    unit: 'mm',
+    digits: 1,
+    values: event => qcValue(event.qc?.geometricAccuracy),
+    limits: () => ({
+      min: ACR_LIMITS.geometricAxial - ACR_LIMITS.geometricTolerance,
+      max: ACR_LIMITS.geometricAxial + ACR_LIMITS.geometricTolerance,
+    }),
+  },
+  {
+    id: 'resolution',
+    label: 'High-Contrast Resolution',
+    unit: 'mm',
+    digits: 1,
+    values: event => qcValue(event.qc?.resolution),
+    limits: () => ({ max: ACR_LIMITS.resolution }),
+  },
+  {
+    id: 'slice_thickness',
+    label: 'Slice Thickness',
+    unit: 'mm',
+    digits: 2,
+    values: event => acrValues(event, m => m.sliceThickness),
+    limits: () => ({
+      min: ACR_LIMITS.sliceThickness - ACR_LIMITS.sliceThicknessTolerance,
+      max: ACR_LIMITS.sliceThickness + ACR_LIMITS.sliceThicknessTolerance,
+    }),
+  },
+  {
+    id: 'piu',
+    label: 'PIU',
+    unit: '%',
+    digits: 1,
+    values: event => acrValues(event, m => m.piu),
+    limits: fieldStrength => ({ min: piuLimit(fieldStrength) }),
+  },
+  {
+    id: 'ghosting',
+    label: 'Percent Signal Ghosting',
+    unit: '%',
+    digits: 2,
+    values: event => acrValues(event, m => m.ghosting),
+    limits: () => ({ max: ACR_LIMITS.ghosting }),
+  },
+  {
+    id: 'low_contrast',
+    label: 'Low-Contrast Detectability',
+    unit: 'spokes',
+    digits: 0,
+    values: event => acrValues(event, lcdTotal),
+    limits: fieldStrength => ({ min: lcdLimit(fieldStrength) }),
+  },
+];
+
+export function isOutsideLimits(value: number, limits: TrendLimits | null): boolean {
+  if (!limits) return false;
+  if (limits.min !== undefined && value < limits.min) return true;
+  if (limits.max !== undefined && value > limits.max) return true;
+  return false;
+}
+
+/**
+ * Points for every completed qc_check / acr_test event with the metric
+ * recorded, oldest first, flagged against the metric's action limits.
+ * Baseline-relative metrics are checked against the baseline version in
+ * effect at each point; the band shows the current baseline.
+ */
+export function buildTrend(
+  events: SupportEvent[],
+  metric: TrendMetric,
+  fieldStrength: number,
+  baselines: Baseline[] = []
+): Trend {
+  const { baselineKey } = metric;
+  const baselineLimits = (baseline: Baseline | undefined) =>
+    baseline && baselineKey ? getBaselineRange(baseline, baselineKey) : null;
+
+  const fixedLimits = metric.limits?.(fieldStrength) ?? null;
+  const limits = baselineKey ? baselineLimits(getCurrentBaseline(baselines)) : fixedLimits;
+  const points: TrendPoint[] = [];
+
+  for (const event of events) {
+    if (event.type !== 'qc_check' && event.type !== 'acr_test') continue;
+    if (event.status !== 'completed' || !event.completedAt) continue;
+
+    const pointLimits = baselineKey
+      ? baselineLimits(baselineAt(baselines, event.completedAt))
+      : fixedLimits;
+
+    for (const { series, value } of metric.values(event)) {
+      points.push({
+        eventId: event.id,
+        date: event.completedAt,
+        series,
+        value,
+        outOfLimits: isOutsideLimits(value, pointLimits),
+      });
+    }
+  }
+
+  points.sort((a, b) => a.date.getTime() - b.date.getTime());
+  return { metric, points, limits };
+}
+
+/**
+ * What a completed QC or ACR event failed: checks marked fail and metrics
+ * outside their action limits (baseline limits in effect at the time).
+ * Empty when everything recorded passed.
+ */
+export function eventQCFailures(
+  event: SupportEvent,
+  fieldStrength: number,
+  baselines: Baseline[] = []
+): string[] {
+  const failures = QC_CHECKS
+    .filter(({ key }) => event.qc?.[key] === 'fail')
+    .map(({ label }) => label);
+  for (const metric of TREND_METRICS) {
+    const { points } = buildTrend([event], metric, fieldStrength, baselines);
+    if (points.some(point => point.outOfLimits)) failures.push(metric.label);
+  }
+  return failures;
+}
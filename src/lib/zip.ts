@@ -0,0 +1,225 @@
+// Minimal ZIP archive support (PKWARE APPNOTE 6.3) for exports with photos.
+// Entries are written uncompressed (photos are already JPEG-compressed) and
+// the archive is assembled from Blob parts, so file contents are never held
+// in memory all at once. Reading supports stored and deflated entries.
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+  modified?: Date;
+}
+
+export interface ZipDirectoryEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const ZIP_VERSION = 20;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const MAX_UINT32 = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// CRC-32 of a blob, read chunk by chunk
+async function blobCrc32(blob: Blob): Promise<number> {
+  let crc = 0xffffffff;
+  const reader = blob.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    for (let i = 0; i < value.length; i++) {
+      crc = CRC_TABLE[(crc ^ value[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date/time fields used by ZIP headers (local time, 2-second resolution)
+function dosDateTime(date: Date) {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a ZIP archive from entries produced one at a time, e.g. photos read
+ * from IndexedDB on demand. Throws when the archive would need ZIP64.
+ */
+export async function createZip(
+  entries: AsyncIterable<ZipEntry>,
+  onEntry?: (name: string) => void
+): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const centralHeaders: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    onEntry?.(entry.name);
+    const name = encoder.encode(entry.name);
+    const size = entry.data.size;
+    const crc = await blobCrc32(entry.data);
+    const { time, date } = dosDateTime(entry.modified ?? new Date());
+
+    if (centralHeaders.length >= MAX_ENTRIES || offset + size > MAX_UINT32) {
+      throw new Error('Export is too large for a ZIP archive');
+    }
+
+    const local = new Uint8Array(LOCAL_HEADER_SIZE + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    lv.setUint16(4, ZIP_VERSION, true);
+    lv.setUint16(6, FLAG_UTF8, true);
+    lv.setUint16(8, METHOD_STORE, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, size, true);
+    lv.setUint32(22, size, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, LOCAL_HEADER_SIZE);
+
+    const central = new Uint8Array(CENTRAL_HEADER_SIZE + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    cv.setUint16(4, ZIP_VERSION, true);
+    cv.setUint16(6, ZIP_VERSION, true);
+    cv.setUint16(8, FLAG_UTF8, true);
+    cv.setUint16(10, METHOD_STORE, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, size, true);
+    cv.setUint32(24, size, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, CENTRAL_HEADER_SIZE);
+
+    parts.push(local, entry.data);
+    centralHeaders.push(central);
+    offset += local.length + size;
+  }
+
+  const centralSize = centralHeaders.reduce((sum, header) => sum + header.length, 0);
+  if (offset + centralSize > MAX_UINT32) {
+    throw new Error('Export is too large for a ZIP archive');
+  }
+
+  const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_SIZE);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  ev.setUint16(8, centralHeaders.length, true);
+  ev.setUint16(10, centralHeaders.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralHeaders, end], { type: 'application/zip' });
+}
+
+/** Read the central directory of a ZIP archive, keyed by entry name */
+export async function readZipDirectory(zip: Blob): Promise<Map<string, ZipDirectoryEntry>> {
+  // The end-of-central-directory record sits in the last 22 bytes + comment
+  const tailStart = Math.max(0, zip.size - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_SIZE);
+  const tail = new DataView(await zip.slice(tailStart).arrayBuffer());
+  let endOffset = -1;
+  for (let i = tail.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new Error('File is not a ZIP archive');
+
+  const count = tail.getUint16(endOffset + 10, true);
+  const centralSize = tail.getUint32(endOffset + 12, true);
+  const centralOffset = tail.getUint32(endOffset + 16, true);
+  if (centralOffset === MAX_UINT32 || count === MAX_ENTRIES) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const central = new DataView(
+    await zip.slice(centralOffset, centralOffset + centralSize).arrayBuffer()
+  );
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipDirectoryEntry>();
+  let position = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (central.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('ZIP central directory is corrupt');
+    }
+    const nameLength = central.getUint16(position + 28, true);
+    const extraLength = central.getUint16(position + 30, true);
+    const commentLength = central.getUint16(position + 32, true);
+    const name = decoder.decode(
+      new Uint8Array(central.buffer, position + CENTRAL_HEADER_SIZE, nameLength)
+    );
+
+    entries.set(name, {
+      name,
+      method: central.getUint16(position + 10, true),
+      compressedSize: central.getUint32(position + 20, true),
+      size: central.getUint32(position + 24, true),
+      localHeaderOffset: central.getUint32(position + 42, true),
+    });
+    position += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/** Contents of one entry; stored entries are returned as a slice of the archive */
+export async function readZipEntry(
+  zip: Blob,
+  entry: ZipDirectoryEntry,
+  type = ''
+): Promise<Blob> {
+  const header = new DataView(
+    await zip.slice(entry.localHeaderOffset, entry.localHeaderOffset + LOCAL_HEADER_SIZE).arrayBuffer()
+  );
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`ZIP entry ${entry.name} is corrupt`);
+  }
+  const dataStart = entry.localHeaderOffset
+    + LOCAL_HEADER_SIZE
+    + header.getUint16(26, true)
+    + header.getUint16(28, true);
+  const data = zip.slice(dataStart, dataStart + entry.compressedSize, type);
+
+  switch (entry.method) {
+    case METHOD_STORE:
+      return data;
+    case METHOD_DEFLATE: {
+      const inflated = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      const blob = await new Response(inflated).blob();
+      return type ? new Blob([blob], { type }) : blob;
+    }
+    default:
+      throw new Error(`ZIP entry ${entry.name} uses an unsupported compression method`);
+  }
+}
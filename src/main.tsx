@@ -1,6 +1,11 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { generateScheduledEvents, purgeExpiredTrash } from './db';
+import { createScheduledSnapshot } from './db/backups';
+import { syncOnStartup, trackChanges } from './db/sync';
+import { checkSearchIndex, trackSearchIndex } from './db/search';
+import { watchContractReminders } from './db/contracts';
 import './styles/main.css';
 
 // Register service worker for PWA
@@ -12,6 +17,38 @@ if ('serviceWorker' in navigator) {
   });
 }
 
+// Log every change for sync, and keep the search index current, before the database opens
+trackChanges();
+trackSearchIndex();
+
+// Recurring schedules each keep one open event; fill any gaps on startup
+generateScheduledEvents().catch(err => {
+  console.error('Failed to generate scheduled events', err);
+});
+
+// Search index rows missing or out of date are rebuilt
+checkSearchIndex().catch(err => {
+  console.error('Failed to check the search index', err);
+});
+
+// Deleted records older than the Trash retention period are removed for good
+purgeExpiredTrash().catch(err => {
+  console.error('Failed to purge the Trash', err);
+});
+
+// Daily local backup snapshot (see /backups)
+createScheduledSnapshot().catch(err => {
+  console.error('Failed to create a backup snapshot', err);
+});
+
+// Pick up changes from other devices when a sync server is set (see /sync)
+syncOnStartup().catch(err => {
+  console.error('Failed to sync', err);
+});
+
+// Contract and warranty expiry reminders (see /contracts)
+watchContractReminders();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
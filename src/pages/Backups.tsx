@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import * as AlertDialog from '@radix-ui/react-alert-dialog';
+import { getSettings, saveSetting } from '../db';
+import {
+  createSnapshot,
+  deleteSnapshot,
+  getSnapshots,
+  restoreSnapshot,
+  rotateSnapshots,
+} from '../db/backups';
+import AppMenu from '../components/AppMenu';
+import StorageWarning from '../components/StorageWarning';
+import { BACKUP_COUNT_OPTIONS } from '../lib/settings';
+import { downloadBlob, exportDateStamp, formatFileSize } from '../lib/download';
+import { formatDateTime } from '../lib/dates';
+import type { BackupReason, BackupSnapshot } from '../types';
+
+const REASON_LABELS: Record<BackupReason, string> = {
+  scheduled: 'Daily',
+  manual: 'Manual',
+  before_restore: 'Before restore',
+};
+
+/**
+ * Local backup snapshots: taken daily on app open, kept in a separate
+ * database, and restorable or downloadable as a ZIP export.
+ */
+export default function Backups() {
+  const navigate = useNavigate();
+  const [confirm, setConfirm] = useState<{
+    action: 'restore' | 'delete';
+    snapshot: BackupSnapshot;
+  } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const snapshots = useLiveQuery(() => getSnapshots());
+  const settings = useLiveQuery(() => getSettings());
+
+  const run = async (action: () => Promise<void>, done: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage(done);
+    } catch (err) {
+      setMessage(`Failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCountChange = async (count: number) => {
+    await saveSetting('backupSnapshotCount', count);
+    if (count > 0) await rotateSnapshots(count);
+  };
+
+  const handleBackUpNow = () => run(async () => {
+    await createSnapshot('manual');
+  }, 'Snapshot saved.');
+
+  const handleDownload = (snapshot: BackupSnapshot) => {
+    downloadBlob(snapshot.archive, `mri-physics-backup-${exportDateStamp(snapshot.createdAt)}.zip`);
+  };
+
+  const handleConfirm = async () => {
+    if (!confirm) return;
+    const { action, snapshot } = confirm;
+    setConfirm(null);
+    if (action === 'restore') {
+      await run(() => restoreSnapshot(snapshot.id), 'Snapshot restored.');
+    } else {
+      await deleteSnapshot(snapshot.id);
+    }
+  };
+
+  const renderSnapshot = (snapshot: BackupSnapshot) => (
+    <div key={snapshot.id} className="event-item">
+      <div className="event-item__main">
+        <div className="event-item__title">{formatDateTime(snapshot.createdAt)}</div>
+        <div className="event-item__meta">
+          {REASON_LABELS[snapshot.reason]}
+          {' • '}
+          {snapshot.recordCount} records, {snapshot.imageCount} photos
+          {' • '}
+          {formatFileSize(snapshot.archive.size)}
+        </div>
+      </div>
+      <div className="event-item__actions">
+        <button
+          className="btn btn--small"
+          onClick={() => setConfirm({ action: 'restore', snapshot })}
+          disabled={busy}
+        >
+          Restore
+        </button>
+        <button className="btn btn--small" onClick={() => handleDownload(snapshot)}>
+          Download
+        </button>
+        <button
+          className="btn btn--small btn--danger"
+          onClick={() => setConfirm({ action: 'delete', snapshot })}
+          disabled={busy}
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      {/* Header */}
+      <header className="drill-header">
+        <button className="drill-header__back" onClick={() => navigate('/')}>
+          ‹
+        </button>
+        <h1 className="drill-header__title">Backups</h1>
+        <AppMenu />
+      </header>
+
+      <StorageWarning />
+
+      <div className="filter-bar">
+        <label className="form-label" htmlFor="backupCount">
+          Daily snapshots
+        </label>
+        <select
+          id="backupCount"
+          className="form-input"
+          value={settings?.backupSnapshotCount ?? ''}
+          onChange={e => handleCountChange(Number(e.target.value))}
+        >
+          {BACKUP_COUNT_OPTIONS.map(count => (
+            <option key={count} value={count}>
+              {count === 0 ? 'Off' : `Keep last ${count}`}
+            </option>
+          ))}
+        </select>
+        <button className="btn btn--primary" onClick={handleBackUpNow} disabled={busy}>
+          {busy ? 'Working…' : 'Back Up Now'}
+        </button>
+      </div>
+
+      {message && <p className="room-section room-section__empty">{message}</p>}
+
+      <section className="room-section">
+        <p className="room-section__empty">
+          Snapshots stay on this device. Download one now and then to keep a copy elsewhere;
+          it can be loaded with Import.
+        </p>
+        {snapshots?.length === 0 && <p className="room-section__empty">No snapshots yet</p>}
+        {snapshots?.map(renderSnapshot)}
+      </section>
+
+      {/* Restore / Delete Confirmation */}
+      <AlertDialog.Root open={!!confirm} onOpenChange={open => !open && setConfirm(null)}>
+        <AlertDialog.Portal>
+          <AlertDialog.Overlay className="alert-dialog-overlay" />
+          <AlertDialog.Content className="alert-dialog-content">
+            <AlertDialog.Title className="alert-dialog-title">
+              {confirm?.action === 'restore' ? 'Restore Snapshot?' : 'Delete Snapshot?'}
+            </AlertDialog.Title>
+            <AlertDialog.Description className="alert-dialog-description">
+              {confirm?.action === 'restore'
+                ? `All current data, including photos and the Trash, will be replaced with the
+                  snapshot from ${formatDateTime(confirm.snapshot.createdAt)}. A snapshot of the
+                  current data is saved first.`
+                : `The snapshot from ${formatDateTime(confirm?.snapshot.createdAt)} will be
+                  permanently deleted.`}
+            </AlertDialog.Description>
+            <div className="alert-dialog-actions">
+              <AlertDialog.Cancel asChild>
+                <button className="btn">Cancel</button>
+              </AlertDialog.Cancel>
+              <AlertDialog.Action asChild>
+                <button className="btn btn--danger" onClick={handleConfirm}>
+                  {confirm?.action === 'restore' ? 'Restore' : 'Delete'}
+                </button>
+              </AlertDialog.Action>
+            </div>
+          </AlertDialog.Content>
+        </AlertDialog.Portal>
+      </AlertDialog.Root>
+    </>
+  );
+}
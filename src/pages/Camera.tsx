@@ -1,17 +1,31 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { v4 as uuidv4 } from 'uuid';
 import { useCamera } from '../hooks/useCamera';
+import { db, resolveImageLinks } from '../db';
+import { resizeImage, createThumbnail, parseTags } from '../lib/images';
 
 type CameraMode = 'INITIAL' | 'CROP' | 'PREVIEW';
 
 const MAX_SCALE = 5;
 const MAX_DIMENSION = 4096;
 const JPEG_QUALITY = 0.92;
-const CROP_HANDLE_HEIGHT = 30;
+
+// Keys typed into the caption and tags fields are not shortcuts
+function isEditableTarget(target: EventTarget | null) {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA');
+}
 
 export default function Camera() {
   const navigate = useNavigate();
 
+  // Target context: where the photo will be attached
+  const [searchParams] = useSearchParams();
+  const eventId = searchParams.get('eventId') || undefined;
+  const equipmentId = searchParams.get('equipmentId') || undefined;
+  const roomId = searchParams.get('roomId') || undefined;
+
   // Mode state
   const [mode, setMode] = useState<CameraMode>('INITIAL');
 
@@ -38,6 +52,10 @@ export default function Camera() {
   const [croppedBlob, setCroppedBlob] = useState<Blob | null>(null);
   const [croppedDimensions, setCroppedDimensions] = useState<{ width: number; height: number } | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [caption, setCaption] = useState('');
+  const [tags, setTags] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
 
   // Refs
   const cropContainerRef = useRef<HTMLDivElement>(null);
@@ -145,10 +163,6 @@ export default function Camera() {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Calculate visible area based on current transform
-    const containerHeight = cropContainerRef.current.clientHeight;
-    const containerWidth = cropContainerRef.current.clientWidth;
-
     // For now, simple crop to the cropY line
     const sourceWidth = capturedImage.width;
     const sourceHeight = capturedImage.height;
@@ -201,17 +215,37 @@ export default function Camera() {
     );
   }, [capturedImage, cropY, scale, rotation, previewUrl]);
 
-  const handleSave = useCallback(() => {
-    if (croppedBlob) {
-      console.log('Saving image:', {
-        blob: croppedBlob,
-        size: croppedBlob.size,
-        dimensions: croppedDimensions,
+  const handleSave = useCallback(async () => {
+    if (!croppedBlob || saving) return;
+    setSaving(true);
+    setSaveError(null);
+
+    try {
+      const links = await resolveImageLinks({ eventId, equipmentId, roomId });
+      const blob = await resizeImage(croppedBlob, MAX_DIMENSION, JPEG_QUALITY);
+      const thumbnailBlob = await createThumbnail(blob);
+      const now = new Date();
+      const id = uuidv4();
+
+      await db.images.add({
+        id,
+        ...links,
+        filename: `IMG_${now.toISOString().replace(/[-:]/g, '').slice(0, 15)}_${id.slice(0, 8)}.jpg`,
+        mimeType: blob.type || 'image/jpeg',
+        blob,
+        thumbnailBlob,
+        caption: caption.trim() || undefined,
+        tags: parseTags(tags),
+        capturedAt: now,
+        createdAt: now,
       });
-      // TODO: Integrate with db.images.add()
+
       navigate(-1);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save photo');
+      setSaving(false);
     }
-  }, [croppedBlob, croppedDimensions, navigate]);
+  }, [croppedBlob, saving, eventId, equipmentId, roomId, caption, tags, navigate]);
 
   // Touch handlers for CROP mode
   const handleTouchStart = useCallback((e: React.TouchEvent) => {
@@ -335,6 +369,7 @@ export default function Camera() {
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
       if (mode === 'CROP') {
         switch (e.key) {
           case 'Escape':
@@ -373,15 +408,6 @@ export default function Camera() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [mode, handleRetake, handleDone, handleRotate, handleSave]);
 
-  // Calculate image dimensions for display
-  const getImageDimensions = () => {
-    if (!capturedImage) return { width: 0, height: 0 };
-    if (rotation === 90 || rotation === 270) {
-      return { width: capturedImage.height, height: capturedImage.width };
-    }
-    return { width: capturedImage.width, height: capturedImage.height };
-  };
-
   return (
     <>
       {/* INITIAL MODE - Viewfinder */}
@@ -507,12 +533,30 @@ export default function Camera() {
             </span>
           </div>
 
+          <div className="camera-preview__meta">
+            <input
+              className="form-input"
+              placeholder="Caption"
+              value={caption}
+              onChange={e => setCaption(e.target.value)}
+              aria-label="Caption"
+            />
+            <input
+              className="form-input"
+              placeholder="Tags (comma separated)"
+              value={tags}
+              onChange={e => setTags(e.target.value)}
+              aria-label="Tags"
+            />
+            {saveError && <p className="camera-preview__error">{saveError}</p>}
+          </div>
+
           <div className="camera-preview__controls">
-            <button className="btn" onClick={handleRetake}>
+            <button className="btn" onClick={handleRetake} disabled={saving}>
               Retake
             </button>
-            <button className="btn btn--primary" onClick={handleSave}>
-              Save
+            <button className="btn btn--primary" onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving…' : 'Save'}
             </button>
           </div>
         </div>
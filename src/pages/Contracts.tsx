@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { getSettings, saveSetting } from '../db';
+import { enableContractNotifications, isBackgroundReminderSupported } from '../db/contracts';
+import { useHierarchy } from '../hooks/useHierarchy';
+import AppMenu from '../components/AppMenu';
+import {
+  SERVICE_CONTRACT_TYPE_LABELS,
+  daysUntil,
+  describeDaysLeft,
+  expiryStatus,
+  formatLeadTimes,
+  parseLeadTimes,
+  sortByContractExpiry,
+} from '../lib/contracts';
+import { formatDate } from '../lib/dates';
+
+const STATUS_BADGES = {
+  expired: 'overdue',
+  expiring: 'scheduled',
+  ok: 'completed',
+} as const;
+
+function notificationPermission() {
+  return 'Notification' in window ? Notification.permission : 'unsupported';
+}
+
+/**
+ * Service contracts and warranties of all equipment in service, soonest
+ * expiry first, with the reminder lead times and notification permission.
+ */
+export default function Contracts() {
+  const navigate = useNavigate();
+  const [permission, setPermission] = useState(notificationPermission);
+  const [leadTimesError, setLeadTimesError] = useState<string | null>(null);
+
+  const hierarchy = useHierarchy();
+  const settings = useLiveQuery(() => getSettings());
+
+  const leadTimes = settings?.contractReminderDays ?? [];
+  const equipment = hierarchy ? sortByContractExpiry(Array.from(hierarchy.equipment.values())) : undefined;
+
+  const handleLeadTimesBlur = async (text: string) => {
+    const days = parseLeadTimes(text);
+    if (!days) {
+      setLeadTimesError('Enter whole days separated by commas, e.g. 90, 60, 30');
+      return;
+    }
+    setLeadTimesError(null);
+    await saveSetting('contractReminderDays', days);
+  };
+
+  const handleEnable = async () => {
+    setPermission(await enableContractNotifications());
+  };
+
+  const renderExpiry = (label: string, date: Date | undefined) => {
+    if (!date) return null;
+    const daysLeft = daysUntil(date);
+    return (
+      <div className="event-item__meta">
+        {label}: {formatDate(date)}
+        {' '}
+        <span className={`status-badge status-badge--${STATUS_BADGES[expiryStatus(daysLeft, leadTimes)]}`}>
+          {describeDaysLeft(daysLeft)}
+        </span>
+      </div>
+    );
+  };
+
+  const permissionStatus = {
+    granted: isBackgroundReminderSupported()
+      ? 'Notifications on'
+      : 'Notifications on; this browser shows them when the app is opened',
+    denied: 'Notifications are blocked in the browser settings',
+    default: 'Notifications off',
+    unsupported: 'This browser does not support notifications',
+  }[permission];
+
+  return (
+    <>
+      {/* Header */}
+      <header className="drill-header">
+        <button className="drill-header__back" onClick={() => navigate('/')}>
+          ‹
+        </button>
+        <h1 className="drill-header__title">Contracts</h1>
+        <AppMenu />
+      </header>
+
+      <section className="room-section">
+        <h2 className="room-section__title">Reminders</h2>
+        {settings && (
+          <div className="form-group">
+            <label className="form-label" htmlFor="contractReminderDays">
+              Days before expiry
+            </label>
+            <input
+              id="contractReminderDays"
+              className="form-input"
+              defaultValue={formatLeadTimes(settings.contractReminderDays)}
+              onBlur={e => handleLeadTimesBlur(e.target.value)}
+              placeholder="90, 60, 30"
+            />
+            {leadTimesError && <p className="measurement-group__error">{leadTimesError}</p>}
+          </div>
+        )}
+        <div className="form-actions">
+          <span className="sync-status">{permissionStatus}</span>
+          {permission === 'default' && (
+            <button className="btn btn--primary" onClick={handleEnable}>
+              Enable Notifications
+            </button>
+          )}
+        </div>
+      </section>
+
+      <section className="room-section">
+        <h2 className="room-section__title">Equipment ({equipment?.length ?? 0})</h2>
+        {equipment?.length === 0 && (
+          <p className="room-section__empty">No equipment in service</p>
+        )}
+        {equipment?.map(item => (
+          <div key={item.id} className="event-item">
+            <div
+              className="event-item__main event-item__main--link"
+              onClick={() => {
+                const path = hierarchy?.equipmentPath(item.id);
+                if (path) navigate(path);
+              }}
+            >
+              <div className="event-item__title">{item.name}</div>
+              <div className="event-item__meta">{hierarchy?.roomLabel(item.roomId)}</div>
+              {(item.serviceContractVendor || item.serviceContractType) && (
+                <div className="event-item__meta">
+                  {[
+                    item.serviceContractVendor,
+                    item.serviceContractType && SERVICE_CONTRACT_TYPE_LABELS[item.serviceContractType],
+                  ].filter(Boolean).join(' • ')}
+                </div>
+              )}
+              {item.serviceContractCoverage && (
+                <div className="event-item__meta">{item.serviceContractCoverage}</div>
+              )}
+              {renderExpiry('Contract', item.serviceContractExpiry)}
+              {renderExpiry('Warranty', item.warrantyExpiry)}
+              {!item.serviceContractExpiry && !item.warrantyExpiry && (
+                <div className="event-item__meta">No contract or warranty recorded</div>
+              )}
+            </div>
+          </div>
+        ))}
+      </section>
+    </>
+  );
+}
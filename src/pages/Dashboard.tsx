@@ -0,0 +1,212 @@
+import type { ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, getSettings, isLive } from '../db';
+import { useHierarchy } from '../hooks/useHierarchy';
+import AppMenu from '../components/AppMenu';
+import { DASHBOARD_CARD_LIMIT, UPCOMING_DAYS, summarizeDashboard } from '../lib/dashboard';
+import { describeDaysLeft } from '../lib/contracts';
+import {
+  EVENT_TYPE_LABELS,
+  EVENT_STATUS_LABELS,
+  getEventDate,
+  isEventOverdue,
+} from '../lib/events';
+import { formatDate } from '../lib/dates';
+import type { SupportEvent } from '../types';
+
+interface DashboardCardProps {
+  title: string;
+  count: number;
+  empty: string;
+  /** "View all" target when the card lists only the first few */
+  viewAllPath?: string;
+  children: ReactNode;
+}
+
+function DashboardCard({ title, count, empty, viewAllPath, children }: DashboardCardProps) {
+  const navigate = useNavigate();
+
+  return (
+    <section className="room-section dashboard-card">
+      <div className="dashboard-card__header">
+        <h2 className="room-section__title">
+          {title} ({count})
+        </h2>
+        {viewAllPath && count > DASHBOARD_CARD_LIMIT && (
+          <button className="btn btn--small" onClick={() => navigate(viewAllPath)}>
+            View all
+          </button>
+        )}
+      </div>
+      {count === 0 ? <p className="room-section__empty">{empty}</p> : children}
+    </section>
+  );
+}
+
+/**
+ * Home page: overdue and upcoming work, scanners failing their last QC,
+ * service contracts running out, open incidents and recent changes.
+ */
+export default function Dashboard() {
+  const navigate = useNavigate();
+
+  const hierarchy = useHierarchy();
+  const events = useLiveQuery(() => db.events.filter(isLive).toArray());
+  const baselines = useLiveQuery(() => db.baselines.filter(isLive).toArray());
+  const settings = useLiveQuery(() => getSettings());
+
+  const summary = hierarchy && events && baselines && settings
+    ? summarizeDashboard(
+      events,
+      Array.from(hierarchy.equipment.values()),
+      baselines,
+      Math.max(0, ...settings.contractReminderDays)
+    )
+    : undefined;
+
+  const renderEvent = (event: SupportEvent, date = getEventDate(event)) => {
+    const equipment = hierarchy?.equipment.get(event.equipmentId);
+    const overdue = isEventOverdue(event);
+    const path = hierarchy?.eventPath(event);
+
+    return (
+      <div key={event.id} className="event-item">
+        <div
+          className="event-item__main event-item__main--link"
+          onClick={() => path && navigate(path)}
+        >
+          <div className="event-item__title">{event.title}</div>
+          <div className="event-item__meta">
+            {EVENT_TYPE_LABELS[event.type]}
+            {' • '}
+            {hierarchy?.roomLabel(event.roomId)}
+            {equipment && ` › ${equipment.name}`}
+          </div>
+          <div className="event-item__meta">
+            {formatDate(date) || 'Unscheduled'}
+            {' '}
+            <span className={`status-badge status-badge--${overdue ? 'overdue' : event.status}`}>
+              {overdue ? 'Overdue' : EVENT_STATUS_LABELS[event.status]}
+            </span>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <header className="drill-header">
+        <div className="drill-header__back" style={{ visibility: 'hidden' }}>
+          {/* No back button at root level */}
+        </div>
+        <h1 className="drill-header__title">Dashboard</h1>
+        <AppMenu />
+      </header>
+
+      <div className="drill-list">
+        <div className="drill-item" onClick={() => navigate('/organizations')}>
+          <span className="drill-item__text">Organizations</span>
+          <span className="drill-item__chevron">›</span>
+        </div>
+      </div>
+
+      {summary && (
+        <div className="dashboard">
+          <DashboardCard
+            title="Overdue"
+            count={summary.overdue.length}
+            empty="Nothing overdue"
+            viewAllPath="/events"
+          >
+            {summary.overdue.slice(0, DASHBOARD_CARD_LIMIT).map(event => renderEvent(event))}
+          </DashboardCard>
+
+          <DashboardCard
+            title={`Next ${UPCOMING_DAYS} Days`}
+            count={summary.upcoming.length}
+            empty="Nothing scheduled"
+            viewAllPath="/events"
+          >
+            {summary.upcoming.slice(0, DASHBOARD_CARD_LIMIT).map(event => renderEvent(event))}
+          </DashboardCard>
+
+          <DashboardCard
+            title="Failed Last QC"
+            count={summary.failingQC.length}
+            empty="All scanners passed their last QC"
+          >
+            {summary.failingQC.map(({ equipment, event, failures }) => (
+              <div key={equipment.id} className="event-item">
+                <div
+                  className="event-item__main event-item__main--link"
+                  onClick={() => {
+                    const path = hierarchy?.eventPath(event);
+                    if (path) navigate(path);
+                  }}
+                >
+                  <div className="event-item__title">{equipment.name}</div>
+                  <div className="event-item__meta">{hierarchy?.roomLabel(equipment.roomId)}</div>
+                  <div className="event-item__meta">
+                    {formatDate(event.completedAt)}
+                    {' '}
+                    <span className="status-badge status-badge--overdue">
+                      {failures.join(', ')}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </DashboardCard>
+
+          <DashboardCard
+            title="Service Contracts"
+            count={summary.expiringContracts.length}
+            empty="No contracts expiring soon"
+            viewAllPath="/contracts"
+          >
+            {summary.expiringContracts.slice(0, DASHBOARD_CARD_LIMIT).map(({ equipment, daysLeft }) => (
+              <div key={equipment.id} className="event-item">
+                <div
+                  className="event-item__main event-item__main--link"
+                  onClick={() => {
+                    const path = hierarchy?.equipmentPath(equipment.id);
+                    if (path) navigate(path);
+                  }}
+                >
+                  <div className="event-item__title">{equipment.name}</div>
+                  <div className="event-item__meta">{hierarchy?.roomLabel(equipment.roomId)}</div>
+                  <div className="event-item__meta">
+                    {formatDate(equipment.serviceContractExpiry)}
+                    {' '}
+                    <span className={`status-badge status-badge--${daysLeft < 0 ? 'overdue' : 'scheduled'}`}>
+                      {describeDaysLeft(daysLeft)}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </DashboardCard>
+
+          <DashboardCard
+            title="Open Incidents"
+            count={summary.openIncidents.length}
+            empty="No open incidents"
+            viewAllPath="/events?type=incident"
+          >
+            {summary.openIncidents.slice(0, DASHBOARD_CARD_LIMIT).map(event => renderEvent(event))}
+          </DashboardCard>
+
+          <DashboardCard
+            title="Recent Activity"
+            count={summary.recentActivity.length}
+            empty="No activity yet"
+          >
+            {summary.recentActivity.map(event => renderEvent(event, event.updatedAt))}
+          </DashboardCard>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,459 @@
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import * as AlertDialog from '@radix-ui/react-alert-dialog';
+import {
+  db,
+  getEquipmentWithEvents,
+  getEquipmentImages,
+  getBaselines,
+  getSchedules,
+  deleteEquipment,
+  deleteSchedule,
+  resolveHierarchy,
+  live,
+  startCoilQC,
+} from '../db';
+import ImageGallery from '../components/ImageGallery';
+import EquipmentDialog from '../components/EquipmentDialog';
+import EventFormDialog from '../components/EventFormDialog';
+import TrendChart from '../components/TrendChart';
+import BaselineSection from '../components/BaselineSection';
+import CoilBaselineSection from '../components/CoilBaselineSection';
+import ScheduleDialog from '../components/ScheduleDialog';
+import DeleteConfirmDialog from '../components/DeleteConfirmDialog';
+import Breadcrumbs from '../components/Breadcrumbs';
+import CopyLinkButton from '../components/CopyLinkButton';
+import { EQUIPMENT_TYPE_LABELS, EQUIPMENT_STATUS_LABELS } from '../lib/equipment';
+import { SERVICE_CONTRACT_TYPE_LABELS } from '../lib/contracts';
+import { describeCoil } from '../lib/coils';
+import {
+  EVENT_TYPE_LABELS,
+  EVENT_STATUS_LABELS,
+  getEventDate,
+  isEventOverdue,
+} from '../lib/events';
+import { DEFAULT_FIELD_STRENGTH, parseFieldStrength } from '../lib/acr';
+import { TREND_METRICS, buildTrend } from '../lib/trends';
+import { describeSchedule, isScheduleOverdue } from '../lib/schedules';
+import { formatDate } from '../lib/dates';
+import { hierarchyPath, parentPath } from '../lib/hierarchy';
+import type { Schedule } from '../types';
+
+export default function EquipmentDetail() {
+  const navigate = useNavigate();
+  const { orgId, siteId, roomId, equipmentId } = useParams<{
+    orgId: string;
+    siteId: string;
+    roomId: string;
+    equipmentId: string;
+  }>();
+
+  const [editOpen, setEditOpen] = useState(false);
+  const [addEventOpen, setAddEventOpen] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  // Schedule dialog state (null = closed, undefined schedule = add)
+  const [dialogSchedule, setDialogSchedule] = useState<{ schedule?: Schedule } | null>(null);
+  const [deleteScheduleTarget, setDeleteScheduleTarget] = useState<Schedule | null>(null);
+
+  // Data
+  const data = useLiveQuery(
+    () => equipmentId ? getEquipmentWithEvents(equipmentId) : undefined,
+    [equipmentId]
+  );
+
+  const chain = useLiveQuery(
+    async () => equipmentId ? resolveHierarchy(equipmentId, 'equipment') : null,
+    [equipmentId]
+  );
+
+  const images = useLiveQuery(
+    () => equipmentId ? getEquipmentImages(equipmentId) : [],
+    [equipmentId]
+  );
+
+  const baselines = useLiveQuery(
+    () => equipmentId ? getBaselines(equipmentId) : [],
+    [equipmentId]
+  );
+
+  const schedules = useLiveQuery(
+    () => equipmentId ? getSchedules(equipmentId) : [],
+    [equipmentId]
+  );
+
+  const equipment = data?.equipment;
+  const scannerId = equipment?.type === 'coil' ? equipment.compatibleScannerId : undefined;
+  const compatibleScanner = useLiveQuery(
+    async () => scannerId ? live(await db.equipment.get(scannerId)) : undefined,
+    [scannerId]
+  );
+  const events = data?.events
+    .slice()
+    .sort((a, b) => getEventDate(b).getTime() - getEventDate(a).getTime());
+
+  // QC trends (scanners only), hiding metrics that were never recorded
+  const fieldStrength = parseFieldStrength(equipment?.fieldStrength) ?? DEFAULT_FIELD_STRENGTH;
+  const trends = equipment?.type === 'mri_scanner' && data
+    ? TREND_METRICS
+      .map(metric => buildTrend(data.events, metric, fieldStrength, baselines))
+      .filter(trend => trend.points.length > 0)
+    : [];
+  const flaggedPoints = trends
+    .flatMap(trend => trend.points
+      .filter(point => point.outOfLimits)
+      .map(point => ({ trend, point })))
+    .sort((a, b) => b.point.date.getTime() - a.point.date.getTime());
+
+  // Navigation, by the resolved hierarchy once loaded
+  const roomPath = chain
+    ? parentPath(chain)
+    : `/organizations/${orgId}/sites/${siteId}/rooms/${roomId}`;
+  const equipmentPath = chain ? hierarchyPath(chain) : `${roomPath}/equipment/${equipmentId}`;
+
+  const handleBack = () => {
+    navigate(roomPath);
+  };
+
+  const handleCoilQC = async () => {
+    if (!equipment) return;
+    const eventId = await startCoilQC(equipment.id);
+    navigate(`${equipmentPath}/events/${eventId}`);
+  };
+
+  const handleAddPhoto = () => {
+    navigate(`/camera?equipmentId=${equipmentId}`);
+  };
+
+  const handleScheduleDelete = (schedule: Schedule) => {
+    setDialogSchedule(null);
+    setDeleteScheduleTarget(schedule);
+  };
+
+  const handleScheduleDeleteConfirm = async () => {
+    if (!deleteScheduleTarget) return;
+    await deleteSchedule(deleteScheduleTarget.id);
+    setDeleteScheduleTarget(null);
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!equipment) return;
+    await deleteEquipment(equipment.id);
+    navigate(roomPath, { replace: true });
+  };
+
+  const headerTitle = equipment?.name || 'Equipment';
+
+  return (
+    <>
+      {/* Header */}
+      <header className="drill-header">
+        <button className="drill-header__back" onClick={handleBack}>
+          ‹
+        </button>
+        <h1 className="drill-header__title">{headerTitle}</h1>
+      </header>
+      <Breadcrumbs chain={chain} />
+
+      {data === null && (
+        <p className="room-section room-section__empty">Equipment not found</p>
+      )}
+
+      {/* Equipment Info */}
+      {equipment && (
+        <div className="room-info">
+          <p className="room-info__detail">
+            <strong>Type:</strong> {EQUIPMENT_TYPE_LABELS[equipment.type]}
+            {' • '}
+            {EQUIPMENT_STATUS_LABELS[equipment.status]}
+          </p>
+          <p className="room-info__detail">
+            <strong>Manufacturer:</strong> {equipment.manufacturer}
+            {equipment.model && ` ${equipment.model}`}
+          </p>
+          {equipment.serialNumber && (
+            <p className="room-info__detail">
+              <strong>Serial:</strong> {equipment.serialNumber}
+            </p>
+          )}
+          {(equipment.coilAnatomy || equipment.channelCount) && (
+            <p className="room-info__detail">
+              <strong>Coil:</strong> {describeCoil(equipment)}
+            </p>
+          )}
+          {equipment.coilConnector && (
+            <p className="room-info__detail">
+              <strong>Connector:</strong> {equipment.coilConnector}
+            </p>
+          )}
+          {equipment.partNumber && (
+            <p className="room-info__detail">
+              <strong>Part Number:</strong> {equipment.partNumber}
+            </p>
+          )}
+          {compatibleScanner && (
+            <p className="room-info__detail">
+              <strong>Scanner:</strong> {compatibleScanner.name}
+            </p>
+          )}
+          {equipment.fieldStrength && (
+            <p className="room-info__detail">
+              <strong>Field Strength:</strong> {equipment.fieldStrength}
+            </p>
+          )}
+          {equipment.softwareVersion && (
+            <p className="room-info__detail">
+              <strong>Software:</strong> {equipment.softwareVersion}
+            </p>
+          )}
+          {equipment.installDate && (
+            <p className="room-info__detail">
+              <strong>Installed:</strong> {formatDate(equipment.installDate)}
+            </p>
+          )}
+          {(equipment.serviceContractVendor || equipment.serviceContractType) && (
+            <p className="room-info__detail">
+              <strong>Service Contract:</strong>{' '}
+              {[
+                equipment.serviceContractVendor,
+                equipment.serviceContractType && SERVICE_CONTRACT_TYPE_LABELS[equipment.serviceContractType],
+              ].filter(Boolean).join(' • ')}
+            </p>
+          )}
+          {equipment.serviceContractExpiry && (
+            <p className="room-info__detail">
+              <strong>Service Contract Expires:</strong> {formatDate(equipment.serviceContractExpiry)}
+            </p>
+          )}
+          {equipment.serviceContractCoverage && (
+            <p className="room-info__detail">
+              <strong>Coverage:</strong> {equipment.serviceContractCoverage}
+            </p>
+          )}
+          {equipment.warrantyExpiry && (
+            <p className="room-info__detail">
+              <strong>Warranty Expires:</strong> {formatDate(equipment.warrantyExpiry)}
+            </p>
+          )}
+          {Object.entries(equipment.customFields ?? {}).map(([key, value]) => (
+            <p key={key} className="room-info__detail">
+              <strong>{key}:</strong> {value}
+            </p>
+          ))}
+          {equipment.notes && (
+            <p className="room-info__detail">
+              <strong>Notes:</strong> {equipment.notes}
+            </p>
+          )}
+          <div className="room-info__actions">
+            {equipment.type === 'mri_scanner' && (
+              <button
+                className="btn btn--small btn--primary"
+                onClick={() => navigate(`/qc?equipmentId=${equipment.id}`)}
+              >
+                Weekly QC
+              </button>
+            )}
+            {equipment.type === 'coil' && (
+              <button className="btn btn--small btn--primary" onClick={handleCoilQC}>
+                Coil QC
+              </button>
+            )}
+            <CopyLinkButton level="equipment" id={equipment.id} />
+            <button className="btn btn--small" onClick={() => setEditOpen(true)}>
+              Edit
+            </button>
+            <button className="btn btn--small btn--danger" onClick={() => setConfirmDelete(true)}>
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Recurring Schedules */}
+      <section className="room-section">
+        <h2 className="room-section__title">Schedules</h2>
+        <div className="drill-list">
+          {schedules?.length === 0 && (
+            <p className="room-section__empty">No recurring work scheduled</p>
+          )}
+          {schedules?.map(schedule => {
+            const overdue = isScheduleOverdue(schedule);
+            return (
+              <div
+                key={schedule.id}
+                className="drill-item"
+                onClick={() => setDialogSchedule({ schedule })}
+              >
+                <span className="drill-item__text">
+                  {schedule.title}
+                  <span className="event-item__meta">
+                    {' '}
+                    {describeSchedule(schedule)} • Next due {formatDate(schedule.nextDueDate)}
+                  </span>
+                </span>
+                {!schedule.active && (
+                  <span className="status-badge status-badge--cancelled">Paused</span>
+                )}
+                {overdue && <span className="status-badge status-badge--overdue">Overdue</span>}
+              </div>
+            );
+          })}
+          <div className="drill-item drill-item--add" onClick={() => setDialogSchedule({})}>
+            <span className="drill-item__text">+ Add Schedule</span>
+          </div>
+        </div>
+      </section>
+
+      {/* History */}
+      <section className="room-section">
+        <h2 className="room-section__title">History</h2>
+        <div className="drill-list">
+          {events?.length === 0 && (
+            <p className="room-section__empty">No events recorded yet</p>
+          )}
+          {events?.map(event => {
+            const overdue = isEventOverdue(event);
+            return (
+              <div
+                key={event.id}
+                className="drill-item"
+                onClick={() => navigate(`${equipmentPath}/events/${event.id}`)}
+              >
+                <span className="drill-item__text">
+                  {event.title}
+                  <span className="event-item__meta">
+                    {' '}
+                    {EVENT_TYPE_LABELS[event.type]} • {formatDate(getEventDate(event))}
+                  </span>
+                </span>
+                <span className={`status-badge status-badge--${overdue ? 'overdue' : event.status}`}>
+                  {overdue ? 'Overdue' : EVENT_STATUS_LABELS[event.status]}
+                </span>
+              </div>
+            );
+          })}
+          <div className="drill-item drill-item--add" onClick={() => setAddEventOpen(true)}>
+            <span className="drill-item__text">+ Add Event</span>
+          </div>
+        </div>
+      </section>
+
+      {equipment?.type === 'mri_scanner' && data && baselines && (
+        <BaselineSection equipment={equipment} events={data.events} baselines={baselines} />
+      )}
+
+      {equipment?.type === 'coil' && data && baselines && (
+        <CoilBaselineSection coil={equipment} events={data.events} baselines={baselines} />
+      )}
+
+      {/* Trends */}
+      {trends.length > 0 && (
+        <section className="room-section">
+          <h2 className="room-section__title">QC Trends</h2>
+          {trends.map(trend => (
+            <TrendChart
+              key={trend.metric.id}
+              trend={trend}
+              onSelectEvent={id => navigate(`${equipmentPath}/events/${id}`)}
+            />
+          ))}
+          {flaggedPoints.length > 0 && (
+            <>
+              <h3 className="trend-flags__title">Outside Action Limits</h3>
+              <div className="drill-list">
+                {flaggedPoints.map(({ trend, point }) => (
+                  <div
+                    key={`${trend.metric.id}-${point.eventId}-${point.series}`}
+                    className="drill-item"
+                    onClick={() => navigate(`${equipmentPath}/events/${point.eventId}`)}
+                  >
+                    <span className="drill-item__text">
+                      {trend.metric.label}: {point.value.toFixed(trend.metric.digits)}
+                      {trend.metric.unit && ` ${trend.metric.unit}`}
+                      <span className="event-item__meta">
+                        {' '}
+                        {point.series} • {formatDate(point.date)}
+                      </span>
+                    </span>
+                    <span className="result result--fail">Fail</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </section>
+      )}
+
+      {/* Photos Section */}
+      <section className="room-section">
+        <h2 className="room-section__title">Photos</h2>
+        <ImageGallery images={images} onAdd={handleAddPhoto} />
+      </section>
+
+      {/* Edit Dialog */}
+      {editOpen && equipment && (
+        <EquipmentDialog
+          roomId={equipment.roomId}
+          equipment={equipment}
+          onClose={() => setEditOpen(false)}
+        />
+      )}
+
+      {/* Add/Edit Schedule Dialog */}
+      {dialogSchedule && equipmentId && (
+        <ScheduleDialog
+          key={dialogSchedule.schedule?.id ?? 'new'}
+          equipmentId={equipmentId}
+          schedule={dialogSchedule.schedule}
+          onClose={() => setDialogSchedule(null)}
+          onDelete={handleScheduleDelete}
+        />
+      )}
+
+      {/* Delete Schedule Confirmation */}
+      <AlertDialog.Root
+        open={!!deleteScheduleTarget}
+        onOpenChange={open => !open && setDeleteScheduleTarget(null)}
+      >
+        <AlertDialog.Portal>
+          <AlertDialog.Overlay className="alert-dialog-overlay" />
+          <AlertDialog.Content className="alert-dialog-content">
+            <AlertDialog.Title className="alert-dialog-title">
+              Delete Schedule?
+            </AlertDialog.Title>
+            <AlertDialog.Description className="alert-dialog-description">
+              "{deleteScheduleTarget?.title}" and its upcoming event will be moved to the Trash
+              and stop recurring until restored. Completed events are kept.
+            </AlertDialog.Description>
+            <div className="alert-dialog-actions">
+              <AlertDialog.Cancel asChild>
+                <button className="btn">Cancel</button>
+              </AlertDialog.Cancel>
+              <AlertDialog.Action asChild>
+                <button className="btn btn--danger" onClick={handleScheduleDeleteConfirm}>
+                  Delete
+                </button>
+              </AlertDialog.Action>
+            </div>
+          </AlertDialog.Content>
+        </AlertDialog.Portal>
+      </AlertDialog.Root>
+
+      <EventFormDialog
+        open={addEventOpen}
+        onOpenChange={setAddEventOpen}
+        equipmentId={equipmentId}
+      />
+
+      {/* Delete Confirmation */}
+      <DeleteConfirmDialog
+        level="equipment"
+        target={confirmDelete ? equipment ?? null : null}
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setConfirmDelete(false)}
+      />
+    </>
+  );
+}
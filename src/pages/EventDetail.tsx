@@ -0,0 +1,487 @@
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { v4 as uuidv4 } from 'uuid';
+import * as Dialog from '@radix-ui/react-dialog';
+import {
+  db,
+  getEventWithImages,
+  getQCHistory,
+  getBaselines,
+  setEventStatus,
+  deleteEvent,
+  resolveHierarchy,
+} from '../db';
+import ImageGallery from '../components/ImageGallery';
+import TimelineEditor from '../components/TimelineEditor';
+import CustomFieldsEditor from '../components/CustomFieldsEditor';
+import ACRTestForm from '../components/ACRTestForm';
+import QCForm from '../components/QCForm';
+import CoilQCForm from '../components/CoilQCForm';
+import ReportDialog from '../components/ReportDialog';
+import DeleteConfirmDialog from '../components/DeleteConfirmDialog';
+import Breadcrumbs from '../components/Breadcrumbs';
+import CopyLinkButton from '../components/CopyLinkButton';
+import {
+  EVENT_TYPE_LABELS,
+  EVENT_STATUS_LABELS,
+  EVENT_STATUS_TRANSITIONS,
+  EVENT_STATUS_ACTIONS,
+  isEventOverdue,
+} from '../lib/events';
+import { fromCustomFields, toCustomFields } from '../lib/customFields';
+import { parseFieldStrength } from '../lib/acr';
+import { qcReference } from '../lib/qc';
+import { baselineAt, getCurrentBaseline } from '../lib/baselines';
+import { formatDate, formatDateTime } from '../lib/dates';
+import { parentPath } from '../lib/hierarchy';
+import type { EventStatus, QCMeasurements, SupportEvent } from '../types';
+
+interface EventForm {
+  title: string;
+  description: string;
+  findings: string;
+  recommendations: string;
+}
+
+function toForm(event: SupportEvent): EventForm {
+  return {
+    title: event.title,
+    description: event.description ?? '',
+    findings: event.findings ?? '',
+    recommendations: event.recommendations ?? '',
+  };
+}
+
+// Documentation fields for an event; keyed by event id so it resets per event
+function EventDetailsForm({ event }: { event: SupportEvent }) {
+  const [formData, setFormData] = useState<EventForm>(() => toForm(event));
+  const [customFields, setCustomFields] = useState(() => fromCustomFields(event.customFields));
+  const [dirty, setDirty] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    setDirty(true);
+    setSaved(false);
+  };
+
+  const handleCustomFieldsChange = (fields: [string, string][]) => {
+    setCustomFields(fields);
+    setDirty(true);
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await db.events.update(event.id, {
+        title: formData.title.trim(),
+        description: formData.description || undefined,
+        findings: formData.findings || undefined,
+        recommendations: formData.recommendations || undefined,
+        customFields: toCustomFields(customFields),
+        updatedAt: new Date(),
+      });
+      setDirty(false);
+      setSaved(true);
+    } catch (err) {
+      setError(`Save failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="room-section">
+      <h2 className="room-section__title">Details</h2>
+
+      <div className="form-group">
+        <label className="form-label" htmlFor="title">
+          Title *
+        </label>
+        <input
+          id="title"
+          name="title"
+          className="form-input"
+          value={formData.title}
+          onChange={handleChange}
+        />
+      </div>
+
+      <div className="form-group">
+        <label className="form-label" htmlFor="description">
+          Description
+        </label>
+        <textarea
+          id="description"
+          name="description"
+          className="form-input"
+          rows={3}
+          value={formData.description}
+          onChange={handleChange}
+        />
+      </div>
+
+      <div className="form-group">
+        <label className="form-label" htmlFor="findings">
+          Findings
+        </label>
+        <textarea
+          id="findings"
+          name="findings"
+          className="form-input"
+          rows={5}
+          value={formData.findings}
+          onChange={handleChange}
+        />
+      </div>
+
+      <div className="form-group">
+        <label className="form-label" htmlFor="recommendations">
+          Recommendations
+        </label>
+        <textarea
+          id="recommendations"
+          name="recommendations"
+          className="form-input"
+          rows={4}
+          value={formData.recommendations}
+          onChange={handleChange}
+        />
+      </div>
+
+      <div className="form-group">
+        <span className="form-label">Custom Fields</span>
+        <CustomFieldsEditor fields={customFields} onChange={handleCustomFieldsChange} />
+      </div>
+
+      <div className="form-actions">
+        {saved && <span className="form-actions__status">Saved</span>}
+        {error && <span className="measurement-group__error">{error}</span>}
+        <button
+          className="btn btn--primary"
+          onClick={handleSave}
+          disabled={saving || !dirty || !formData.title.trim()}
+        >
+          Save
+        </button>
+      </div>
+    </section>
+  );
+}
+
+export default function EventDetail() {
+  const navigate = useNavigate();
+  const { orgId, siteId, roomId, equipmentId, eventId } = useParams<{
+    orgId: string;
+    siteId: string;
+    roomId: string;
+    equipmentId: string;
+    eventId: string;
+  }>();
+
+  const [timelineDialogOpen, setTimelineDialogOpen] = useState(false);
+  const [timelineName, setTimelineName] = useState('');
+  const [timelineDescription, setTimelineDescription] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [statusError, setStatusError] = useState<string | null>(null);
+
+  // Data
+  const data = useLiveQuery(
+    () => eventId ? getEventWithImages(eventId) : undefined,
+    [eventId]
+  );
+
+  const chain = useLiveQuery(
+    async () => eventId ? resolveHierarchy(eventId, 'event') : null,
+    [eventId]
+  );
+  const equipment = chain?.equipment;
+
+  const qcHistory = useLiveQuery(
+    () => equipmentId ? getQCHistory(equipmentId) : [],
+    [equipmentId]
+  );
+
+  const baselines = useLiveQuery(
+    () => equipmentId ? getBaselines(equipmentId) : [],
+    [equipmentId]
+  );
+
+  const event = data?.event;
+  // Completed QC is compared with the baseline in effect when it was recorded
+  const baseline = baselines && (event?.completedAt
+    ? baselineAt(baselines, event.completedAt)
+    : getCurrentBaseline(baselines));
+  const images = data?.images
+    .slice()
+    .sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+  const timelines = data?.timelines
+    .slice()
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  // Navigation, by the resolved hierarchy once loaded
+  const equipmentPath = chain
+    ? parentPath(chain)
+    : `/organizations/${orgId}/sites/${siteId}/rooms/${roomId}/equipment/${equipmentId}`;
+
+  const handleBack = () => {
+    navigate(equipmentPath);
+  };
+
+  const handleAddPhoto = () => {
+    navigate(`/camera?eventId=${eventId}`);
+  };
+
+  // Timelines
+  const openTimelineDialog = () => {
+    setTimelineName('');
+    setTimelineDescription('');
+    setTimelineDialogOpen(true);
+  };
+
+  const handleStatusChange = async (id: string, status: EventStatus) => {
+    setStatusError(null);
+    try {
+      await setEventStatus(id, status);
+    } catch (err) {
+      setStatusError(`Cannot update status: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleAddTimeline = async () => {
+    if (!eventId) return;
+    const now = new Date();
+    await db.timelines.add({
+      id: uuidv4(),
+      eventId,
+      name: timelineName.trim(),
+      description: timelineDescription.trim() || undefined,
+      imageIds: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+    setTimelineDialogOpen(false);
+  };
+
+  const handleSaveQC = async (qc: QCMeasurements) => {
+    if (!eventId) return;
+    await db.events.update(eventId, { qc, updatedAt: new Date() });
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!event) return;
+    await deleteEvent(event.id);
+    navigate(equipmentPath, { replace: true });
+  };
+
+  const overdue = event && isEventOverdue(event);
+  const headerTitle = event?.title || 'Event';
+
+  return (
+    <>
+      {/* Header */}
+      <header className="drill-header">
+        <button className="drill-header__back" onClick={handleBack}>
+          ‹
+        </button>
+        <h1 className="drill-header__title">{headerTitle}</h1>
+      </header>
+      <Breadcrumbs chain={chain} />
+
+      {data === null && (
+        <p className="room-section room-section__empty">Event not found</p>
+      )}
+
+      {/* Event Info */}
+      {event && (
+        <div className="room-info">
+          <p className="room-info__detail">
+            <strong>Type:</strong> {EVENT_TYPE_LABELS[event.type]}
+            {' '}
+            <span className={`status-badge status-badge--${overdue ? 'overdue' : event.status}`}>
+              {overdue ? 'Overdue' : EVENT_STATUS_LABELS[event.status]}
+            </span>
+          </p>
+          {equipment && (
+            <p className="room-info__detail">
+              <strong>Equipment:</strong> {equipment.name}
+            </p>
+          )}
+          {event.scheduledDate && (
+            <p className="room-info__detail">
+              <strong>Scheduled:</strong> {formatDate(event.scheduledDate)}
+            </p>
+          )}
+          {event.startedAt && (
+            <p className="room-info__detail">
+              <strong>Started:</strong> {formatDateTime(event.startedAt)}
+            </p>
+          )}
+          {event.completedAt && (
+            <p className="room-info__detail">
+              <strong>Completed:</strong> {formatDateTime(event.completedAt)}
+            </p>
+          )}
+          <div className="room-info__actions">
+            {EVENT_STATUS_TRANSITIONS[event.status].map(status => (
+              <button
+                key={status}
+                className={`btn btn--small${status === 'cancelled' ? ' btn--danger' : ''}`}
+                onClick={() => handleStatusChange(event.id, status)}
+              >
+                {EVENT_STATUS_ACTIONS[status]}
+              </button>
+            ))}
+            <CopyLinkButton level="event" id={event.id} />
+          </div>
+          {statusError && <p className="measurement-group__error">{statusError}</p>}
+        </div>
+      )}
+
+      {event && <EventDetailsForm key={event.id} event={event} />}
+
+      {event?.type === 'acr_test' && equipment && (
+        <ACRTestForm
+          key={event.id}
+          event={event}
+          fieldStrength={parseFieldStrength(equipment.fieldStrength)}
+        />
+      )}
+
+      {(event?.type === 'qc_check' || event?.type === 'acceptance_test') && qcHistory && baselines && (
+        <section className="room-section">
+          <h2 className="room-section__title">QC Measurements</h2>
+          <QCForm
+            key={event.id}
+            initial={event.qc}
+            reference={baseline?.values ?? qcReference(qcHistory)}
+            tolerances={baseline?.limits}
+            saveLabel="Save Measurements"
+            onSave={handleSaveQC}
+          />
+        </section>
+      )}
+
+      {event?.type === 'coil_qc' && equipment && baselines && (
+        <section className="room-section">
+          <h2 className="room-section__title">Coil QC</h2>
+          <CoilQCForm key={event.id} event={event} coil={equipment} baseline={baseline} />
+        </section>
+      )}
+
+      {/* Photos Section */}
+      <section className="room-section">
+        <h2 className="room-section__title">Photos</h2>
+        <ImageGallery images={images} onAdd={handleAddPhoto} />
+      </section>
+
+      {/* Timelines Section */}
+      <section className="room-section">
+        <h2 className="room-section__title">Timelines</h2>
+        {timelines?.length === 0 && (
+          <p className="room-section__empty">
+            Group photos into sequences, e.g. before repair / during / after
+          </p>
+        )}
+        {timelines?.map(timeline => (
+          <TimelineEditor key={timeline.id} timeline={timeline} images={images ?? []} />
+        ))}
+        <div className="drill-list">
+          <div className="drill-item drill-item--add" onClick={openTimelineDialog}>
+            <span className="drill-item__text">+ Add Timeline</span>
+          </div>
+        </div>
+      </section>
+
+      {/* Report */}
+      {event && (
+        <section className="room-section">
+          <h2 className="room-section__title">Report</h2>
+          <p className="room-section__empty">
+            Printable PDF laid out by the report template for {EVENT_TYPE_LABELS[event.type]} events
+          </p>
+          <button className="btn btn--primary" onClick={() => setReportOpen(true)}>
+            Generate Report
+          </button>
+        </section>
+      )}
+
+      {event && (
+        <section className="room-section">
+          <button className="btn btn--danger" onClick={() => setConfirmDelete(true)}>
+            Delete Event
+          </button>
+        </section>
+      )}
+
+      {reportOpen && event && (
+        <ReportDialog event={event} images={images ?? []} onClose={() => setReportOpen(false)} />
+      )}
+
+      {/* Add Timeline Dialog */}
+      <Dialog.Root open={timelineDialogOpen} onOpenChange={setTimelineDialogOpen}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="dialog-overlay" />
+          <Dialog.Content className="dialog-content">
+            <Dialog.Title className="dialog-title">Add Timeline</Dialog.Title>
+
+            <div className="form-group">
+              <label className="form-label" htmlFor="timelineName">
+                Name *
+              </label>
+              <input
+                id="timelineName"
+                className="form-input"
+                value={timelineName}
+                onChange={e => setTimelineName(e.target.value)}
+                placeholder="e.g., Gradient coil repair"
+              />
+            </div>
+
+            <div className="form-group">
+              <label className="form-label" htmlFor="timelineDescription">
+                Description
+              </label>
+              <textarea
+                id="timelineDescription"
+                className="form-input"
+                rows={2}
+                value={timelineDescription}
+                onChange={e => setTimelineDescription(e.target.value)}
+              />
+            </div>
+
+            <div className="dialog-actions">
+              <Dialog.Close asChild>
+                <button type="button" className="btn">Cancel</button>
+              </Dialog.Close>
+              <button
+                type="button"
+                className="btn btn--primary"
+                onClick={handleAddTimeline}
+                disabled={!timelineName.trim()}
+              >
+                Save
+              </button>
+            </div>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+
+      {/* Delete Confirmation */}
+      <DeleteConfirmDialog
+        level="event"
+        target={confirmDelete && event ? { id: event.id, name: event.title } : null}
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setConfirmDelete(false)}
+      />
+    </>
+  );
+}
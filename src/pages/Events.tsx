@@ -1,7 +1,166 @@
-import { useNavigate } from 'react-router-dom';
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, isLive, setEventStatus } from '../db';
+import { useHierarchy } from '../hooks/useHierarchy';
+import AppMenu from '../components/AppMenu';
+import EventFormDialog from '../components/EventFormDialog';
+import {
+  EVENT_TYPE_LABELS,
+  EVENT_STATUS_LABELS,
+  EVENT_STATUS_TRANSITIONS,
+  EVENT_STATUS_ACTIONS,
+  getEventDate,
+  groupEvents,
+  isEventOverdue,
+} from '../lib/events';
+import { formatDate, fromDateInputValue } from '../lib/dates';
+import type { EventStatus, SupportEvent } from '../types';
+
+// Filters are kept in the URL so a filtered list can be bookmarked or shared
+const FILTER_KEYS = ['type', 'status', 'from', 'to', 'org', 'site', 'room', 'equipment'] as const;
+type FilterKey = typeof FILTER_KEYS[number];
+
+const GROUPS = [
+  { key: 'overdue', title: 'Overdue' },
+  { key: 'upcoming', title: 'Upcoming' },
+  { key: 'completed', title: 'Completed' },
+] as const;
 
 export default function Events() {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [addOpen, setAddOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const filters = Object.fromEntries(
+    FILTER_KEYS.map(key => [key, searchParams.get(key) || ''])
+  ) as Record<FilterKey, string>;
+
+  // Data
+  const hierarchy = useHierarchy();
+  const events = useLiveQuery(() => db.events.filter(isLive).toArray());
+
+  const setFilter = (key: FilterKey, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    // Clear narrower hierarchy filters when a broader one changes
+    const scope: FilterKey[] = ['org', 'site', 'room', 'equipment'];
+    const index = scope.indexOf(key);
+    if (index >= 0) {
+      scope.slice(index + 1).forEach(k => next.delete(k));
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  const clearFilters = () => setSearchParams({}, { replace: true });
+
+  // Filtering
+  const from = fromDateInputValue(filters.from);
+  const to = fromDateInputValue(filters.to);
+  if (to) to.setHours(23, 59, 59, 999);
+
+  const matchesFilters = (event: SupportEvent) => {
+    if (filters.type && event.type !== filters.type) return false;
+    if (filters.status && event.status !== filters.status) return false;
+    if (filters.equipment && event.equipmentId !== filters.equipment) return false;
+    if (filters.room && event.roomId !== filters.room) return false;
+
+    if (filters.site || filters.org) {
+      const room = hierarchy?.rooms.get(event.roomId);
+      const site = room && hierarchy?.sites.get(room.siteId);
+      if (filters.site && site?.id !== filters.site) return false;
+      if (filters.org && site?.organizationId !== filters.org) return false;
+    }
+
+    const date = getEventDate(event);
+    if (from && date < from) return false;
+    if (to && date > to) return false;
+    return true;
+  };
+
+  const filtered = events?.filter(matchesFilters) ?? [];
+  const groups = groupEvents(filtered);
+  const hasFilters = FILTER_KEYS.some(key => filters[key]);
+
+  // Options for the hierarchy filters, narrowed by the broader selection
+  const orgOptions = hierarchy
+    ? Array.from(hierarchy.organizations.values()).sort((a, b) => a.name.localeCompare(b.name))
+    : [];
+  const siteOptions = hierarchy
+    ? Array.from(hierarchy.sites.values())
+        .filter(site => !filters.org || site.organizationId === filters.org)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    : [];
+  const roomOptions = hierarchy
+    ? Array.from(hierarchy.rooms.values())
+        .filter(room => {
+          const site = hierarchy.sites.get(room.siteId);
+          if (filters.site) return room.siteId === filters.site;
+          return !filters.org || site?.organizationId === filters.org;
+        })
+        .sort((a, b) => a.name.localeCompare(b.name))
+    : [];
+  const roomIds = new Set(roomOptions.map(room => room.id));
+  const equipmentOptions = hierarchy
+    ? Array.from(hierarchy.equipment.values())
+        .filter(item => filters.room ? item.roomId === filters.room : roomIds.has(item.roomId))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    : [];
+
+  const handleStatusChange = async (event: SupportEvent, status: EventStatus) => {
+    setError(null);
+    try {
+      await setEventStatus(event.id, status);
+    } catch (err) {
+      setError(`Cannot update "${event.title}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const renderEvent = (event: SupportEvent) => {
+    const equipment = hierarchy?.equipment.get(event.equipmentId);
+    const overdue = isEventOverdue(event);
+    const path = hierarchy?.eventPath(event);
+
+    return (
+      <div key={event.id} className="event-item">
+        <div
+          className="event-item__main event-item__main--link"
+          onClick={() => path && navigate(path)}
+        >
+          <div className="event-item__title">{event.title}</div>
+          <div className="event-item__meta">
+            {EVENT_TYPE_LABELS[event.type]}
+            {' • '}
+            {hierarchy?.roomLabel(event.roomId)}
+            {equipment && ` › ${equipment.name}`}
+          </div>
+          <div className="event-item__meta">
+            {formatDate(getEventDate(event)) || 'Unscheduled'}
+            {' '}
+            <span className={`status-badge status-badge--${overdue ? 'overdue' : event.status}`}>
+              {overdue ? 'Overdue' : EVENT_STATUS_LABELS[event.status]}
+            </span>
+          </div>
+        </div>
+        <div className="event-item__actions">
+          {EVENT_STATUS_TRANSITIONS[event.status].map(status => (
+            <button
+              key={status}
+              className={`btn btn--small${status === 'cancelled' ? ' btn--danger' : ''}`}
+              onClick={() => handleStatusChange(event, status)}
+            >
+              {EVENT_STATUS_ACTIONS[status]}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  };
 
   return (
     <>
@@ -10,16 +169,131 @@ export default function Events() {
           ‹
         </button>
         <h1 className="drill-header__title">Events</h1>
+        <AppMenu />
       </header>
 
-      <div style={{ padding: 'var(--space-4)' }}>
-        <p style={{ color: 'var(--color-text-muted)' }}>
-          Events page - to be rebuilt.
-        </p>
-        <p style={{ marginTop: 'var(--space-4)' }}>
-          This page will show service events (ACR tests, QC checks, repairs, etc.)
-        </p>
+      {/* Filters */}
+      <div className="filter-bar">
+        <select
+          className="form-input"
+          value={filters.type}
+          onChange={e => setFilter('type', e.target.value)}
+          aria-label="Type"
+        >
+          <option value="">All types</option>
+          {Object.entries(EVENT_TYPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+
+        <select
+          className="form-input"
+          value={filters.status}
+          onChange={e => setFilter('status', e.target.value)}
+          aria-label="Status"
+        >
+          <option value="">All statuses</option>
+          {Object.entries(EVENT_STATUS_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+
+        <input
+          className="form-input"
+          type="date"
+          value={filters.from}
+          onChange={e => setFilter('from', e.target.value)}
+          aria-label="From date"
+        />
+        <input
+          className="form-input"
+          type="date"
+          value={filters.to}
+          onChange={e => setFilter('to', e.target.value)}
+          aria-label="To date"
+        />
+
+        <select
+          className="form-input"
+          value={filters.org}
+          onChange={e => setFilter('org', e.target.value)}
+          aria-label="Organization"
+        >
+          <option value="">All organizations</option>
+          {orgOptions.map(org => (
+            <option key={org.id} value={org.id}>{org.shortName || org.name}</option>
+          ))}
+        </select>
+
+        <select
+          className="form-input"
+          value={filters.site}
+          onChange={e => setFilter('site', e.target.value)}
+          aria-label="Site"
+        >
+          <option value="">All sites</option>
+          {siteOptions.map(site => (
+            <option key={site.id} value={site.id}>{site.name}</option>
+          ))}
+        </select>
+
+        <select
+          className="form-input"
+          value={filters.room}
+          onChange={e => setFilter('room', e.target.value)}
+          aria-label="Room"
+        >
+          <option value="">All rooms</option>
+          {roomOptions.map(room => (
+            <option key={room.id} value={room.id}>{room.name}</option>
+          ))}
+        </select>
+
+        <select
+          className="form-input"
+          value={filters.equipment}
+          onChange={e => setFilter('equipment', e.target.value)}
+          aria-label="Equipment"
+        >
+          <option value="">All equipment</option>
+          {equipmentOptions.map(item => (
+            <option key={item.id} value={item.id}>{item.name}</option>
+          ))}
+        </select>
+
+        {hasFilters && (
+          <button className="btn" onClick={clearFilters}>
+            Clear Filters
+          </button>
+        )}
       </div>
+
+      {error && <p className="room-section measurement-group__error">{error}</p>}
+
+      {/* Grouped list */}
+      {GROUPS.map(group => (
+        <section key={group.key} className="room-section">
+          <h2 className="room-section__title">
+            {group.title} ({groups[group.key].length})
+          </h2>
+          {groups[group.key].length === 0 && (
+            <p className="room-section__empty">No {group.title.toLowerCase()} events</p>
+          )}
+          {groups[group.key].map(renderEvent)}
+        </section>
+      ))}
+
+      <div className="drill-list">
+        <div className="drill-item drill-item--add" onClick={() => setAddOpen(true)}>
+          <span className="drill-item__text">+ Add Event</span>
+        </div>
+      </div>
+
+      <EventFormDialog
+        open={addOpen}
+        onOpenChange={setAddOpen}
+        equipmentId={filters.equipment || undefined}
+      />
     </>
   );
 }
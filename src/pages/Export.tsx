@@ -1,57 +1,25 @@
-import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useLiveQuery } from 'dexie-react-hooks';
 import * as AlertDialog from '@radix-ui/react-alert-dialog';
-import { db } from '../db';
+import { db, deleteAllData, isLive } from '../db';
+import AppMenu from '../components/AppMenu';
+import ExportControls from '../components/ExportControls';
+import StorageWarning from '../components/StorageWarning';
 
 export default function Export() {
   const navigate = useNavigate();
-  const [message, setMessage] = useState<string | null>(null);
 
   // Data counts
-  const organizations = useLiveQuery(() => db.organizations.count());
-  const sites = useLiveQuery(() => db.sites.count());
-  const rooms = useLiveQuery(() => db.rooms.count());
-  const equipment = useLiveQuery(() => db.equipment.count());
-  const events = useLiveQuery(() => db.events.count());
-  const images = useLiveQuery(() => db.images.count());
-
-  const handleExportJSON = async () => {
-    const data = {
-      exportedAt: new Date().toISOString(),
-      version: '1.0',
-      organizations: await db.organizations.toArray(),
-      sites: await db.sites.toArray(),
-      rooms: await db.rooms.toArray(),
-      equipment: await db.equipment.toArray(),
-      events: await db.events.toArray(),
-      // Images excluded by default (large)
-    };
-
-    const content = JSON.stringify(data, null, 2);
-    const blob = new Blob([content], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `mri-physics-export-${new Date().toISOString().slice(0, 10)}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
-
-    setMessage('Export completed!');
-    setTimeout(() => setMessage(null), 3000);
-  };
+  const organizations = useLiveQuery(() => db.organizations.filter(isLive).count());
+  const sites = useLiveQuery(() => db.sites.filter(isLive).count());
+  const rooms = useLiveQuery(() => db.rooms.filter(isLive).count());
+  const equipment = useLiveQuery(() => db.equipment.filter(isLive).count());
+  const events = useLiveQuery(() => db.events.filter(isLive).count());
+  const images = useLiveQuery(() => db.images.filter(isLive).count());
 
+  // Everything goes to the Trash; the undo snackbar offers to bring it back
   const handleClearData = async () => {
-    await db.organizations.clear();
-    await db.sites.clear();
-    await db.rooms.clear();
-    await db.equipment.clear();
-    await db.events.clear();
-    await db.images.clear();
-    await db.timelines.clear();
-
-    setMessage('All data cleared.');
-    setTimeout(() => setMessage(null), 3000);
+    await deleteAllData();
   };
 
   return (
@@ -61,8 +29,11 @@ export default function Export() {
           ‹
         </button>
         <h1 className="drill-header__title">Export</h1>
+        <AppMenu />
       </header>
 
+      <StorageWarning />
+
       <div style={{ padding: 'var(--space-4)' }}>
         {/* Data Summary */}
         <section style={{ marginBottom: 'var(--space-6)' }}>
@@ -87,8 +58,26 @@ export default function Export() {
           <h2 style={{ fontSize: 'var(--text-lg)', marginBottom: 'var(--space-3)' }}>
             Export Data
           </h2>
-          <button className="btn" onClick={handleExportJSON}>
-            Export as JSON
+          <ExportControls />
+        </section>
+
+        {/* Import */}
+        <section style={{ marginBottom: 'var(--space-6)' }}>
+          <h2 style={{ fontSize: 'var(--text-lg)', marginBottom: 'var(--space-3)' }}>
+            Import Data
+          </h2>
+          <button className="btn" onClick={() => navigate('/import')}>
+            Import from File…
+          </button>
+        </section>
+
+        {/* Backups */}
+        <section style={{ marginBottom: 'var(--space-6)' }}>
+          <h2 style={{ fontSize: 'var(--text-lg)', marginBottom: 'var(--space-3)' }}>
+            Local Backups
+          </h2>
+          <button className="btn" onClick={() => navigate('/backups')}>
+            Backup Snapshots…
           </button>
         </section>
 
@@ -114,8 +103,9 @@ export default function Export() {
                   Clear All Data?
                 </AlertDialog.Title>
                 <AlertDialog.Description className="alert-dialog-description">
-                  This will permanently delete all organizations, sites, rooms, equipment,
-                  events, and images. This action cannot be undone.
+                  This will move all organizations, sites, rooms, equipment, events, and
+                  images to the Trash, where they can be restored until they are purged.
+                  Report templates are kept.
                 </AlertDialog.Description>
                 <div className="alert-dialog-actions">
                   <AlertDialog.Cancel asChild>
@@ -131,22 +121,6 @@ export default function Export() {
             </AlertDialog.Portal>
           </AlertDialog.Root>
         </section>
-
-        {/* Message */}
-        {message && (
-          <div style={{
-            position: 'fixed',
-            bottom: 'var(--space-4)',
-            left: 'var(--space-4)',
-            right: 'var(--space-4)',
-            padding: 'var(--space-3)',
-            background: 'var(--color-border)',
-            color: 'var(--color-bg)',
-            textAlign: 'center',
-          }}>
-            {message}
-          </div>
-        )}
       </div>
     </>
   );
@@ -0,0 +1,275 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import * as AlertDialog from '@radix-ui/react-alert-dialog';
+import { applyImport, diffImport, type ImportDiff, type ImportMode } from '../db';
+import { countNewImages, readExportArchive } from '../db/archive';
+import AppMenu from '../components/AppMenu';
+import {
+  EXPORT_TABLES,
+  EXPORT_TABLE_LABELS,
+  parseExportFile,
+  type ImportValidation,
+} from '../lib/importData';
+import { formatDateTime } from '../lib/dates';
+import type { GalleryImage } from '../types';
+
+const CHANGE_COLUMNS = [
+  { key: 'new', label: 'New' },
+  { key: 'changed', label: 'Changed' },
+  { key: 'conflicting', label: 'Conflicting' },
+  { key: 'unchanged', label: 'Unchanged' },
+] as const;
+
+/**
+ * Load a JSON or ZIP export back into the database: validate the file, show
+ * what would change, then merge or replace everything.
+ */
+export default function Import() {
+  const navigate = useNavigate();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [validation, setValidation] = useState<ImportValidation | null>(null);
+  const [diff, setDiff] = useState<ImportDiff | null>(null);
+  // Photos from a ZIP export; undefined for JSON files
+  const [images, setImages] = useState<GalleryImage[] | undefined>(undefined);
+  const [newImageCount, setNewImageCount] = useState(0);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [overwriteConflicts, setOverwriteConflicts] = useState(false);
+  const [confirmReplace, setConfirmReplace] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const data = validation?.data ?? null;
+  const conflictCount = diff
+    ? EXPORT_TABLES.reduce((sum, table) => sum + diff[table].conflicting.length, 0)
+    : 0;
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setMessage(null);
+    setValidation(null);
+    setDiff(null);
+    setImages(undefined);
+
+    try {
+      if (file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip') {
+        const archive = await readExportArchive(file);
+        setValidation(archive.validation);
+        if (archive.validation.data) {
+          setImages(archive.images);
+          setNewImageCount(await countNewImages(archive.images));
+          setDiff(await diffImport(archive.validation.data));
+        }
+        return;
+      }
+
+      const result = parseExportFile(await file.text());
+      setValidation(result);
+      if (result.data) {
+        setDiff(await diffImport(result.data));
+      }
+    } catch (err) {
+      // A corrupt archive entry or a failed comparison with local data
+      setValidation({
+        data: null,
+        errors: [`Cannot read file: ${err instanceof Error ? err.message : String(err)}`],
+        warnings: [],
+      });
+      setDiff(null);
+      setImages(undefined);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!data) return;
+    setImporting(true);
+    try {
+      await applyImport(data, mode, overwriteConflicts, images);
+      setMessage(mode === 'replace' ? 'All data replaced from file.' : 'Import merged.');
+      setDiff(await diffImport(data));
+      if (images) setNewImageCount(await countNewImages(images));
+    } catch (err) {
+      setMessage(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleImportClick = () => {
+    if (mode === 'replace') {
+      setConfirmReplace(true);
+    } else {
+      handleImport();
+    }
+  };
+
+  return (
+    <>
+      {/* Header */}
+      <header className="drill-header">
+        <button className="drill-header__back" onClick={() => navigate('/export')}>
+          ‹
+        </button>
+        <h1 className="drill-header__title">Import</h1>
+        <AppMenu />
+      </header>
+
+      <section className="room-section">
+        <h2 className="room-section__title">Export File</h2>
+        <label className="btn btn--primary import-file-label">
+          {fileName ? 'Choose Another File' : 'Choose File'}
+          <input
+            type="file"
+            accept="application/json,.json,application/zip,.zip"
+            onChange={handleFileSelect}
+            className="visually-hidden"
+          />
+        </label>
+        {fileName && <p className="room-info__detail">{fileName}</p>}
+        {data?.exportedAt && (
+          <p className="room-info__detail">
+            <strong>Exported:</strong> {formatDateTime(new Date(data.exportedAt))}
+            {' • '}Version {data.version}
+          </p>
+        )}
+      </section>
+
+      {/* Validation */}
+      {validation && validation.errors.length > 0 && (
+        <section className="room-section">
+          <h2 className="room-section__title">Problems</h2>
+          <ul className="import-messages import-messages--error">
+            {validation.errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </section>
+      )}
+
+      {validation && validation.warnings.length > 0 && (
+        <section className="room-section">
+          <h2 className="room-section__title">Warnings</h2>
+          <ul className="import-messages">
+            {validation.warnings.map(warning => <li key={warning}>{warning}</li>)}
+          </ul>
+        </section>
+      )}
+
+      {/* Diff */}
+      {diff && (
+        <section className="room-section">
+          <h2 className="room-section__title">Changes</h2>
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th></th>
+                {CHANGE_COLUMNS.map(column => <th key={column.key}>{column.label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {EXPORT_TABLES.map(table => (
+                <tr key={table}>
+                  <td>{EXPORT_TABLE_LABELS[table]}</td>
+                  {CHANGE_COLUMNS.map(column => (
+                    <td key={column.key}>{diff[table][column.key].length}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {images && (
+            <p className="room-info__detail">
+              <strong>Photos:</strong> {images.length} in file, {newImageCount} new
+            </p>
+          )}
+          <p className="measurement-group__limit">
+            Changed: the file's copy is newer. Conflicting: this device's copy is newer or was
+            edited at the same time.
+          </p>
+
+          <div className="segmented">
+            <button
+              type="button"
+              className={`segmented__item${mode === 'merge' ? ' segmented__item--active' : ''}`}
+              onClick={() => setMode('merge')}
+            >
+              Merge
+            </button>
+            <button
+              type="button"
+              className={`segmented__item${mode === 'replace' ? ' segmented__item--active' : ''}`}
+              onClick={() => setMode('replace')}
+            >
+              Replace All
+            </button>
+          </div>
+
+          {mode === 'merge' && conflictCount > 0 && (
+            <div className="form-group">
+              <label className="form-label" htmlFor="conflicts">
+                Conflicting records ({conflictCount})
+              </label>
+              <select
+                id="conflicts"
+                className="form-input"
+                value={overwriteConflicts ? 'imported' : 'local'}
+                onChange={e => setOverwriteConflicts(e.target.value === 'imported')}
+              >
+                <option value="local">Keep this device's copy</option>
+                <option value="imported">Use the file's copy</option>
+              </select>
+            </div>
+          )}
+
+          {mode === 'replace' && (
+            <p className="baseline__warning">
+              Everything on this device is deleted and replaced with the file's contents.
+              {images
+                ? ' Photos are replaced with the photos in the file.'
+                : ' Photos are kept only when their event, equipment or room is in the file.'}
+            </p>
+          )}
+
+          <div className="form-actions">
+            {message && <span className="form-actions__status">{message}</span>}
+            <button
+              className={`btn ${mode === 'replace' ? 'btn--danger' : 'btn--primary'}`}
+              onClick={handleImportClick}
+              disabled={importing}
+            >
+              {mode === 'replace' ? 'Replace All Data' : 'Merge Into This Device'}
+            </button>
+          </div>
+        </section>
+      )}
+
+      {/* Replace Confirmation */}
+      <AlertDialog.Root open={confirmReplace} onOpenChange={setConfirmReplace}>
+        <AlertDialog.Portal>
+          <AlertDialog.Overlay className="alert-dialog-overlay" />
+          <AlertDialog.Content className="alert-dialog-content">
+            <AlertDialog.Title className="alert-dialog-title">
+              Replace All Data?
+            </AlertDialog.Title>
+            <AlertDialog.Description className="alert-dialog-description">
+              All organizations, sites, rooms, equipment and events on this device will be
+              replaced with the contents of "{fileName}". This action cannot be undone.
+            </AlertDialog.Description>
+            <div className="alert-dialog-actions">
+              <AlertDialog.Cancel asChild>
+                <button className="btn">Cancel</button>
+              </AlertDialog.Cancel>
+              <AlertDialog.Action asChild>
+                <button className="btn btn--danger" onClick={handleImport}>
+                  Replace
+                </button>
+              </AlertDialog.Action>
+            </div>
+          </AlertDialog.Content>
+        </AlertDialog.Portal>
+      </AlertDialog.Root>
+    </>
+  );
+}
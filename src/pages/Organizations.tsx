@@ -4,8 +4,10 @@ import { useLiveQuery } from 'dexie-react-hooks';
 import { v4 as uuidv4 } from 'uuid';
 import * as Dialog from '@radix-ui/react-dialog';
 import * as ContextMenu from '@radix-ui/react-context-menu';
-import * as AlertDialog from '@radix-ui/react-alert-dialog';
-import { db } from '../db';
+import { db, deleteOrganization, isLive } from '../db';
+import ExportDialog from '../components/ExportDialog';
+import DeleteConfirmDialog from '../components/DeleteConfirmDialog';
+import AppMenu from '../components/AppMenu';
 import type { Organization, OrganizationFormData } from '../types';
 
 const emptyForm: OrganizationFormData = {
@@ -30,6 +32,9 @@ export default function Organizations() {
   // Delete confirmation state
   const [deleteTarget, setDeleteTarget] = useState<Organization | null>(null);
 
+  // Scoped export dialog
+  const [exportTarget, setExportTarget] = useState<Organization | null>(null);
+
   // Long-press handling for mobile
   const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const touchStartPos = useRef<{ x: number; y: number } | null>(null);
@@ -38,7 +43,7 @@ export default function Organizations() {
 
   // Data
   const organizations = useLiveQuery(
-    () => db.organizations.orderBy('name').toArray()
+    () => db.organizations.orderBy('name').filter(isLive).toArray()
   );
 
   // Clear long-press timer
@@ -122,6 +127,11 @@ export default function Organizations() {
     setDialogOpen(false);
   };
 
+  const handleExportClick = (org: Organization) => {
+    setExportTarget(org);
+    setContextMenuOrg(null);
+  };
+
   // Delete handlers
   const handleDeleteClick = (org: Organization) => {
     setDeleteTarget(org);
@@ -130,20 +140,7 @@ export default function Organizations() {
 
   const handleDeleteConfirm = async () => {
     if (!deleteTarget) return;
-
-    // Cascade delete: sites, rooms, equipment, events, images
-    const sites = await db.sites.where('organizationId').equals(deleteTarget.id).toArray();
-    const siteIds = sites.map(s => s.id);
-    const rooms = await db.rooms.where('siteId').anyOf(siteIds).toArray();
-    const roomIds = rooms.map(r => r.id);
-
-    await db.images.where('roomId').anyOf(roomIds).delete();
-    await db.events.where('roomId').anyOf(roomIds).delete();
-    await db.equipment.where('roomId').anyOf(roomIds).delete();
-    await db.rooms.where('siteId').anyOf(siteIds).delete();
-    await db.sites.where('organizationId').equals(deleteTarget.id).delete();
-    await db.organizations.delete(deleteTarget.id);
-
+    await deleteOrganization(deleteTarget.id);
     setDeleteTarget(null);
   };
 
@@ -158,10 +155,11 @@ export default function Organizations() {
     <>
       {/* Header */}
       <header className="drill-header">
-        <div className="drill-header__back" style={{ visibility: 'hidden' }}>
-          {/* No back button at root level */}
-        </div>
+        <button className="drill-header__back" onClick={() => navigate('/')}>
+          ‹
+        </button>
         <h1 className="drill-header__title">Organizations</h1>
+        <AppMenu />
       </header>
 
       {/* List */}
@@ -191,7 +189,7 @@ export default function Organizations() {
                 </ContextMenu.Item>
                 <ContextMenu.Item
                   className="context-menu-item"
-                  onSelect={() => {/* TODO: Export */}}
+                  onSelect={() => handleExportClick(org)}
                 >
                   Export
                 </ContextMenu.Item>
@@ -233,7 +231,7 @@ export default function Organizations() {
           </div>
           <div
             className="context-menu-item"
-            onClick={() => {/* TODO: Export */}}
+            onClick={() => handleExportClick(contextMenuOrg)}
           >
             Export
           </div>
@@ -252,6 +250,16 @@ export default function Organizations() {
         </div>
       )}
 
+      {/* Scoped Export */}
+      {exportTarget && (
+        <ExportDialog
+          key={exportTarget.id}
+          scope={{ level: 'organization', id: exportTarget.id }}
+          name={displayName(exportTarget)}
+          onClose={() => setExportTarget(null)}
+        />
+      )}
+
       {/* Add/Edit Dialog */}
       <Dialog.Root open={dialogOpen} onOpenChange={setDialogOpen}>
         <Dialog.Portal>
@@ -362,30 +370,12 @@ export default function Organizations() {
       </Dialog.Root>
 
       {/* Delete Confirmation */}
-      <AlertDialog.Root open={!!deleteTarget} onOpenChange={open => !open && setDeleteTarget(null)}>
-        <AlertDialog.Portal>
-          <AlertDialog.Overlay className="alert-dialog-overlay" />
-          <AlertDialog.Content className="alert-dialog-content">
-            <AlertDialog.Title className="alert-dialog-title">
-              Delete Organization?
-            </AlertDialog.Title>
-            <AlertDialog.Description className="alert-dialog-description">
-              This will delete all sites, rooms, equipment, and events for "{deleteTarget?.name}".
-              This action cannot be undone.
-            </AlertDialog.Description>
-            <div className="alert-dialog-actions">
-              <AlertDialog.Cancel asChild>
-                <button className="btn">Cancel</button>
-              </AlertDialog.Cancel>
-              <AlertDialog.Action asChild>
-                <button className="btn btn--danger" onClick={handleDeleteConfirm}>
-                  Delete
-                </button>
-              </AlertDialog.Action>
-            </div>
-          </AlertDialog.Content>
-        </AlertDialog.Portal>
-      </AlertDialog.Root>
+      <DeleteConfirmDialog
+        level="organization"
+        target={deleteTarget}
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleteTarget(null)}
+      />
     </>
   );
 }
@@ -0,0 +1,83 @@
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, live, getQCHistory, getBaselines, addQCCheck } from '../db';
+import QCForm from '../components/QCForm';
+import { qcReference } from '../lib/qc';
+import { getCurrentBaseline } from '../lib/baselines';
+import { formatDateTime } from '../lib/dates';
+import type { QCMeasurements } from '../types';
+
+/**
+ * Technologist QC fast entry for one scanner: starts from the last QC values
+ * and records a completed qc_check event in one tap.
+ */
+export default function QCEntry() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const equipmentId = searchParams.get('equipmentId') ?? undefined;
+
+  // Data
+  const equipment = useLiveQuery(
+    async () => equipmentId ? live(await db.equipment.get(equipmentId)) ?? null : null,
+    [equipmentId]
+  );
+
+  const history = useLiveQuery(
+    () => equipmentId ? getQCHistory(equipmentId) : [],
+    [equipmentId]
+  );
+
+  const baselines = useLiveQuery(
+    () => equipmentId ? getBaselines(equipmentId) : [],
+    [equipmentId]
+  );
+
+  const last = history?.[history.length - 1];
+  const baseline = baselines && getCurrentBaseline(baselines);
+
+  const handleSave = async (qc: QCMeasurements) => {
+    if (!equipmentId) return;
+    await addQCCheck(equipmentId, qc);
+    navigate(-1);
+  };
+
+  const headerTitle = equipment ? `QC — ${equipment.name}` : 'QC';
+
+  return (
+    <>
+      {/* Header */}
+      <header className="drill-header">
+        <button className="drill-header__back" onClick={() => navigate(-1)}>
+          ‹
+        </button>
+        <h1 className="drill-header__title">{headerTitle}</h1>
+      </header>
+
+      {equipment === null && (
+        <p className="room-section room-section__empty">Equipment not found</p>
+      )}
+
+      {equipment && history && baselines && (
+        <section className="room-section">
+          <p className="room-section__empty">
+            {last?.completedAt
+              ? `Pre-filled from last QC on ${formatDateTime(last.completedAt)}.`
+              : 'No previous QC recorded for this scanner.'}
+            {' '}
+            {baseline
+              ? `Δ shown against baseline version ${baseline.version}.`
+              : 'No baseline set — Δ shown against the first recorded QC.'}
+          </p>
+          <QCForm
+            key={last?.id ?? 'first'}
+            initial={last?.qc}
+            reference={baseline?.values ?? qcReference(history)}
+            tolerances={baseline?.limits}
+            saveLabel="Save QC"
+            onSave={handleSave}
+          />
+        </section>
+      )}
+    </>
+  );
+}
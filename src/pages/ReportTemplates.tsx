@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import * as AlertDialog from '@radix-ui/react-alert-dialog';
+import { deleteReportTemplate, getReportTemplates } from '../db';
+import AppMenu from '../components/AppMenu';
+import ReportTemplateDialog from '../components/ReportTemplateDialog';
+import { EVENT_TYPE_LABELS } from '../lib/events';
+import type { EventType, ReportTemplate } from '../types';
+
+/**
+ * Report templates grouped by event type. Event types without a default
+ * template use the built-in layout.
+ */
+export default function ReportTemplates() {
+  const navigate = useNavigate();
+  const [dialogTemplate, setDialogTemplate] = useState<{ template?: ReportTemplate } | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<ReportTemplate | null>(null);
+
+  const templates = useLiveQuery(() => getReportTemplates());
+
+  const groups = (Object.keys(EVENT_TYPE_LABELS) as EventType[])
+    .map(type => ({ type, templates: templates?.filter(t => t.eventType === type) ?? [] }))
+    .filter(group => group.templates.length > 0);
+
+  const handleDeleteClick = (template: ReportTemplate) => {
+    setDialogTemplate(null);
+    setDeleteTarget(template);
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!deleteTarget) return;
+    await deleteReportTemplate(deleteTarget.id);
+    setDeleteTarget(null);
+  };
+
+  return (
+    <>
+      {/* Header */}
+      <header className="drill-header">
+        <button className="drill-header__back" onClick={() => navigate('/')}>
+          ‹
+        </button>
+        <h1 className="drill-header__title">Report Templates</h1>
+        <AppMenu />
+      </header>
+
+      {templates?.length === 0 && (
+        <p className="room-section room-section__empty">
+          No templates yet — reports use the built-in layout
+        </p>
+      )}
+
+      {groups.map(group => (
+        <section key={group.type} className="room-section">
+          <h2 className="room-section__title">{EVENT_TYPE_LABELS[group.type]}</h2>
+          <div className="drill-list">
+            {group.templates.map(template => (
+              <div
+                key={template.id}
+                className="drill-item"
+                onClick={() => setDialogTemplate({ template })}
+              >
+                <span className="drill-item__text">
+                  {template.name}
+                  {template.isDefault && <span className="drill-item__meta">Default</span>}
+                </span>
+                <span className="drill-item__chevron">›</span>
+              </div>
+            ))}
+          </div>
+        </section>
+      ))}
+
+      <div className="drill-list">
+        <div className="drill-item drill-item--add" onClick={() => setDialogTemplate({})}>
+          <span className="drill-item__text">+ Add Template</span>
+        </div>
+      </div>
+
+      {dialogTemplate && (
+        <ReportTemplateDialog
+          key={dialogTemplate.template?.id ?? 'new'}
+          template={dialogTemplate.template}
+          onClose={() => setDialogTemplate(null)}
+          onDelete={handleDeleteClick}
+        />
+      )}
+
+      {/* Delete Confirmation */}
+      <AlertDialog.Root open={!!deleteTarget} onOpenChange={open => !open && setDeleteTarget(null)}>
+        <AlertDialog.Portal>
+          <AlertDialog.Overlay className="alert-dialog-overlay" />
+          <AlertDialog.Content className="alert-dialog-content">
+            <AlertDialog.Title className="alert-dialog-title">
+              Delete Template?
+            </AlertDialog.Title>
+            <AlertDialog.Description className="alert-dialog-description">
+              "{deleteTarget?.name}" will be moved to the Trash. Until it is restored, events
+              that used it fall back to the default template for their type.
+            </AlertDialog.Description>
+            <div className="alert-dialog-actions">
+              <AlertDialog.Cancel asChild>
+                <button className="btn">Cancel</button>
+              </AlertDialog.Cancel>
+              <AlertDialog.Action asChild>
+                <button className="btn btn--danger" onClick={handleDeleteConfirm}>
+                  Delete
+                </button>
+              </AlertDialog.Action>
+            </div>
+          </AlertDialog.Content>
+        </AlertDialog.Portal>
+      </AlertDialog.Root>
+    </>
+  );
+}
@@ -1,6 +1,23 @@
+import { useState, useRef, useCallback } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { db } from '../db';
+import * as ContextMenu from '@radix-ui/react-context-menu';
+import { db, getRoomImages, deleteEquipment, isLive, resolveHierarchy } from '../db';
+import ImageGallery from '../components/ImageGallery';
+import EquipmentDialog from '../components/EquipmentDialog';
+import DeleteConfirmDialog from '../components/DeleteConfirmDialog';
+import Breadcrumbs from '../components/Breadcrumbs';
+import { useHierarchy } from '../hooks/useHierarchy';
+import { EQUIPMENT_TYPE_LABELS } from '../lib/equipment';
+import { describeCoil, lastCoilQC, roomCoils } from '../lib/coils';
+import { QC_CHECK_LABELS } from '../lib/qc';
+import { EVENT_TYPE_LABELS, EVENT_STATUS_LABELS, getEventDate, isEventOverdue } from '../lib/events';
+import { formatDate } from '../lib/dates';
+import { parentPath } from '../lib/hierarchy';
+import type { Equipment } from '../types';
+
+const LONG_PRESS_DURATION = 500;
+const RECENT_EVENT_COUNT = 5;
 
 export default function RoomDetail() {
   const navigate = useNavigate();
@@ -10,20 +27,126 @@ export default function RoomDetail() {
     roomId: string;
   }>();
 
+  const [tab, setTab] = useState<'equipment' | 'coils'>('equipment');
+
+  // Dialog state (null = closed, undefined equipment = add)
+  const [dialogEquipment, setDialogEquipment] = useState<{ equipment?: Equipment } | null>(null);
+
+  // Delete confirmation state
+  const [deleteTarget, setDeleteTarget] = useState<Equipment | null>(null);
+
+  // Long-press handling
+  const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const touchStartPos = useRef<{ x: number; y: number } | null>(null);
+  const [contextMenuItem, setContextMenuItem] = useState<Equipment | null>(null);
+  const [contextMenuPos, setContextMenuPos] = useState({ x: 0, y: 0 });
+
   // Data
-  const room = useLiveQuery(
-    () => roomId ? db.rooms.get(roomId) : undefined,
+  const chain = useLiveQuery(
+    async () => roomId ? resolveHierarchy(roomId, 'room') : null,
     [roomId]
   );
+  const room = chain?.room;
 
   const equipment = useLiveQuery(
-    () => roomId ? db.equipment.where('roomId').equals(roomId).sortBy('name') : [],
+    () => roomId ? db.equipment.where('roomId').equals(roomId).filter(isLive).sortBy('name') : [],
+    [roomId]
+  );
+
+  // Coils used with this room's scanners, wherever they are kept
+  const hierarchy = useHierarchy();
+  const coils = hierarchy && roomId ? roomCoils(Array.from(hierarchy.equipment.values()), roomId) : [];
+  const coilIds = coils.map(coil => coil.id);
+  const coilEvents = useLiveQuery(
+    () => db.events.where('equipmentId').anyOf(coilIds).filter(isLive).toArray(),
+    [coilIds.join()]
+  );
+
+  const images = useLiveQuery(
+    () => roomId ? getRoomImages(roomId) : [],
     [roomId]
   );
 
+  const recentEvents = useLiveQuery(
+    async () => {
+      if (!roomId) return [];
+      const events = await db.events.where('roomId').equals(roomId).filter(isLive).toArray();
+      return events
+        .sort((a, b) => getEventDate(b).getTime() - getEventDate(a).getTime())
+        .slice(0, RECENT_EVENT_COUNT);
+    },
+    [roomId]
+  );
+
+  // Clear long-press timer
+  const clearLongPressTimer = useCallback(() => {
+    if (longPressTimer.current) {
+      clearTimeout(longPressTimer.current);
+      longPressTimer.current = null;
+    }
+  }, []);
+
+  // Touch handlers
+  const handleTouchStart = (e: React.TouchEvent, item: Equipment) => {
+    const touch = e.touches[0];
+    touchStartPos.current = { x: touch.clientX, y: touch.clientY };
+
+    longPressTimer.current = setTimeout(() => {
+      setContextMenuItem(item);
+      setContextMenuPos({ x: touch.clientX, y: touch.clientY });
+    }, LONG_PRESS_DURATION);
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    if (touchStartPos.current) {
+      const touch = e.touches[0];
+      const dx = Math.abs(touch.clientX - touchStartPos.current.x);
+      const dy = Math.abs(touch.clientY - touchStartPos.current.y);
+      if (dx > 10 || dy > 10) {
+        clearLongPressTimer();
+      }
+    }
+  };
+
+  const handleTouchEnd = () => {
+    clearLongPressTimer();
+    touchStartPos.current = null;
+  };
+
   // Navigation
   const handleBack = () => {
-    navigate(`/organizations/${orgId}/sites/${siteId}/rooms`);
+    navigate(chain ? parentPath(chain) : `/organizations/${orgId}/sites/${siteId}/rooms`);
+  };
+
+  const handleItemClick = (item: Equipment) => {
+    if (contextMenuItem) return;
+    navigate(`/organizations/${orgId}/sites/${siteId}/rooms/${roomId}/equipment/${item.id}`);
+  };
+
+  const handleAddPhoto = () => {
+    navigate(`/camera?roomId=${roomId}`);
+  };
+
+  // Dialog handlers
+  const openAddDialog = () => {
+    setDialogEquipment({});
+  };
+
+  const openEditDialog = (item: Equipment) => {
+    setDialogEquipment({ equipment: item });
+    setContextMenuItem(null);
+  };
+
+  // Delete handlers
+  const handleDeleteClick = (item: Equipment) => {
+    setDeleteTarget(item);
+    setContextMenuItem(null);
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!deleteTarget) return;
+    await deleteEquipment(deleteTarget.id);
+    setDeleteTarget(null);
   };
 
   const headerTitle = room?.name || 'Room';
@@ -37,6 +160,7 @@ export default function RoomDetail() {
         </button>
         <h1 className="drill-header__title">{headerTitle}</h1>
       </header>
+      <Breadcrumbs chain={chain} />
 
       {/* Room Info */}
       {room && (
@@ -62,30 +186,185 @@ export default function RoomDetail() {
 
       {/* Equipment Section */}
       <section className="room-section">
-        <h2 className="room-section__title">Equipment</h2>
-        <div className="drill-list">
-          {equipment?.length === 0 && (
-            <p className="room-section__empty">No equipment added yet</p>
-          )}
-          {equipment?.map(item => (
-            <div key={item.id} className="drill-item">
-              <span className="drill-item__text">{item.name}</span>
-              {item.type && (
-                <span className="drill-item__meta">{item.type}</span>
-              )}
+        <div className="segmented">
+          <button
+            type="button"
+            className={`segmented__item${tab === 'equipment' ? ' segmented__item--active' : ''}`}
+            onClick={() => setTab('equipment')}
+          >
+            Equipment
+          </button>
+          <button
+            type="button"
+            className={`segmented__item${tab === 'coils' ? ' segmented__item--active' : ''}`}
+            onClick={() => setTab('coils')}
+          >
+            Coils ({coils.length})
+          </button>
+        </div>
+
+        {tab === 'coils' && (
+          <div className="drill-list">
+            {coils.length === 0 && (
+              <p className="room-section__empty">No coils for this room's scanners</p>
+            )}
+            {coils.map(coil => {
+              const scanner = coil.compatibleScannerId
+                ? hierarchy?.equipment.get(coil.compatibleScannerId)
+                : undefined;
+              const lastQC = lastCoilQC(coilEvents?.filter(event => event.equipmentId === coil.id) ?? []);
+              const result = lastQC?.coilQC?.result;
+              const path = hierarchy?.equipmentPath(coil.id);
+              return (
+                <div key={coil.id} className="drill-item" onClick={() => path && navigate(path)}>
+                  <span className="drill-item__text">
+                    {coil.name}
+                    <span className="event-item__meta">
+                      {' '}
+                      {[describeCoil(coil), scanner?.name].filter(Boolean).join(' • ')}
+                      {lastQC && ` • QC ${formatDate(lastQC.completedAt)}`}
+                    </span>
+                  </span>
+                  <span className={`status-badge status-badge--${
+                    result === 'pass' ? 'completed' : result === 'fail' ? 'overdue' : 'scheduled'
+                  }`}>
+                    {result ? QC_CHECK_LABELS[result] : lastQC ? 'No baseline' : 'No QC'}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {tab === 'equipment' && (
+          <div className="drill-list">
+            {equipment?.length === 0 && (
+              <p className="room-section__empty">No equipment added yet</p>
+            )}
+            {equipment?.map(item => (
+              <ContextMenu.Root key={item.id}>
+                <ContextMenu.Trigger asChild>
+                  <div
+                    className="drill-item"
+                    onClick={() => handleItemClick(item)}
+                    onTouchStart={e => handleTouchStart(e, item)}
+                    onTouchMove={handleTouchMove}
+                    onTouchEnd={handleTouchEnd}
+                  >
+                    <span className="drill-item__text">{item.name}</span>
+                    {item.type && (
+                      <span className="drill-item__meta">{EQUIPMENT_TYPE_LABELS[item.type]}</span>
+                    )}
+                    <span className="drill-item__chevron">›</span>
+                  </div>
+                </ContextMenu.Trigger>
+
+                <ContextMenu.Portal>
+                  <ContextMenu.Content className="context-menu-content">
+                    <ContextMenu.Item
+                      className="context-menu-item"
+                      onSelect={() => openEditDialog(item)}
+                    >
+                      Edit
+                    </ContextMenu.Item>
+                    <ContextMenu.Item
+                      className="context-menu-item context-menu-item--danger"
+                      onSelect={() => handleDeleteClick(item)}
+                    >
+                      Delete
+                    </ContextMenu.Item>
+                  </ContextMenu.Content>
+                </ContextMenu.Portal>
+              </ContextMenu.Root>
+            ))}
+            <div className="drill-item drill-item--add" onClick={openAddDialog}>
+              <span className="drill-item__text">+ Add Equipment</span>
             </div>
-          ))}
-          <div className="drill-item drill-item--add">
-            <span className="drill-item__text">+ Add Equipment</span>
           </div>
-        </div>
+        )}
+      </section>
+
+      {/* Photos Section */}
+      <section className="room-section">
+        <h2 className="room-section__title">Photos</h2>
+        <ImageGallery images={images} onAdd={handleAddPhoto} />
       </section>
 
       {/* Events Section */}
       <section className="room-section">
         <h2 className="room-section__title">Recent Events</h2>
-        <p className="room-section__empty">Events will be shown here</p>
+        <div className="drill-list">
+          {recentEvents?.length === 0 && (
+            <p className="room-section__empty">No events recorded yet</p>
+          )}
+          {recentEvents?.map(event => {
+            const overdue = isEventOverdue(event);
+            return (
+              <div
+                key={event.id}
+                className="drill-item"
+                onClick={() => navigate(
+                  `/organizations/${orgId}/sites/${siteId}/rooms/${roomId}/equipment/${event.equipmentId}/events/${event.id}`
+                )}
+              >
+                <span className="drill-item__text">
+                  {event.title}
+                  <span className="event-item__meta">
+                    {' '}
+                    {EVENT_TYPE_LABELS[event.type]} • {formatDate(getEventDate(event))}
+                  </span>
+                </span>
+                <span className={`status-badge status-badge--${overdue ? 'overdue' : event.status}`}>
+                  {overdue ? 'Overdue' : EVENT_STATUS_LABELS[event.status]}
+                </span>
+              </div>
+            );
+          })}
+        </div>
       </section>
+
+      {/* Mobile long-press context menu */}
+      {contextMenuItem && (
+        <div
+          className="context-menu-content"
+          style={{
+            position: 'fixed',
+            top: contextMenuPos.y,
+            left: contextMenuPos.x,
+          }}
+        >
+          <div className="context-menu-item" onClick={() => openEditDialog(contextMenuItem)}>
+            Edit
+          </div>
+          <div
+            className="context-menu-item context-menu-item--danger"
+            onClick={() => handleDeleteClick(contextMenuItem)}
+          >
+            Delete
+          </div>
+          <div className="context-menu-item" onClick={() => setContextMenuItem(null)}>
+            Cancel
+          </div>
+        </div>
+      )}
+
+      {/* Add/Edit Dialog */}
+      {dialogEquipment && roomId && (
+        <EquipmentDialog
+          key={dialogEquipment.equipment?.id ?? 'new'}
+          roomId={roomId}
+          equipment={dialogEquipment.equipment}
+          onClose={() => setDialogEquipment(null)}
+        />
+      )}
+
+      {/* Delete Confirmation */}
+      <DeleteConfirmDialog
+        level="equipment"
+        target={deleteTarget}
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleteTarget(null)}
+      />
     </>
   );
 }
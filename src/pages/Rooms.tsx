@@ -4,8 +4,11 @@ import { useLiveQuery } from 'dexie-react-hooks';
 import { v4 as uuidv4 } from 'uuid';
 import * as Dialog from '@radix-ui/react-dialog';
 import * as ContextMenu from '@radix-ui/react-context-menu';
-import * as AlertDialog from '@radix-ui/react-alert-dialog';
-import { db } from '../db';
+import { db, deleteRoom, isLive, resolveHierarchy } from '../db';
+import ExportDialog from '../components/ExportDialog';
+import DeleteConfirmDialog from '../components/DeleteConfirmDialog';
+import Breadcrumbs from '../components/Breadcrumbs';
+import { parentPath } from '../lib/hierarchy';
 import type { Room, RoomFormData } from '../types';
 
 const emptyForm: RoomFormData = {
@@ -32,6 +35,9 @@ export default function Rooms() {
   // Delete confirmation state
   const [deleteTarget, setDeleteTarget] = useState<Room | null>(null);
 
+  // Scoped export dialog
+  const [exportTarget, setExportTarget] = useState<Room | null>(null);
+
   // Long-press handling
   const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const touchStartPos = useRef<{ x: number; y: number } | null>(null);
@@ -39,13 +45,14 @@ export default function Rooms() {
   const [contextMenuPos, setContextMenuPos] = useState({ x: 0, y: 0 });
 
   // Data
-  const site = useLiveQuery(
-    () => siteId ? db.sites.get(siteId) : undefined,
+  const chain = useLiveQuery(
+    async () => siteId ? resolveHierarchy(siteId, 'site') : null,
     [siteId]
   );
+  const site = chain?.site;
 
   const rooms = useLiveQuery(
-    () => siteId ? db.rooms.where('siteId').equals(siteId).sortBy('name') : [],
+    () => siteId ? db.rooms.where('siteId').equals(siteId).filter(isLive).sortBy('name') : [],
     [siteId]
   );
 
@@ -86,7 +93,7 @@ export default function Rooms() {
 
   // Navigation
   const handleBack = () => {
-    navigate(`/organizations/${orgId}/sites`);
+    navigate(chain ? parentPath(chain) : `/organizations/${orgId}/sites`);
   };
 
   const handleItemClick = (room: Room) => {
@@ -134,6 +141,11 @@ export default function Rooms() {
     setDialogOpen(false);
   };
 
+  const handleExportClick = (room: Room) => {
+    setExportTarget(room);
+    setContextMenuRoom(null);
+  };
+
   // Delete handlers
   const handleDeleteClick = (room: Room) => {
     setDeleteTarget(room);
@@ -142,13 +154,7 @@ export default function Rooms() {
 
   const handleDeleteConfirm = async () => {
     if (!deleteTarget) return;
-
-    // Cascade delete
-    await db.images.where('roomId').equals(deleteTarget.id).delete();
-    await db.events.where('roomId').equals(deleteTarget.id).delete();
-    await db.equipment.where('roomId').equals(deleteTarget.id).delete();
-    await db.rooms.delete(deleteTarget.id);
-
+    await deleteRoom(deleteTarget.id);
     setDeleteTarget(null);
   };
 
@@ -168,6 +174,7 @@ export default function Rooms() {
         </button>
         <h1 className="drill-header__title">{headerTitle}</h1>
       </header>
+      <Breadcrumbs chain={chain} />
 
       {/* List */}
       <div className="drill-list">
@@ -196,7 +203,7 @@ export default function Rooms() {
                 </ContextMenu.Item>
                 <ContextMenu.Item
                   className="context-menu-item"
-                  onSelect={() => {/* TODO: Export */}}
+                  onSelect={() => handleExportClick(room)}
                 >
                   Export
                 </ContextMenu.Item>
@@ -230,7 +237,7 @@ export default function Rooms() {
           <div className="context-menu-item" onClick={() => openEditDialog(contextMenuRoom)}>
             Edit
           </div>
-          <div className="context-menu-item" onClick={() => {/* TODO: Export */}}>
+          <div className="context-menu-item" onClick={() => handleExportClick(contextMenuRoom)}>
             Export
           </div>
           <div
@@ -245,6 +252,16 @@ export default function Rooms() {
         </div>
       )}
 
+      {/* Scoped Export */}
+      {exportTarget && (
+        <ExportDialog
+          key={exportTarget.id}
+          scope={{ level: 'room', id: exportTarget.id }}
+          name={exportTarget.name}
+          onClose={() => setExportTarget(null)}
+        />
+      )}
+
       {/* Add/Edit Dialog */}
       <Dialog.Root open={dialogOpen} onOpenChange={setDialogOpen}>
         <Dialog.Portal>
@@ -357,30 +374,12 @@ export default function Rooms() {
       </Dialog.Root>
 
       {/* Delete Confirmation */}
-      <AlertDialog.Root open={!!deleteTarget} onOpenChange={open => !open && setDeleteTarget(null)}>
-        <AlertDialog.Portal>
-          <AlertDialog.Overlay className="alert-dialog-overlay" />
-          <AlertDialog.Content className="alert-dialog-content">
-            <AlertDialog.Title className="alert-dialog-title">
-              Delete Room?
-            </AlertDialog.Title>
-            <AlertDialog.Description className="alert-dialog-description">
-              This will delete all equipment and events for "{deleteTarget?.name}".
-              This action cannot be undone.
-            </AlertDialog.Description>
-            <div className="alert-dialog-actions">
-              <AlertDialog.Cancel asChild>
-                <button className="btn">Cancel</button>
-              </AlertDialog.Cancel>
-              <AlertDialog.Action asChild>
-                <button className="btn btn--danger" onClick={handleDeleteConfirm}>
-                  Delete
-                </button>
-              </AlertDialog.Action>
-            </div>
-          </AlertDialog.Content>
-        </AlertDialog.Portal>
-      </AlertDialog.Root>
+      <DeleteConfirmDialog
+        level="room"
+        target={deleteTarget}
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleteTarget(null)}
+      />
     </>
   );
 }
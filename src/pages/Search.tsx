@@ -0,0 +1,147 @@
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { search, type SearchHit } from '../db/search';
+import { useHierarchy, type HierarchyLookup } from '../hooks/useHierarchy';
+import AppMenu from '../components/AppMenu';
+import { SEARCH_TABLE_LABELS } from '../lib/search';
+import { EVENT_TYPE_LABELS } from '../lib/events';
+import { formatDate } from '../lib/dates';
+
+// Drill-down URL for a hit
+function hitPath(hit: SearchHit, hierarchy: HierarchyLookup): string | null {
+  switch (hit.table) {
+    case 'organizations':
+      return `/organizations/${hit.record.id}/sites`;
+    case 'sites':
+      return `/organizations/${hit.record.organizationId}/sites/${hit.record.id}/rooms`;
+    case 'rooms':
+      return hierarchy.roomPath(hit.record.id);
+    case 'equipment':
+      return hierarchy.equipmentPath(hit.record.id);
+    case 'events':
+      return hierarchy.eventPath(hit.record);
+    case 'images': {
+      const image = hit.record;
+      if (image.eventId && image.equipmentId) {
+        const base = hierarchy.equipmentPath(image.equipmentId);
+        return base && `${base}/events/${image.eventId}`;
+      }
+      if (image.equipmentId) return hierarchy.equipmentPath(image.equipmentId);
+      return image.roomId ? hierarchy.roomPath(image.roomId) : null;
+    }
+  }
+}
+
+// Title and context line for a hit
+function describeHit(hit: SearchHit, hierarchy: HierarchyLookup) {
+  switch (hit.table) {
+    case 'organizations': {
+      const org = hit.record;
+      return { title: org.name, context: org.shortName ?? '' };
+    }
+    case 'sites': {
+      const site = hit.record;
+      const org = hierarchy.organizations.get(site.organizationId);
+      return { title: site.name, context: org?.shortName || org?.name || '' };
+    }
+    case 'rooms': {
+      const label = hierarchy.roomLabel(hit.record.id);
+      return { title: hit.record.name, context: label.split(' › ').slice(0, -1).join(' › ') };
+    }
+    case 'equipment': {
+      const item = hit.record;
+      const details = [item.manufacturer, item.model, item.serialNumber && `SN ${item.serialNumber}`]
+        .filter(Boolean)
+        .join(' ');
+      return { title: item.name, context: [details, hierarchy.roomLabel(item.roomId)].filter(Boolean).join(' • ') };
+    }
+    case 'events': {
+      const event = hit.record;
+      const equipment = hierarchy.equipment.get(event.equipmentId);
+      return {
+        title: event.title,
+        context: [
+          EVENT_TYPE_LABELS[event.type],
+          formatDate(event.completedAt ?? event.scheduledDate ?? event.createdAt),
+          equipment?.name,
+        ].filter(Boolean).join(' • '),
+      };
+    }
+    case 'images': {
+      const image = hit.record;
+      return {
+        title: image.caption || image.filename,
+        context: [image.tags?.join(', '), image.roomId && hierarchy.roomLabel(image.roomId)]
+          .filter(Boolean)
+          .join(' • '),
+      };
+    }
+  }
+}
+
+/**
+ * Find any record by name, serial number or keyword. Results come from the
+ * full-text index, best match first, and open the record's drill-down page.
+ */
+export default function Search() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') ?? '';
+
+  const hierarchy = useHierarchy();
+  const hits = useLiveQuery(() => search(query), [query]);
+
+  const setQuery = (value: string) => {
+    setSearchParams(value ? { q: value } : {}, { replace: true });
+  };
+
+  const renderHit = (hit: SearchHit) => {
+    if (!hierarchy) return null;
+    const path = hitPath(hit, hierarchy);
+    const { title, context } = describeHit(hit, hierarchy);
+
+    return (
+      <div key={`${hit.table}/${hit.record.id}`} className="event-item">
+        <div
+          className="event-item__main event-item__main--link"
+          onClick={() => path && navigate(path)}
+        >
+          <div className="event-item__title">{title}</div>
+          <div className="event-item__meta">
+            {SEARCH_TABLE_LABELS[hit.table]}
+            {context && ` • ${context}`}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <header className="drill-header">
+        <button className="drill-header__back" onClick={() => navigate('/')}>
+          ‹
+        </button>
+        <h1 className="drill-header__title">Search</h1>
+        <AppMenu />
+      </header>
+
+      <div className="filter-bar">
+        <input
+          className="form-input search-input"
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Name, serial number, keyword…"
+          aria-label="Search"
+          autoFocus
+        />
+      </div>
+
+      <section className="room-section">
+        {query && hits?.length === 0 && <p className="room-section__empty">No matches</p>}
+        {hits?.map(renderHit)}
+      </section>
+    </>
+  );
+}
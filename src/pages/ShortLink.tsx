@@ -0,0 +1,43 @@
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { resolveHierarchy } from '../db';
+import AppMenu from '../components/AppMenu';
+import { CASCADE_LEVEL_LABELS } from '../lib/trash';
+import { hierarchyPath } from '../lib/hierarchy';
+import type { CascadeLevel } from '../types';
+
+interface ShortLinkProps {
+  level: CascadeLevel;
+}
+
+/** Short shared links (/e/<id>, /ev/<id>, …) redirect to the record's nested route */
+export default function ShortLink({ level }: ShortLinkProps) {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+
+  const chain = useLiveQuery(
+    async () => (id ? resolveHierarchy(id, level) : null),
+    [id, level]
+  );
+
+  if (chain) return <Navigate to={hierarchyPath(chain)} replace />;
+
+  return (
+    <>
+      <header className="drill-header">
+        <button className="drill-header__back" onClick={() => navigate('/')}>
+          ‹
+        </button>
+        <h1 className="drill-header__title">{CASCADE_LEVEL_LABELS[level]}</h1>
+        <AppMenu />
+      </header>
+
+      {chain === null && (
+        <p className="room-section room-section__empty">
+          {CASCADE_LEVEL_LABELS[level]} not found on this device. It may have been deleted, or
+          not synced or imported here yet.
+        </p>
+      )}
+    </>
+  );
+}
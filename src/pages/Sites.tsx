@@ -4,8 +4,9 @@ import { useLiveQuery } from 'dexie-react-hooks';
 import { v4 as uuidv4 } from 'uuid';
 import * as Dialog from '@radix-ui/react-dialog';
 import * as ContextMenu from '@radix-ui/react-context-menu';
-import * as AlertDialog from '@radix-ui/react-alert-dialog';
-import { db } from '../db';
+import { db, deleteSite, isLive, live } from '../db';
+import ExportDialog from '../components/ExportDialog';
+import DeleteConfirmDialog from '../components/DeleteConfirmDialog';
 import type { Site, SiteFormData } from '../types';
 
 const emptyForm: SiteFormData = {
@@ -32,6 +33,9 @@ export default function Sites() {
   // Delete confirmation state
   const [deleteTarget, setDeleteTarget] = useState<Site | null>(null);
 
+  // Scoped export dialog
+  const [exportTarget, setExportTarget] = useState<Site | null>(null);
+
   // Long-press handling
   const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const touchStartPos = useRef<{ x: number; y: number } | null>(null);
@@ -40,12 +44,12 @@ export default function Sites() {
 
   // Data
   const organization = useLiveQuery(
-    () => orgId ? db.organizations.get(orgId) : undefined,
+    async () => orgId ? live(await db.organizations.get(orgId)) : undefined,
     [orgId]
   );
 
   const sites = useLiveQuery(
-    () => orgId ? db.sites.where('organizationId').equals(orgId).sortBy('name') : [],
+    () => orgId ? db.sites.where('organizationId').equals(orgId).filter(isLive).sortBy('name') : [],
     [orgId]
   );
 
@@ -86,7 +90,7 @@ export default function Sites() {
 
   // Navigation
   const handleBack = () => {
-    navigate('/');
+    navigate('/organizations');
   };
 
   const handleItemClick = (site: Site) => {
@@ -134,6 +138,11 @@ export default function Sites() {
     setDialogOpen(false);
   };
 
+  const handleExportClick = (site: Site) => {
+    setExportTarget(site);
+    setContextMenuSite(null);
+  };
+
   // Delete handlers
   const handleDeleteClick = (site: Site) => {
     setDeleteTarget(site);
@@ -142,17 +151,7 @@ export default function Sites() {
 
   const handleDeleteConfirm = async () => {
     if (!deleteTarget) return;
-
-    // Cascade delete
-    const rooms = await db.rooms.where('siteId').equals(deleteTarget.id).toArray();
-    const roomIds = rooms.map(r => r.id);
-
-    await db.images.where('roomId').anyOf(roomIds).delete();
-    await db.events.where('roomId').anyOf(roomIds).delete();
-    await db.equipment.where('roomId').anyOf(roomIds).delete();
-    await db.rooms.where('siteId').equals(deleteTarget.id).delete();
-    await db.sites.delete(deleteTarget.id);
-
+    await deleteSite(deleteTarget.id);
     setDeleteTarget(null);
   };
 
@@ -200,7 +199,7 @@ export default function Sites() {
                 </ContextMenu.Item>
                 <ContextMenu.Item
                   className="context-menu-item"
-                  onSelect={() => {/* TODO: Export */}}
+                  onSelect={() => handleExportClick(site)}
                 >
                   Export
                 </ContextMenu.Item>
@@ -234,7 +233,7 @@ export default function Sites() {
           <div className="context-menu-item" onClick={() => openEditDialog(contextMenuSite)}>
             Edit
           </div>
-          <div className="context-menu-item" onClick={() => {/* TODO: Export */}}>
+          <div className="context-menu-item" onClick={() => handleExportClick(contextMenuSite)}>
             Export
           </div>
           <div
@@ -249,6 +248,16 @@ export default function Sites() {
         </div>
       )}
 
+      {/* Scoped Export */}
+      {exportTarget && (
+        <ExportDialog
+          key={exportTarget.id}
+          scope={{ level: 'site', id: exportTarget.id }}
+          name={exportTarget.name}
+          onClose={() => setExportTarget(null)}
+        />
+      )}
+
       {/* Add/Edit Dialog */}
       <Dialog.Root open={dialogOpen} onOpenChange={setDialogOpen}>
         <Dialog.Portal>
@@ -359,30 +368,12 @@ export default function Sites() {
       </Dialog.Root>
 
       {/* Delete Confirmation */}
-      <AlertDialog.Root open={!!deleteTarget} onOpenChange={open => !open && setDeleteTarget(null)}>
-        <AlertDialog.Portal>
-          <AlertDialog.Overlay className="alert-dialog-overlay" />
-          <AlertDialog.Content className="alert-dialog-content">
-            <AlertDialog.Title className="alert-dialog-title">
-              Delete Site?
-            </AlertDialog.Title>
-            <AlertDialog.Description className="alert-dialog-description">
-              This will delete all rooms, equipment, and events for "{deleteTarget?.name}".
-              This action cannot be undone.
-            </AlertDialog.Description>
-            <div className="alert-dialog-actions">
-              <AlertDialog.Cancel asChild>
-                <button className="btn">Cancel</button>
-              </AlertDialog.Cancel>
-              <AlertDialog.Action asChild>
-                <button className="btn btn--danger" onClick={handleDeleteConfirm}>
-                  Delete
-                </button>
-              </AlertDialog.Action>
-            </div>
-          </AlertDialog.Content>
-        </AlertDialog.Portal>
-      </AlertDialog.Root>
+      <DeleteConfirmDialog
+        level="site"
+        target={deleteTarget}
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleteTarget(null)}
+      />
     </>
   );
 }
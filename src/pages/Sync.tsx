@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, getSettings, saveSetting } from '../db';
+import {
+  getConflictRecord,
+  getConflicts,
+  getPendingCount,
+  resolveConflict,
+  syncNow,
+} from '../db/sync';
+import AppMenu from '../components/AppMenu';
+import { SYNC_TABLE_LABELS, type SyncTable } from '../lib/sync';
+import { formatFileSize } from '../lib/download';
+import { formatDateTime } from '../lib/dates';
+import type { SyncConflict } from '../types';
+
+function formatValue(value: unknown) {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (value instanceof Date) return formatDateTime(value);
+  if (value instanceof Blob) return `Photo (${formatFileSize(value.size)})`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Name to show for the record a conflict is about
+function recordLabel(record: Record<string, unknown> | undefined, conflict: SyncConflict) {
+  const name = record?.name ?? record?.title ?? record?.caption;
+  return typeof name === 'string' && name ? name : conflict.recordId;
+}
+
+/**
+ * Sync with a server shared by several devices, and review the edits both
+ * sides made to the same field. Those are merged last-writer-wins; each can
+ * be kept or switched to the other value.
+ */
+export default function Sync() {
+  const navigate = useNavigate();
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const settings = useLiveQuery(() => getSettings());
+  const state = useLiveQuery(
+    async () => (settings?.syncServerUrl ? db.syncState.get(settings.syncServerUrl) : undefined),
+    [settings?.syncServerUrl]
+  );
+  const pendingCount = useLiveQuery(() => getPendingCount());
+  const conflicts = useLiveQuery(async () => {
+    const list = await getConflicts();
+    return Promise.all(list.map(async conflict => ({
+      conflict,
+      record: await getConflictRecord(conflict),
+    })));
+  });
+
+  const handleSyncNow = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const result = await syncNow();
+      setMessage(
+        `Received ${result.pulled}, sent ${result.pushed}`
+        + (result.conflicts ? `, ${result.conflicts} new conflicts to review.` : '.')
+      );
+    } catch (err) {
+      setMessage(`Sync failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderConflict = ({ conflict, record }: {
+    conflict: SyncConflict;
+    record: Record<string, unknown> | undefined;
+  }) => {
+    const merged = conflict.winner === 'remote' ? conflict.remoteValue : conflict.localValue;
+    const other = conflict.winner === 'remote' ? conflict.localValue : conflict.remoteValue;
+
+    return (
+      <div key={conflict.id} className="event-item">
+        <div className="event-item__main">
+          <div className="event-item__title">
+            {recordLabel(record, conflict)} › {conflict.field}
+          </div>
+          <div className="event-item__meta">
+            {SYNC_TABLE_LABELS[conflict.table as SyncTable] ?? conflict.table}
+            {' • '}
+            {formatDateTime(conflict.detectedAt)}
+            {!record && ' • Record since deleted'}
+          </div>
+          <div className="sync-conflict__values">
+            <div>
+              <span className="sync-conflict__label">
+                Kept ({conflict.winner === 'remote' ? 'other device' : 'this device'}):
+              </span>{' '}
+              {formatValue(merged)}
+            </div>
+            <div>
+              <span className="sync-conflict__label">
+                Replaced ({conflict.winner === 'remote' ? 'this device' : 'other device'}):
+              </span>{' '}
+              {formatValue(other)}
+            </div>
+          </div>
+        </div>
+        <div className="event-item__actions">
+          <button className="btn btn--small" onClick={() => resolveConflict(conflict.id, 'merged')}>
+            Keep
+          </button>
+          {record && (
+            <button className="btn btn--small" onClick={() => resolveConflict(conflict.id, 'other')}>
+              Use Replaced
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {/* Header */}
+      <header className="drill-header">
+        <button className="drill-header__back" onClick={() => navigate('/')}>
+          ‹
+        </button>
+        <h1 className="drill-header__title">Sync</h1>
+        <AppMenu />
+      </header>
+
+      <section className="room-section">
+        <h2 className="room-section__title">Server</h2>
+        {settings && (
+          <>
+            <div className="form-group">
+              <label className="form-label" htmlFor="syncServerUrl">
+                Server URL
+              </label>
+              <input
+                id="syncServerUrl"
+                className="form-input"
+                type="url"
+                defaultValue={settings.syncServerUrl}
+                onBlur={e => saveSetting('syncServerUrl', e.target.value.trim())}
+                placeholder="http://localhost:8787"
+              />
+            </div>
+            <div className="form-group">
+              <label className="form-label" htmlFor="syncToken">
+                Access token
+              </label>
+              <input
+                id="syncToken"
+                className="form-input"
+                type="password"
+                defaultValue={settings.syncToken}
+                onBlur={e => saveSetting('syncToken', e.target.value.trim())}
+                placeholder="Optional"
+              />
+            </div>
+          </>
+        )}
+        <div className="form-actions">
+          <span className="sync-status">
+            {state?.lastSyncAt ? `Last synced ${formatDateTime(state.lastSyncAt)}` : 'Never synced'}
+            {' • '}
+            {pendingCount ?? 0} changes to send
+          </span>
+          <button
+            className="btn btn--primary"
+            onClick={handleSyncNow}
+            disabled={busy || !settings?.syncServerUrl}
+          >
+            {busy ? 'Syncing…' : 'Sync Now'}
+          </button>
+        </div>
+        {message && <p className="room-section__empty">{message}</p>}
+      </section>
+
+      <section className="room-section">
+        <h2 className="room-section__title">Conflicts ({conflicts?.length ?? 0})</h2>
+        {conflicts?.length === 0 && (
+          <p className="room-section__empty">No conflicting edits to review</p>
+        )}
+        {conflicts?.map(renderConflict)}
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import * as AlertDialog from '@radix-ui/react-alert-dialog';
+import { getSettings, getTrash, purgeTrash, restoreTrash, saveSetting } from '../db';
+import AppMenu from '../components/AppMenu';
+import { CASCADE_LEVEL_LABELS, describeTrashEntry } from '../lib/trash';
+import { TRASH_RETENTION_OPTIONS } from '../lib/settings';
+import { formatDateTime } from '../lib/dates';
+import type { TrashEntry } from '../types';
+
+function retentionLabel(days: number) {
+  if (days === 0) return 'Until purged by hand';
+  return days === 365 ? '1 year' : `${days} days`;
+}
+
+/**
+ * Deleted records, one entry per delete with everything that went with it.
+ * Entries can be restored or purged; they are purged automatically after
+ * the retention period.
+ */
+export default function Trash() {
+  const navigate = useNavigate();
+  const [purgeTarget, setPurgeTarget] = useState<TrashEntry | 'all' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const entries = useLiveQuery(() => getTrash());
+  const settings = useLiveQuery(() => getSettings());
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setError(null);
+    try {
+      await restoreTrash(entry.id);
+    } catch (err) {
+      setError(`Cannot restore "${entry.name}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handlePurgeConfirm = async () => {
+    if (!purgeTarget) return;
+    const ids = purgeTarget === 'all' ? entries?.map(entry => entry.id) ?? [] : [purgeTarget.id];
+    for (const id of ids) {
+      await purgeTrash(id);
+    }
+    setPurgeTarget(null);
+  };
+
+  const renderEntry = (entry: TrashEntry) => {
+    const summary = describeTrashEntry(entry);
+
+    return (
+      <div key={entry.id} className="event-item">
+        <div className="event-item__main">
+          <div className="event-item__title">{entry.name}</div>
+          <div className="event-item__meta">
+            {CASCADE_LEVEL_LABELS[entry.level]}
+            {' • Deleted '}
+            {formatDateTime(entry.deletedAt)}
+          </div>
+          {summary && <div className="event-item__meta">{summary}</div>}
+        </div>
+        <div className="event-item__actions">
+          <button className="btn btn--small" onClick={() => handleRestore(entry)}>
+            Restore
+          </button>
+          <button className="btn btn--small btn--danger" onClick={() => setPurgeTarget(entry)}>
+            Delete Forever
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {/* Header */}
+      <header className="drill-header">
+        <button className="drill-header__back" onClick={() => navigate('/')}>
+          ‹
+        </button>
+        <h1 className="drill-header__title">Trash</h1>
+        <AppMenu />
+      </header>
+
+      <div className="filter-bar">
+        <label className="form-label" htmlFor="trashRetention">
+          Keep deleted items
+        </label>
+        <select
+          id="trashRetention"
+          className="form-input"
+          value={settings?.trashRetentionDays ?? ''}
+          onChange={e => saveSetting('trashRetentionDays', Number(e.target.value))}
+        >
+          {TRASH_RETENTION_OPTIONS.map(days => (
+            <option key={days} value={days}>{retentionLabel(days)}</option>
+          ))}
+        </select>
+        {!!entries?.length && (
+          <button className="btn btn--danger" onClick={() => setPurgeTarget('all')}>
+            Empty Trash
+          </button>
+        )}
+      </div>
+
+      {error && <p className="room-section measurement-group__error">{error}</p>}
+
+      <section className="room-section">
+        {entries?.length === 0 && <p className="room-section__empty">The Trash is empty</p>}
+        {entries?.map(renderEntry)}
+      </section>
+
+      {/* Purge Confirmation */}
+      <AlertDialog.Root open={!!purgeTarget} onOpenChange={open => !open && setPurgeTarget(null)}>
+        <AlertDialog.Portal>
+          <AlertDialog.Overlay className="alert-dialog-overlay" />
+          <AlertDialog.Content className="alert-dialog-content">
+            <AlertDialog.Title className="alert-dialog-title">
+              {purgeTarget === 'all' ? 'Empty Trash?' : 'Delete Forever?'}
+            </AlertDialog.Title>
+            <AlertDialog.Description className="alert-dialog-description">
+              {purgeTarget === 'all'
+                ? 'Everything in the Trash will be permanently deleted.'
+                : `"${purgeTarget?.name}" and everything deleted with it will be permanently deleted.`}
+              {' '}This action cannot be undone.
+            </AlertDialog.Description>
+            <div className="alert-dialog-actions">
+              <AlertDialog.Cancel asChild>
+                <button className="btn">Cancel</button>
+              </AlertDialog.Cancel>
+              <AlertDialog.Action asChild>
+                <button className="btn btn--danger" onClick={handlePurgeConfirm}>
+                  Delete Forever
+                </button>
+              </AlertDialog.Action>
+            </div>
+          </AlertDialog.Content>
+        </AlertDialog.Portal>
+      </AlertDialog.Root>
+    </>
+  );
+}
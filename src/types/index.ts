@@ -10,6 +10,7 @@ export interface Organization {
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date; // in the Trash until restored or purged
 }
 
 export interface Site {
@@ -23,6 +24,7 @@ export interface Site {
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date; // in the Trash until restored or purged
 }
 
 export interface Room {
@@ -36,10 +38,19 @@ export interface Room {
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date; // in the Trash until restored or purged
 }
 
 export type EquipmentType = 'mri_scanner' | 'coil' | 'phantom' | 'workstation' | 'other';
 
+export type ServiceContractType =
+  | 'full'
+  | 'parts_only'
+  | 'labor_only'
+  | 'preventive'
+  | 'time_and_materials'
+  | 'other';
+
 export interface Equipment {
   id: string;
   roomId: string;
@@ -52,16 +63,28 @@ export interface Equipment {
   installDate?: Date;
   softwareVersion?: string;
   serviceContractExpiry?: Date;
+  serviceContractVendor?: string;
+  serviceContractType?: ServiceContractType;
+  serviceContractCoverage?: string; // what the contract covers (uptime, coils, response time…)
+  warrantyExpiry?: Date;
+  // Coils only
+  coilAnatomy?: string; // e.g. "Head/Neck", "Knee"
+  channelCount?: number;
+  coilConnector?: string; // connector / table port
+  compatibleScannerId?: string; // equipment id of the scanner the coil is used with
+  partNumber?: string;
   status: 'active' | 'inactive' | 'decommissioned';
   customFields?: Record<string, string>;
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date; // in the Trash until restored or purged
 }
 
 export type EventType =
   | 'acr_test'
   | 'qc_check'
+  | 'coil_qc'
   | 'acceptance_test'
   | 'annual_survey'
   | 'repair'
@@ -87,8 +110,80 @@ export interface SupportEvent {
   findings?: string;
   recommendations?: string;
   customFields?: Record<string, string>;
+  acr?: ACRTestData;
+  qc?: QCMeasurements;
+  coilQC?: CoilQCMeasurements;
+  scheduleId?: string; // set on events generated by a recurring schedule
+  reportTemplateId?: string; // template last used for this event's report
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date; // in the Trash until restored or purged
+}
+
+// ACR Large Phantom measurements (acr_test events), one set per ACR series
+export type ACRSeries = 't1' | 't2';
+
+export interface ACRSeriesMeasurements {
+  // Geometric accuracy (mm): sagittal localizer 148 mm, slices 1 and 5 190 mm
+  geoSagittal?: number;
+  geoSlice1Vertical?: number;
+  geoSlice1Horizontal?: number;
+  geoSlice5Vertical?: number;
+  geoSlice5Horizontal?: number;
+  geoSlice5DiagonalA?: number;
+  geoSlice5DiagonalB?: number;
+  // High-contrast spatial resolution: smallest resolved hole size (mm)
+  resolutionUL?: number;
+  resolutionLR?: number;
+  // Slice thickness accuracy (mm), from the top/bottom ramp lengths (mm)
+  sliceThickness?: number;
+  sliceRampTop?: number;
+  sliceRampBottom?: number;
+  // Slice position accuracy: bar length difference (mm)
+  slicePosition1?: number;
+  slicePosition11?: number;
+  // Image intensity uniformity (%), from the high/low signal ROI means
+  piu?: number;
+  piuHigh?: number;
+  piuLow?: number;
+  // Percent signal ghosting (%), from the large and four background ROI means
+  ghosting?: number;
+  ghostLarge?: number;
+  ghostTop?: number;
+  ghostBottom?: number;
+  ghostLeft?: number;
+  ghostRight?: number;
+  // Low-contrast object detectability: complete spokes per slice
+  lcdSlice8?: number;
+  lcdSlice9?: number;
+  lcdSlice10?: number;
+  lcdSlice11?: number;
+}
+
+export type ACRTestData = Partial<Record<ACRSeries, ACRSeriesMeasurements>>;
+
+// Scanner QC measurements (qc_check events), incl. ACR weekly technologist QC
+export type QCCheckResult = 'pass' | 'fail';
+
+export interface QCMeasurements {
+  centerFrequency?: number; // MHz
+  transmitterGain?: number; // dB (transmitter gain or attenuation)
+  snr?: number;
+  geometricAccuracy?: number; // mm, phantom diameter on the axial slice (190 mm)
+  resolution?: number; // mm, smallest resolved hole size
+  lowContrast?: number; // total complete spokes
+  artifacts?: QCCheckResult;
+  monitorQC?: QCCheckResult; // film / monitor QC
+  visualChecklist?: QCCheckResult;
+}
+
+// Coil QC measurements (coil_qc events), compared with the coil's baseline
+export interface CoilQCMeasurements {
+  elementSnr?: number[]; // SNR per element, element 1 first
+  snr?: number; // composite (all elements combined)
+  uniformity?: number; // %, percent integral uniformity
+  /** Pass/fail against the baseline in effect when saved; unset without a baseline */
+  result?: QCCheckResult;
 }
 
 export interface GalleryImage {
@@ -104,6 +199,7 @@ export interface GalleryImage {
   tags?: string[];
   capturedAt: Date;
   createdAt: Date;
+  deletedAt?: Date; // in the Trash until restored or purged
 }
 
 export interface Timeline {
@@ -114,16 +210,222 @@ export interface Timeline {
   imageIds: string[];
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date; // in the Trash until restored or purged
+}
+
+// Recurring work on an equipment item, e.g. annual survey every 12 months.
+// Each active schedule keeps one open generated event due on nextDueDate.
+export type ScheduleUnit = 'days' | 'weeks' | 'months' | 'years';
+
+export interface Schedule {
+  id: string;
+  equipmentId: string;
+  eventType: EventType;
+  title: string;
+  interval: number;
+  unit: ScheduleUnit;
+  /** First due date; occurrence n is due n intervals after it */
+  anchorDate: Date;
+  nextDueDate: Date;
+  active: boolean;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt?: Date; // in the Trash until restored or purged
+}
+
+// Report layout for an event type: ordered sections, boilerplate text with
+// {{placeholders}} for entity fields, and an optional logo
+export type ReportSectionKind =
+  | 'details'
+  | 'text'
+  | 'description'
+  | 'findings'
+  | 'recommendations'
+  | 'acr_summary'
+  | 'acr_measurements'
+  | 'qc_measurements'
+  | 'custom_fields'
+  | 'photos'
+  | 'signature';
+
+export interface ReportTemplateSection {
+  id: string;
+  kind: ReportSectionKind;
+  /** Heading; the section's default heading when omitted */
+  title?: string;
+  /** Boilerplate for 'text' sections */
+  text?: string;
+}
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  eventType: EventType;
+  /** Report title, may contain placeholders */
+  title: string;
+  sections: ReportTemplateSection[];
+  logo?: Blob;
+  /** Used for this event type unless an event has chosen another template */
+  isDefault: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt?: Date; // in the Trash until restored or purged
+}
+
+// Per-scanner (or per-coil) QC baseline and action limits. A new version is
+// established after a major repair or software upgrade; earlier versions are superseded.
+export type BaselineKey = 'centerFrequency' | 'transmitterGain' | 'snr';
+export type BaselineSource = 'acceptance_test' | 'qc_mean' | 'manual' | 'coil_qc';
+
+export interface Baseline {
+  id: string;
+  equipmentId: string;
+  version: number;
+  source: BaselineSource;
+  sourceEventIds: string[];
+  values: Partial<Record<BaselineKey, number>>;
+  /** Tolerances: center frequency ± ppm, SNR ± %, transmitter gain ± dB */
+  limits: Partial<Record<BaselineKey, number>>;
+  softwareVersion?: string; // scanner software when established
+  /** Coil baselines: composite SNR is values.snr, and limits.snr (%) applies per element too */
+  elementSnr?: number[];
+  uniformity?: number; // %
+  uniformityLimit?: number; // allowed drop, percentage points
+  establishedAt: Date;
+  supersededAt?: Date;
+  resetReason?: string;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt?: Date; // in the Trash until restored or purged
+}
+
+// Soft delete: a deleted record and everything below it are marked with
+// deletedAt and listed as one Trash entry until restored or purged
+export type CascadeLevel = 'organization' | 'site' | 'room' | 'equipment' | 'event';
+
+// Records deleted on their own (a schedule takes its upcoming occurrences along)
+export type TrashLevel = CascadeLevel | 'image' | 'timeline' | 'schedule' | 'report_template';
+
+export interface TrashEntry {
+  id: string;
+  /** 'all' for Clear All Data */
+  level: TrashLevel | 'all';
+  recordId?: string;
+  name: string;
+  deletedAt: Date;
+  /** Ids of the records marked deleted, by table */
+  records: Record<string, string[]>;
+}
+
+// A hierarchy record with all its ancestors (see resolveHierarchy); the
+// record itself is the one at `level`
+export interface HierarchyChain {
+  level: CascadeLevel;
+  organization: Organization;
+  site?: Site;
+  room?: Room;
+  equipment?: Equipment;
+  event?: SupportEvent;
+}
+
+// Expiry reminder for a service contract or warranty, one per lead time.
+// Shown as a notification once due, by the app or by the service worker
+// (public/contract-reminders.js reads this table directly).
+export interface ContractReminder {
+  id: string; // group + '/' + lead days
+  /** equipmentId/kind/expiry date; only the latest due reminder of a group is shown */
+  group: string;
+  equipmentId: string;
+  title: string;
+  body: string;
+  fireAt: Date;
+  notifiedAt?: Date;
+}
+
+// App preferences stored on this device
+export interface AppSettings {
+  /** Days a Trash entry is kept before it is purged; 0 keeps it until purged by hand */
+  trashRetentionDays: number;
+  /** Backup snapshots to keep; 0 turns daily snapshots off */
+  backupSnapshotCount: number;
+  /** Base URL of the sync server; empty when sync is off */
+  syncServerUrl: string;
+  /** Bearer token sent to the sync server, if it requires one */
+  syncToken: string;
+  /** Days before a contract or warranty expires to remind, longest first */
+  contractReminderDays: number[];
+}
+
+export interface Setting {
+  key: keyof AppSettings;
+  value: AppSettings[keyof AppSettings];
 }
 
 // Form types
-export type OrganizationFormData = Omit<Organization, 'id' | 'createdAt' | 'updatedAt'>;
-export type SiteFormData = Omit<Site, 'id' | 'createdAt' | 'updatedAt'>;
-export type RoomFormData = Omit<Room, 'id' | 'createdAt' | 'updatedAt'>;
-export type EquipmentFormData = Omit<Equipment, 'id' | 'createdAt' | 'updatedAt'>;
-export type SupportEventFormData = Omit<SupportEvent, 'id' | 'createdAt' | 'updatedAt'>;
+type RecordMeta = 'id' | 'createdAt' | 'updatedAt' | 'deletedAt';
+export type OrganizationFormData = Omit<Organization, RecordMeta>;
+export type SiteFormData = Omit<Site, RecordMeta>;
+export type RoomFormData = Omit<Room, RecordMeta>;
+export type EquipmentFormData = Omit<Equipment, RecordMeta>;
+export type SupportEventFormData = Omit<SupportEvent, RecordMeta>;
 
 // Export types
+
+// Full-database JSON export (mri-physics-export-YYYY-MM-DD.json). Images are
+// not included; tables added after version 1.0 are optional.
+export interface ExportData {
+  exportedAt: string;
+  version: string;
+  organizations: Organization[];
+  sites: Site[];
+  rooms: Room[];
+  equipment: Equipment[];
+  events: SupportEvent[];
+  timelines?: Timeline[];
+  baselines?: Baseline[];
+  schedules?: Schedule[];
+}
+
+// ZIP export: manifest.json (the JSON export plus image metadata) with each
+// photo and thumbnail stored as a file named by image id
+export interface ArchiveImage extends Omit<GalleryImage, 'blob' | 'thumbnailBlob'> {
+  file: string;
+  thumbnailFile?: string;
+}
+
+export interface ExportArchiveManifest extends ExportData {
+  images: ArchiveImage[];
+  /** Backup snapshots only */
+  snapshot?: ArchiveSnapshotState;
+}
+
+// Device data a backup snapshot restores along with the export. Kept out of
+// exports, which are shared: settings hold the sync token.
+export interface SnapshotState {
+  reportTemplates: ReportTemplate[];
+  settings: Setting[];
+  contractReminders: ContractReminder[];
+}
+
+// Report template in a snapshot manifest; the logo is stored as templates/<id>.<ext>
+export interface ArchiveReportTemplate extends Omit<ReportTemplate, 'logo'> {
+  logoFile?: string;
+  logoType?: string;
+}
+
+export interface ArchiveSnapshotState extends Omit<SnapshotState, 'reportTemplates'> {
+  reportTemplates: ArchiveReportTemplate[];
+}
+
+// Subtree exported from an organization, site or room context menu; the
+// export also carries the parent site/organization records
+export interface ExportScope {
+  level: 'organization' | 'site' | 'room';
+  id: string;
+}
+
 export interface ExportOptions {
   format: 'json' | 'csv';
   includeImages: boolean;
@@ -131,4 +433,56 @@ export interface ExportOptions {
     start: Date;
     end: Date;
   };
+  scope?: ExportScope;
+}
+
+// Local backup: a ZIP export (with photos) kept in a separate IndexedDB database
+export type BackupReason = 'scheduled' | 'manual' | 'before_restore';
+
+export interface BackupSnapshot {
+  id: string;
+  reason: BackupReason;
+  archive: Blob;
+  recordCount: number;
+  imageCount: number;
+  createdAt: Date;
+}
+
+// Sync bookkeeping. Each synced record has per-field change times (ms) used
+// for last-writer-wins merges; `pending` marks records not yet pushed.
+export interface SyncMeta {
+  table: string;
+  recordId: string;
+  fieldTimes: Record<string, number>;
+  /** Set when the record was deleted for good (a tombstone) */
+  deleted?: number;
+  pending: 0 | 1;
+  changedAt: number;
+}
+
+// Progress against one sync server
+export interface SyncState {
+  url: string;
+  cursor: string | null;
+  lastSyncAt?: Date;
+}
+
+// A field both this device and another changed since the last sync. The
+// newer change was kept; the review screen can switch to the other value.
+export interface SyncConflict {
+  id: string;
+  table: string;
+  recordId: string;
+  field: string;
+  localValue: unknown;
+  remoteValue: unknown;
+  winner: 'local' | 'remote';
+  detectedAt: Date;
+}
+
+// Full-text index row: the words a record can be found by (see lib/search)
+export interface SearchEntry {
+  table: string;
+  recordId: string;
+  terms: string[];
 }